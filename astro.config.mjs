@@ -3,12 +3,16 @@ import react from '@astrojs/react'
 import mdx from '@astrojs/mdx'
 import tailwind from '@astrojs/tailwind'
 import node from '@astrojs/node'
+import microtextValidation from './src/integrations/microtext-validation.ts'
+import publishScheduler from './src/integrations/publish-scheduler.ts'
 
 export default defineConfig({
   integrations: [
     react(),
     mdx(),
     tailwind(),
+    microtextValidation(),
+    publishScheduler(),
   ],
   output: 'server',
   adapter: node({
@@ -33,6 +33,16 @@ import matter from 'gray-matter'
 // Configuration - set via environment or default
 const VIBE_EDITOR_URL = process.env.VIBE_EDITOR_URL || 'http://localhost:4321'
 const VIBE_EDITOR_ROOT = process.env.VIBE_EDITOR_ROOT || process.cwd().replace('/mcp-server', '')
+// API token of an editor account (npm run users -- token <username>)
+const VIBE_EDITOR_TOKEN = process.env.VIBE_EDITOR_TOKEN
+
+// Headers for vibe-editor API calls
+function apiHeaders() {
+  return {
+    'Content-Type': 'application/json',
+    ...(VIBE_EDITOR_TOKEN ? { Authorization: `Bearer ${VIBE_EDITOR_TOKEN}` } : {})
+  }
+}
 
 // Flatten nested microtext into id -> value map
 function flattenMicrotext(obj, prefix = '') {
@@ -424,8 +434,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         // Call the API endpoint
         const response = await fetch(`${VIBE_EDITOR_URL}/api/microtext`, {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ pageSlug, id, value })
+          headers: apiHeaders(),
+          body: JSON.stringify({ pageSlug, id, value, source: 'mcp' })
         })
 
         const result = await response.json()
@@ -445,7 +455,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         // Call the AI edit endpoint
         const response = await fetch(`${VIBE_EDITOR_URL}/api/ai-edit`, {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: apiHeaders(),
           body: JSON.stringify({ pageSlug, instruction, apply })
         })
 
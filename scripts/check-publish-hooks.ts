@@ -0,0 +1,163 @@
+#!/usr/bin/env tsx
+/**
+ * Post-publish Hooks Check
+ *
+ * Runs the post-publish hooks (src/lib/publish-hooks.ts) end to end, away
+ * from the real site: a throwaway repository with a publish commit, a bare
+ * repository to push to, a build command and a local webhook receiver.
+ * Checks that
+ *
+ * - the commit is pushed to the remote's branch
+ * - the build runs with VIBE_PUBLISH_COMMIT / VIBE_PUBLISH_BRANCH
+ * - the webhook gets the publish, signed with the secret
+ * - a failing hook fails the run, and a retry runs it again
+ *
+ * Usage:
+ *   npm run check:hooks           Run the check
+ *   npm run check:hooks -- --keep Keep the temporary directory to look at
+ *
+ * Exits with 1 when a check fails.
+ */
+
+import { execFileSync } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import type { HookRun } from '../src/lib/publish-hooks';
+
+const keep = process.argv.includes('--keep');
+
+interface Delivery {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+let failures = 0;
+
+function check(ok: boolean, what: string, detail?: unknown) {
+  if (ok) {
+    console.log(`✅ ${what}`);
+  } else {
+    failures++;
+    console.log(`❌ ${what}${detail !== undefined ? `: ${JSON.stringify(detail)}` : ''}`);
+  }
+}
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', ['-c', 'user.name=Hooks Check', '-c', 'user.email=hooks@vibe-editor.invalid', ...args], {
+    cwd,
+    encoding: 'utf-8',
+  }).trim();
+}
+
+const page = (headline: string) => `---
+title: Hooks check
+microtext:
+  hero-headline: "${headline}"
+---
+
+<MicroText id="hero-headline" />
+`;
+
+// A webhook receiver that refuses the first delivery
+function startReceiver(deliveries: Delivery[]): Promise<http.Server> {
+  const server = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => {
+      deliveries.push({ headers: request.headers, body });
+      const first = deliveries.length === 1;
+      response.writeHead(first ? 503 : 200, { 'Content-Type': 'text/plain' });
+      response.end(first ? 'not yet' : 'deployed');
+    });
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+async function waitFor(getRun: (commit: string) => Promise<HookRun | null>, commit: string): Promise<HookRun | null> {
+  const deadline = Date.now() + 60 * 1000;
+  while (Date.now() < deadline) {
+    const run = await getRun(commit);
+    if (run && run.status !== 'running') return run;
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+  return getRun(commit);
+}
+
+async function main() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'vibe-hooks-'));
+  const site = path.join(dir, 'site');
+  const remote = path.join(dir, 'remote.git');
+  const deliveries: Delivery[] = [];
+  const receiver = await startReceiver(deliveries);
+  const secret = crypto.randomBytes(16).toString('hex');
+
+  try {
+    await fs.mkdir(path.join(site, 'src/pages'), { recursive: true });
+    git(dir, 'init', '-q', '--bare', remote);
+    git(site, 'init', '-q', '-b', 'main');
+    git(site, 'remote', 'add', 'deploy', remote);
+    await fs.writeFile(path.join(site, 'src/pages/index.mdx'), page('Before'));
+    git(site, 'add', '-A');
+    git(site, 'commit', '-q', '-m', 'Initial content');
+    await fs.writeFile(path.join(site, 'src/pages/index.mdx'), page('After'));
+    git(site, 'commit', '-q', '-a', '-m', 'Content update');
+    const commit = git(site, 'rev-parse', 'HEAD');
+
+    const { port } = receiver.address() as AddressInfo;
+    Object.assign(process.env, {
+      VIBE_DATA_DIR: path.join(dir, 'data'),
+      VIBE_PUBLISH_REMOTE: 'deploy',
+      VIBE_PUBLISH_BRANCH: 'live',
+      VIBE_PUBLISH_BUILD: 'echo "$VIBE_PUBLISH_COMMIT $VIBE_PUBLISH_BRANCH" > built.txt && echo built',
+      VIBE_PUBLISH_WEBHOOK: `http://127.0.0.1:${port}/hook?key=abc`,
+      VIBE_PUBLISH_WEBHOOK_SECRET: secret,
+    });
+    // After the environment is set: paths are resolved when the modules load
+    process.chdir(site);
+    const { getRun, retryPostPublish, startPostPublish } = await import('../src/lib/publish-hooks');
+
+    const started = await startPostPublish(commit);
+    check(started?.status === 'running', 'hooks start after a publish', started);
+
+    let run = await waitFor(getRun, commit);
+    const status = (name: string) => run?.hooks.find(hook => hook.name === name)?.status;
+    check(status('push') === 'succeeded', 'push succeeded', run?.hooks[0]);
+    check(git(site, '--git-dir', remote, 'rev-parse', 'refs/heads/live') === commit, 'remote branch "live" is at the commit');
+
+    check(status('build') === 'succeeded', 'build succeeded', run?.hooks[1]);
+    const built = await fs.readFile(path.join(site, 'built.txt'), 'utf-8').catch(() => '');
+    check(built.trim() === `${commit} main`, 'build got VIBE_PUBLISH_COMMIT and VIBE_PUBLISH_BRANCH', built.trim());
+
+    const [first] = deliveries;
+    const signature = `sha256=${crypto.createHmac('sha256', secret).update(first?.body ?? '').digest('hex')}`;
+    check(first?.headers['x-vibe-signature-256'] === signature, 'webhook body is signed with the secret');
+    check(first?.headers['x-vibe-event'] === 'publish', 'webhook names the event');
+    const payload = JSON.parse(first?.body || '{}');
+    check(
+      payload.commit === commit && payload.branch === 'main' && payload.pages?.[0]?.page === 'index',
+      'webhook body describes the publish',
+      payload
+    );
+    check(status('webhook') === 'failed' && run?.status === 'failed', 'a webhook answering 503 fails the run', run?.hooks[2]);
+
+    await retryPostPublish(commit);
+    run = await waitFor(getRun, commit);
+    check(run?.status === 'succeeded' && deliveries.length === 2, 'retry runs the hooks again and succeeds', run);
+  } finally {
+    receiver.close();
+    if (keep) console.log(`\nKept ${dir}`);
+    else await fs.rm(dir, { recursive: true, force: true });
+  }
+
+  console.log(failures === 0 ? '\nAll hook checks passed' : `\n${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch((err) => {
+  console.error('Error:', err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,144 @@
+#!/usr/bin/env tsx
+/**
+ * Concurrent Publishes Check
+ *
+ * Manual publishes, scheduled publishes and rollbacks all stage through the
+ * one git index (see withPublishLock in src/lib/git.ts). This starts one of
+ * each at the same time, plus a second manual publish, in a throwaway
+ * repository, and checks that each commit holds only its own changes,
+ * authored by whoever made it, and that nothing is left staged.
+ *
+ * Usage:
+ *   npm run check:publish           Run the check
+ *   npm run check:publish -- --keep Keep the temporary directory to look at
+ *
+ * Exits with 1 when a check fails.
+ */
+
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+const keep = process.argv.includes('--keep');
+
+let failures = 0;
+
+function check(ok: boolean, what: string, detail?: unknown) {
+  if (ok) {
+    console.log(`✅ ${what}`);
+  } else {
+    failures++;
+    console.log(`❌ ${what}${detail !== undefined ? `: ${JSON.stringify(detail)}` : ''}`);
+  }
+}
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim();
+}
+
+const page = (fields: Record<string, string>) => `---
+title: Publish check
+microtext:
+${Object.entries(fields).map(([id, value]) => `  ${id}: "${value}"`).join('\n')}
+---
+
+Body
+`;
+
+async function main() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'vibe-publish-'));
+  const site = path.join(dir, 'site');
+  const write = (slug: string, fields: Record<string, string>) =>
+    fs.writeFile(path.join(site, 'src/pages', `${slug}.mdx`), page(fields));
+
+  try {
+    await fs.mkdir(path.join(site, 'src/pages'), { recursive: true });
+    git(dir, 'init', '-q', '-b', 'main', site);
+    git(site, 'config', 'user.name', 'Site Bot');
+    git(site, 'config', 'user.email', 'bot@vibe-editor.invalid');
+    for (const slug of ['a', 'b', 'c', 'd']) await write(slug, { x: 'old', z: 'old' });
+    git(site, 'add', '-A');
+    git(site, 'commit', '-q', '-m', 'Initial content');
+    await write('d', { x: 'published', z: 'old' });
+    git(site, 'commit', '-q', '-a', '-m', 'Earlier publish');
+    const earlier = git(site, 'rev-parse', 'HEAD');
+
+    // Unpublished: two fields on a, one on b
+    await write('a', { x: 'new', z: 'new' });
+    await write('b', { x: 'new', z: 'old' });
+
+    process.env.VIBE_DATA_DIR = path.join(dir, 'data');
+    // After the environment is set: paths are resolved when the modules load
+    process.chdir(site);
+    const { publishChanges } = await import('../src/lib/publish-changes');
+    const { revertPublish } = await import('../src/lib/publish-history');
+    const { createSchedule, runDueSchedules } = await import('../src/lib/publish-schedule');
+
+    await createSchedule({
+      publishAt: new Date(Date.now() - 1000).toISOString(),
+      changes: [{ pageSlug: 'c', id: 'x', value: 'scheduled' }],
+    }, 'sam');
+
+    const ann = { name: 'Ann', email: 'ann@vibe-editor.invalid' };
+    const bob = { name: 'Bob', email: 'bob@vibe-editor.invalid' };
+    const rita = { name: 'Rita', email: 'rita@vibe-editor.invalid' };
+    const [fieldPublish, pagePublish, , rollback] = await Promise.all([
+      publishChanges({ fields: [{ page: 'a', id: 'x' }] }, 'Field a.x', ann),
+      publishChanges({ pages: ['b'] }, 'Page b', bob),
+      runDueSchedules(),
+      revertPublish(earlier, rita),
+    ]);
+
+    const filesOf = (commit: string) => git(site, 'show', '--format=', '--name-only', commit).split('\n').filter(Boolean);
+    const authorOf = (commit: string) => git(site, 'log', '-1', '--format=%an', commit);
+    const show = (commit: string, file: string) => git(site, 'show', `${commit}:${file}`);
+
+    const fieldCommit = fieldPublish?.commit ?? '';
+    check(
+      JSON.stringify(filesOf(fieldCommit)) === '["src/pages/a.mdx"]' && authorOf(fieldCommit) === 'Ann',
+      'the field publish commits only a.mdx, as Ann',
+      { files: filesOf(fieldCommit), author: authorOf(fieldCommit) }
+    );
+    const a = show(fieldCommit, 'src/pages/a.mdx');
+    check(a.includes('x: "new"') && a.includes('z: "old"'), 'the field publish leaves a.z unpublished', a);
+
+    const pageCommit = pagePublish?.commit ?? '';
+    check(
+      JSON.stringify(filesOf(pageCommit)) === '["src/pages/b.mdx"]' && authorOf(pageCommit) === 'Bob',
+      'the page publish commits only b.mdx, as Bob',
+      { files: filesOf(pageCommit), author: authorOf(pageCommit) }
+    );
+
+    const scheduled = git(site, 'log', '--format=%H', '--grep=^Scheduled update').split('\n')[0];
+    check(
+      JSON.stringify(filesOf(scheduled)) === '["src/pages/c.mdx"]' && show(scheduled, 'src/pages/c.mdx').includes('x: "scheduled"'),
+      'the scheduled publish commits only c.mdx',
+      filesOf(scheduled)
+    );
+
+    check(
+      JSON.stringify(filesOf(rollback.commit)) === '["src/pages/d.mdx"]' && authorOf(rollback.commit) === 'Rita',
+      'the rollback commits only d.mdx, as Rita',
+      { files: filesOf(rollback.commit), author: authorOf(rollback.commit) }
+    );
+
+    check(git(site, 'diff', '--cached', '--name-only') === '', 'nothing is left staged');
+    check(
+      git(site, 'status', '--porcelain') === 'M src/pages/a.mdx',
+      'only a.z is left unpublished',
+      git(site, 'status', '--porcelain')
+    );
+  } finally {
+    if (keep) console.log(`\nKept ${dir}`);
+    else await fs.rm(dir, { recursive: true, force: true });
+  }
+
+  console.log(failures === 0 ? '\nAll publish checks passed' : `\n${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch((err) => {
+  console.error('Error:', err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,93 @@
+#!/usr/bin/env tsx
+/**
+ * Microtext Scanner CLI
+ *
+ * Reports microtext ids used by a page but missing from its frontmatter,
+ * frontmatter keys nothing uses, and keys holding the wrong type.
+ *
+ * Usage:
+ *   npm run scan                  Scan every page
+ *   npm run scan -- about         Scan one page
+ *   npm run scan -- --prune       Remove orphaned keys, then report
+ *                                 (pages with missing ids are skipped)
+ *   npm run scan -- --json        Print the full report as JSON
+ *
+ * Exits with 1 when anything is missing or mismatched, so it can run in CI.
+ */
+
+import os from 'os';
+import { readPage, writePage } from '../src/lib/microtext-file';
+import { formatIssues, hasMissing, pruneOrphans, scanPage, scanPages } from '../src/lib/microtext-scan';
+import { recordRevisions } from '../src/lib/revision-log';
+import { DEFAULT_LOCALE } from '../src/lib/locales';
+
+const args = process.argv.slice(2);
+const pageSlug = args.find(arg => !arg.startsWith('--'));
+const prune = args.includes('--prune');
+const json = args.includes('--json');
+
+async function main() {
+  let scans = await scanPages(pageSlug);
+  if (pageSlug && scans.length === 0) {
+    console.error(`Error: Page not found: ${pageSlug}`);
+    process.exit(1);
+  }
+
+  if (prune) {
+    for (const scan of scans) {
+      const page = await readPage(scan.pageSlug, scan.filePath);
+      const current = await scanPage(page);
+      if (hasMissing(current)) {
+        console.log(`⚠️  ${page.slug}: not pruned until its missing ids are fixed`);
+        continue;
+      }
+
+      const removed = pruneOrphans(page, current);
+      if (removed.length === 0) continue;
+
+      await writePage(page);
+      await recordRevisions(
+        page.slug,
+        removed.map(({ id, locale, value }) => ({ fieldId: id, locale, oldValue: value, newValue: undefined })),
+        { author: os.userInfo().username, source: 'prune' }
+      );
+      for (const { id, locale } of removed) {
+        console.log(`🧹 ${page.slug}: removed ${id}${locale !== DEFAULT_LOCALE ? ` [${locale}]` : ''}`);
+      }
+    }
+    scans = await scanPages(pageSlug);
+  }
+
+  const failing = scans.some(scan => scan.issues.some(issue => issue.kind !== 'orphaned'));
+
+  if (json) {
+    console.log(JSON.stringify(scans, null, 2));
+    process.exit(failing ? 1 : 0);
+  }
+
+  for (const scan of scans) {
+    const lines = formatIssues(scan);
+    const untranslated = Object.entries(scan.untranslated)
+      .filter(([, count]) => count > 0)
+      .map(([locale, count]) => `${count} untranslated [${locale}]`);
+
+    console.log(`\n${scan.pageSlug} — ${scan.usages.length} usage(s)${untranslated.length ? `, ${untranslated.join(', ')}` : ''}`);
+    for (const line of lines) console.log(`  ${line}`);
+    for (const { expression, line } of scan.dynamic) {
+      console.log(`  line ${line}: dynamic id {${expression}} not checked; orphans not reported for this page`);
+    }
+    if (lines.length === 0) console.log('  ✅ No issues');
+  }
+
+  const orphaned = scans.reduce((n, scan) => n + scan.issues.filter(i => i.kind === 'orphaned').length, 0);
+  if (orphaned > 0 && !prune) {
+    console.log(`\n${orphaned} orphaned key(s). Run with --prune to remove them.`);
+  }
+
+  process.exit(failing ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error('Error:', err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,167 @@
+#!/usr/bin/env tsx
+/**
+ * User Management CLI
+ *
+ * Usage:
+ *   npm run users -- list
+ *   npm run users -- add <username> --role <reviewer|editor|publisher> [--name "Full Name"] [--email address]
+ *   npm run users -- email <username> <address>
+ *   npm run users -- role <username> <reviewer|editor|publisher>
+ *   npm run users -- passwd <username>
+ *   npm run users -- token <username>
+ *   npm run users -- remove <username>
+ *
+ * Passwords are prompted for, or read from VIBE_PASSWORD for scripting.
+ */
+
+import readline from 'readline/promises';
+import { hashPassword, issueApiToken, readUsers, ROLES, writeUsers, type Role } from '../src/lib/auth';
+
+const args = process.argv.slice(2);
+const [command, username] = args;
+
+function option(name: string): string | undefined {
+  const i = args.indexOf(`--${name}`);
+  return i !== -1 ? args[i + 1] : undefined;
+}
+
+function usage(): never {
+  console.log(`
+Usage: npm run users -- <command> [args]
+
+Commands:
+  list                              Show all users
+  add <username> --role <role>      Create a user (--name "Full Name", --email optional)
+  email <username> <address>        Set the email publishes are authored with
+  role <username> <role>            Change a user's role
+  passwd <username>                 Set a new password
+  token <username>                  Issue an API token (replaces the old one)
+  remove <username>                 Delete a user
+
+Roles: ${ROLES.join(', ')}
+  `);
+  process.exit(1);
+}
+
+function parseEmail(value: string | undefined): string | undefined {
+  if (value !== undefined && !/^[^\s<>@]+@[^\s<>@]+$/.test(value)) {
+    console.error('Error: Not an email address');
+    process.exit(1);
+  }
+  return value;
+}
+
+function parseRole(value: string | undefined): Role {
+  if (!ROLES.includes(value as Role)) {
+    console.error(`Error: Role must be one of: ${ROLES.join(', ')}`);
+    process.exit(1);
+  }
+  return value as Role;
+}
+
+async function promptPassword(): Promise<string> {
+  if (process.env.VIBE_PASSWORD) return process.env.VIBE_PASSWORD;
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const password = await rl.question('Password: ');
+  rl.close();
+
+  if (password.length < 8) {
+    console.error('Error: Password must be at least 8 characters');
+    process.exit(1);
+  }
+  return password;
+}
+
+async function main() {
+  if (!command) usage();
+
+  const users = await readUsers();
+
+  if (command === 'list') {
+    if (users.length === 0) {
+      console.log('No users yet.');
+      return;
+    }
+    for (const user of users) {
+      const email = user.email ? ` <${user.email}>` : '';
+      console.log(`${user.username.padEnd(20)} ${user.role.padEnd(10)} ${user.name}${email}${user.tokenHash ? '  [token]' : ''}`);
+    }
+    return;
+  }
+
+  if (!username) usage();
+  const user = users.find(u => u.username === username);
+
+  switch (command) {
+    case 'add': {
+      if (user) {
+        console.error(`Error: User already exists: ${username}`);
+        process.exit(1);
+      }
+      if (!/^[a-z0-9_-]+$/i.test(username)) {
+        console.error('Error: Usernames may contain letters, numbers, "-" and "_"');
+        process.exit(1);
+      }
+      const role = parseRole(option('role'));
+      const email = parseEmail(option('email'));
+      users.push({
+        username,
+        name: option('name') || username,
+        ...(email && { email }),
+        role,
+        passwordHash: await hashPassword(await promptPassword()),
+      });
+      await writeUsers(users);
+      console.log(`✅ Added ${username} (${role})`);
+      return;
+    }
+
+    case 'token': {
+      if (!user) break;
+      const token = await issueApiToken(username);
+      console.log(`✅ API token for ${username} (shown once):\n\n${token}\n`);
+      console.log('Send it as "Authorization: Bearer <token>", or set VIBE_EDITOR_TOKEN for the MCP server.');
+      return;
+    }
+
+    case 'role':
+      if (!user) break;
+      user.role = parseRole(args[2]);
+      await writeUsers(users);
+      console.log(`✅ ${username} is now ${user.role}`);
+      return;
+
+    case 'email':
+      if (!user) break;
+      if (!args[2]) usage();
+      user.email = parseEmail(args[2]);
+      await writeUsers(users);
+      console.log(`✅ ${username} publishes as ${user.name} <${user.email}>`);
+      return;
+
+    case 'passwd':
+      if (!user) break;
+      user.passwordHash = await hashPassword(await promptPassword());
+      await writeUsers(users);
+      console.log(`✅ Password updated for ${username}`);
+      return;
+
+    case 'remove':
+      if (!user) break;
+      await writeUsers(users.filter(u => u !== user));
+      console.log(`✅ Removed ${username}`);
+      return;
+
+    default:
+      usage();
+  }
+
+  console.error(`Error: Unknown user: ${username}`);
+  process.exit(1);
+}
+
+main().catch((err) => {
+  console.error('Error:', err instanceof Error ? err.message : err);
+  process.exit(1);
+});
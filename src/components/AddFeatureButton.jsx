@@ -3,29 +3,28 @@
  */
 
 import { useState } from 'react'
+import { postArrayAction, refreshAfterAction } from '../lib/array-actions'
 
-export default function AddFeatureButton({ pageSlug, arrayPath }) {
+export default function AddFeatureButton({ pageSlug, arrayPath, baseVersion }) {
   const [adding, setAdding] = useState(false)
 
   const handleAdd = async () => {
     setAdding(true)
     try {
-      const res = await fetch('/api/microtext-array', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          pageSlug,
-          arrayPath,
-          action: 'add',
-          template: { title: 'New Feature', desc: 'Describe this feature' }
-        })
-      })
+      const request = {
+        pageSlug,
+        arrayPath,
+        action: 'add',
+        template: { title: 'New Feature', desc: 'Describe this feature' },
+        baseVersion
+      }
+      const result = await postArrayAction(request)
 
-      if (res.ok) {
-        window.location.reload()
+      if (result.ok || result.conflict) {
+        await refreshAfterAction(request)
+      } else {
+        console.error('Add failed:', result.error)
       }
-    } catch (err) {
-      console.error('Add failed:', err)
     } finally {
       setAdding(false)
     }
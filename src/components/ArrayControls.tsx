@@ -1,50 +1,68 @@
 /**
- * ArrayControls - UI for adding/removing items from microtext arrays
+ * ArrayControls - UI for managing items in microtext arrays
  *
  * Provides:
  * - Add button for arrays (shows at end of array section)
- * - Remove button for individual items
+ * - Remove and duplicate buttons for individual items
+ * - Drag-to-reorder between items, including across arrays on the same page
  *
  * Usage in MDX:
  *   <ArrayControls client:load arrayPath="features" pageSlug="index">
  *     ... array items rendered here ...
  *   </ArrayControls>
+ *
+ * Pass `baseVersion` (the array's version from GET /api/microtext-array) to
+ * have the server reject the change if the list was modified in the meantime.
+ *
+ * Wrap the list in `data-microtext-array="<arrayPath>"` so changes re-render
+ * just that section; without it the page reloads.
  */
 
 import { useState } from 'react'
+import {
+  DRAG_TYPE,
+  dropAction,
+  postArrayAction,
+  readDragPayload,
+  refreshAfterAction,
+  type ArrayActionRequest,
+} from '../lib/array-actions'
+
+// Re-render the list after a change; on conflict, say why first
+async function applyArrayAction(request: ArrayActionRequest, failureMessage: string): Promise<void> {
+  const result = await postArrayAction(request)
+
+  if (result.ok) {
+    await refreshAfterAction(request)
+  } else if (result.conflict) {
+    alert('This list was changed by someone else. Showing the latest version.')
+    await refreshAfterAction(request)
+  } else {
+    alert(result.error || failureMessage)
+  }
+}
 
 interface AddButtonProps {
   pageSlug: string
   arrayPath: string
   template?: Record<string, string>
   label?: string
+  baseVersion?: string
 }
 
-export function AddItemButton({ pageSlug, arrayPath, template, label = 'Add Item' }: AddButtonProps) {
+export function AddItemButton({ pageSlug, arrayPath, template, label = 'Add Item', baseVersion }: AddButtonProps) {
   const [adding, setAdding] = useState(false)
 
   const handleAdd = async () => {
     setAdding(true)
     try {
-      const res = await fetch('/api/microtext-array', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          pageSlug,
-          arrayPath,
-          action: 'add',
-          template: template || { title: 'New Item', desc: 'Add a description' }
-        })
-      })
-
-      if (res.ok) {
-        window.location.reload()
-      } else {
-        const data = await res.json()
-        alert(data.error || 'Failed to add item')
-      }
-    } catch (err) {
-      alert('Network error')
+      await applyArrayAction({
+        pageSlug,
+        arrayPath,
+        action: 'add',
+        template: template || { title: 'New Item', desc: 'Add a description' },
+        baseVersion
+      }, 'Failed to add item')
     } finally {
       setAdding(false)
     }
@@ -66,9 +84,10 @@ interface RemoveButtonProps {
   pageSlug: string
   arrayPath: string
   index: number
+  baseVersion?: string
 }
 
-export function RemoveItemButton({ pageSlug, arrayPath, index }: RemoveButtonProps) {
+export function RemoveItemButton({ pageSlug, arrayPath, index, baseVersion }: RemoveButtonProps) {
   const [removing, setRemoving] = useState(false)
   const [confirming, setConfirming] = useState(false)
 
@@ -82,25 +101,7 @@ export function RemoveItemButton({ pageSlug, arrayPath, index }: RemoveButtonPro
 
     setRemoving(true)
     try {
-      const res = await fetch('/api/microtext-array', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          pageSlug,
-          arrayPath,
-          action: 'remove',
-          index
-        })
-      })
-
-      if (res.ok) {
-        window.location.reload()
-      } else {
-        const data = await res.json()
-        alert(data.error || 'Failed to remove item')
-      }
-    } catch (err) {
-      alert('Network error')
+      await applyArrayAction({ pageSlug, arrayPath, action: 'remove', index, baseVersion }, 'Failed to remove item')
     } finally {
       setRemoving(false)
       setConfirming(false)
@@ -128,20 +129,97 @@ export function RemoveItemButton({ pageSlug, arrayPath, index }: RemoveButtonPro
   )
 }
 
+interface DuplicateButtonProps {
+  pageSlug: string
+  arrayPath: string
+  index: number
+  baseVersion?: string
+}
+
+export function DuplicateItemButton({ pageSlug, arrayPath, index, baseVersion }: DuplicateButtonProps) {
+  const [duplicating, setDuplicating] = useState(false)
+
+  const handleDuplicate = async () => {
+    setDuplicating(true)
+    try {
+      await applyArrayAction({ pageSlug, arrayPath, action: 'duplicate', index, baseVersion }, 'Failed to duplicate item')
+    } finally {
+      setDuplicating(false)
+    }
+  }
+
+  return (
+    <button
+      onClick={handleDuplicate}
+      disabled={duplicating}
+      className="p-1 rounded text-gray-400 hover:text-blue-500 hover:bg-blue-50 transition-colors disabled:opacity-50"
+      title="Duplicate item"
+    >
+      {duplicating ? '...' : '⧉'}
+    </button>
+  )
+}
+
 interface ArrayItemWrapperProps {
   pageSlug: string
   arrayPath: string
   index: number
   children: React.ReactNode
   className?: string
+  baseVersion?: string
 }
 
-export function ArrayItemWrapper({ pageSlug, arrayPath, index, children, className = '' }: ArrayItemWrapperProps) {
+export function ArrayItemWrapper({ pageSlug, arrayPath, index, children, className = '', baseVersion }: ArrayItemWrapperProps) {
+  const [dragOver, setDragOver] = useState(false)
+
+  const handleDragStart = (e: React.DragEvent) => {
+    e.dataTransfer.setData(DRAG_TYPE, JSON.stringify({ pageSlug, arrayPath, index }))
+    e.dataTransfer.effectAllowed = 'move'
+  }
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes(DRAG_TYPE)) return
+    e.preventDefault()
+    setDragOver(true)
+  }
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault()
+    setDragOver(false)
+
+    const source = readDragPayload(e)
+    if (!source) return
+
+    const request = dropAction(source, { pageSlug, arrayPath, index })
+    if (!request) return
+
+    // This item's version guards the array it belongs to: the source for a
+    // move, the target for a transfer
+    await applyArrayAction(
+      request.action === 'move' ? { ...request, baseVersion } : { ...request, toBaseVersion: baseVersion },
+      'Failed to move item'
+    )
+  }
+
   return (
-    <div className={`group relative ${className}`}>
-      {/* Remove button - shows on hover */}
-      <div className="absolute -top-2 -right-2 opacity-0 group-hover:opacity-100 transition-opacity z-10">
-        <RemoveItemButton pageSlug={pageSlug} arrayPath={arrayPath} index={index} />
+    <div
+      className={`group relative ${dragOver ? 'ring-2 ring-blue-400 rounded-lg' : ''} ${className}`}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={handleDrop}
+    >
+      {/* Item controls - show on hover */}
+      <div className="absolute -top-2 -right-2 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity z-10 bg-white rounded shadow-sm">
+        <span
+          draggable
+          onDragStart={handleDragStart}
+          className="p-1 text-gray-400 hover:text-gray-600 cursor-grab active:cursor-grabbing"
+          title="Drag to reorder"
+        >
+          ⠿
+        </span>
+        <DuplicateItemButton pageSlug={pageSlug} arrayPath={arrayPath} index={index} baseVersion={baseVersion} />
+        <RemoveItemButton pageSlug={pageSlug} arrayPath={arrayPath} index={index} baseVersion={baseVersion} />
       </div>
       {children}
     </div>
@@ -0,0 +1,275 @@
+/**
+ * DraftReview - Drawer listing a page's pending drafts
+ *
+ * Opened from SyncButton. Each draft shows a word-level diff against the
+ * field's current server value (fetched when the drawer opens and after each
+ * sync), with actions to jump to the field, edit it or discard the draft.
+ * Drafts are all selected to begin with; the footer syncs the selection,
+ * shares it as a preview link, or (for publishers) schedules it to be
+ * published at a later time.
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  clearDraft,
+  fetchServerFields,
+  getPageDrafts,
+  type PendingEdits,
+  type ServerField,
+} from '../lib/microtext-store'
+import { diffWords } from '../lib/text-merge'
+
+interface Props {
+  /** Draft scope (see draftScope) */
+  pageSlug: string
+  syncing: boolean
+  onSync: (ids: string[]) => void
+  /** Share as a read-only preview link (see lib/draft-sets.ts) */
+  onShare: (ids: string[]) => void
+  /** Omit for users who can't publish: no scheduling */
+  onSchedule?: (ids: string[], publishAt: Date) => void
+  onClose: () => void
+}
+
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp)
+  return date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+}
+
+// The element showing a draft: the field itself, or the link a part belongs to
+function findElement(id: string): HTMLElement | null {
+  const field = document.querySelector(`[data-microtext="${id}"]`) as HTMLElement | null
+  if (field) return field
+  const dot = id.lastIndexOf('.')
+  return dot < 0 ? null : document.querySelector(`[data-microtext-link="${id.slice(0, dot)}"]`) as HTMLElement | null
+}
+
+// Value for a datetime-local input, in local time
+function toInputValue(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000)
+  return local.toISOString().slice(0, 16)
+}
+
+function Diff({ before, after }: { before: string; after: string }) {
+  return (
+    <div className="text-sm text-gray-800 whitespace-pre-wrap break-words">
+      {diffWords(before, after).map((part, i) =>
+        part.type === 'added' ? (
+          <ins key={i} className="bg-green-100 text-green-800 no-underline">{part.text}</ins>
+        ) : part.type === 'removed' ? (
+          <del key={i} className="bg-red-100 text-red-700">{part.text}</del>
+        ) : (
+          <span key={i}>{part.text}</span>
+        )
+      )}
+    </div>
+  )
+}
+
+export default function DraftReview({ pageSlug, syncing, onSync, onShare, onSchedule, onClose }: Props) {
+  const [drafts, setDrafts] = useState<PendingEdits>(() => getPageDrafts(pageSlug))
+  const [server, setServer] = useState<Record<string, ServerField> | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  // Tracked as the unselected ones, so new drafts start selected
+  const [unselected, setUnselected] = useState<Set<string>>(new Set())
+  // Publish time being picked, while scheduling
+  const [publishAt, setPublishAt] = useState<string | null>(null)
+
+  const refreshServer = useCallback(async () => {
+    const ids = Object.keys(getPageDrafts(pageSlug))
+    if (ids.length === 0) return
+    try {
+      setServer(await fetchServerFields(pageSlug, ids))
+      setError(null)
+    } catch (err) {
+      setError('Could not load the server values')
+    }
+  }, [pageSlug])
+
+  useEffect(() => {
+    refreshServer()
+
+    const handleDraftsChanged = () => setDrafts(getPageDrafts(pageSlug))
+    // A new draft may be for a field not fetched yet; saves move the server on
+    const handleRefresh = () => {
+      handleDraftsChanged()
+      refreshServer()
+    }
+    window.addEventListener('microtext-draft-saved', handleRefresh)
+    window.addEventListener('microtext-draft-cleared', handleDraftsChanged)
+    window.addEventListener('microtext-saved', handleRefresh)
+    return () => {
+      window.removeEventListener('microtext-draft-saved', handleRefresh)
+      window.removeEventListener('microtext-draft-cleared', handleDraftsChanged)
+      window.removeEventListener('microtext-saved', handleRefresh)
+    }
+  }, [pageSlug, refreshServer])
+
+  const ids = Object.keys(drafts).sort((a, b) => drafts[b].timestamp - drafts[a].timestamp)
+  const selected = ids.filter(id => !unselected.has(id))
+
+  const toggle = (id: string) => {
+    setUnselected((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const toggleAll = () => {
+    setUnselected(selected.length === ids.length ? new Set(ids) : new Set())
+  }
+
+  const jumpTo = (id: string) => {
+    const el = findElement(id)
+    if (!el) return
+    el.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    el.classList.remove('live-updated')
+    void el.offsetWidth
+    el.classList.add('live-updated')
+  }
+
+  // Open the field in the editor (which listens for clicks on fields)
+  const edit = (id: string) => {
+    const el = findElement(id)
+    if (!el) return
+    onClose()
+    el.scrollIntoView({ block: 'center' })
+    setTimeout(() => el.click(), 50)
+  }
+
+  const discard = (id: string) => {
+    if (!window.confirm(`Discard your draft of "${id}"?`)) return
+    clearDraft(pageSlug, id)
+  }
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/20 z-40" onClick={onClose} />
+
+      <aside className="fixed top-0 right-0 bottom-0 z-50 w-full max-w-md bg-white shadow-2xl flex flex-col">
+        <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-gray-800">
+            {ids.length} pending draft{ids.length !== 1 ? 's' : ''}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700 text-lg leading-none" title="Close">
+            ×
+          </button>
+        </div>
+
+        {error && (
+          <div className="px-4 py-2 bg-red-50 text-red-600 text-xs border-b border-red-100">{error}</div>
+        )}
+
+        <ul className="flex-1 overflow-y-auto divide-y divide-gray-100">
+          {ids.map((id) => {
+            const draft = drafts[id]
+            const field = server?.[id]
+            const onPage = !!findElement(id)
+            const isNew = field && field.value === null
+            const stale = field && draft.baseVersion && field.version !== draft.baseVersion
+
+            return (
+              <li key={id} className="px-4 py-3">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={!unselected.has(id)}
+                    onChange={() => toggle(id)}
+                    aria-label={`Sync ${id}`}
+                  />
+                  <code className="bg-gray-100 px-1.5 py-0.5 rounded text-xs text-gray-700 truncate">{id}</code>
+                  {isNew && <span className="text-xs text-blue-600">new</span>}
+                  {stale && <span className="text-xs text-red-600" title="Resolve it in the editor before syncing">changed on server</span>}
+                  <span className="ml-auto text-xs text-gray-400 whitespace-nowrap">{formatTime(draft.timestamp)}</span>
+                </div>
+
+                <div className="mt-2 pl-6">
+                  {field ? (
+                    <Diff before={field.value === null ? '' : String(field.value)} after={draft.value} />
+                  ) : (
+                    <div className="text-sm text-gray-800 whitespace-pre-wrap break-words">{draft.value}</div>
+                  )}
+                </div>
+
+                <div className="mt-2 pl-6 flex gap-3 text-xs">
+                  <button onClick={() => jumpTo(id)} disabled={!onPage} className="text-blue-600 hover:underline disabled:text-gray-300 disabled:no-underline">
+                    Show
+                  </button>
+                  <button onClick={() => edit(id)} disabled={!onPage} className="text-blue-600 hover:underline disabled:text-gray-300 disabled:no-underline">
+                    Edit
+                  </button>
+                  <button onClick={() => discard(id)} className="text-red-600 hover:underline">
+                    Discard
+                  </button>
+                  {!onPage && <span className="text-gray-400">Not on this page anymore</span>}
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+
+        {onSchedule && publishAt !== null && (
+          <div className="px-4 py-3 border-t border-gray-200 bg-blue-50 flex items-center gap-2">
+            <label className="text-xs text-gray-600" htmlFor="draft-publish-at">Publish at</label>
+            <input
+              id="draft-publish-at"
+              type="datetime-local"
+              value={publishAt}
+              min={toInputValue(new Date())}
+              onChange={e => setPublishAt(e.target.value)}
+              className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+            <button
+              onClick={() => onSchedule(selected, new Date(publishAt))}
+              disabled={syncing || selected.length === 0 || !publishAt || new Date(publishAt).getTime() <= Date.now()}
+              className="px-3 py-1.5 bg-blue-600 text-white rounded text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              Schedule {selected.length}
+            </button>
+            <button onClick={() => setPublishAt(null)} className="text-xs text-gray-500 hover:text-gray-800">
+              Cancel
+            </button>
+          </div>
+        )}
+
+        <div className="px-4 py-3 border-t border-gray-200 bg-gray-50 flex items-center gap-3">
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={ids.length > 0 && selected.length === ids.length}
+              onChange={toggleAll}
+            />
+            All
+          </label>
+          <button
+            onClick={() => onShare(selected)}
+            disabled={syncing || selected.length === 0}
+            className="ml-auto text-sm text-indigo-600 hover:underline disabled:text-gray-300 disabled:no-underline"
+            title="Get a link that shows the selected drafts to anyone, without saving them"
+          >
+            Share preview
+          </button>
+          {onSchedule && publishAt === null && (
+            <button
+              onClick={() => setPublishAt(toInputValue(new Date(Date.now() + 60 * 60 * 1000)))}
+              disabled={syncing || selected.length === 0}
+              className="text-sm text-blue-600 hover:underline disabled:text-gray-300 disabled:no-underline"
+              title="Publish the selected drafts at a later time"
+            >
+              Schedule...
+            </button>
+          )}
+          <button
+            onClick={() => onSync(selected)}
+            disabled={syncing || selected.length === 0}
+            className="px-4 py-1.5 bg-yellow-500 text-white rounded text-sm font-medium hover:bg-yellow-600 disabled:opacity-50"
+          >
+            {syncing ? 'Syncing...' : `Sync ${selected.length} selected`}
+          </button>
+        </div>
+      </aside>
+    </>
+  )
+}
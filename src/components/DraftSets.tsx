@@ -0,0 +1,198 @@
+/**
+ * DraftSets - Manage shared draft sets and their preview links
+ *
+ * Lists /api/draft-sets: each set's values and preview links, with when
+ * each link expires. Editors can make a new link (its URL is shown once),
+ * revoke a link, rename or delete a set; reviewers can only look.
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import type { DraftSet, PreviewLink } from '../lib/draft-sets'
+import { DEFAULT_LOCALE } from '../lib/locales'
+
+interface Props {
+  /** Reviewers can see sets but not change them */
+  canEdit: boolean
+}
+
+interface Status {
+  success: boolean
+  message: string
+}
+
+/** Link lifetimes offered, in days */
+const LINK_DAYS = [1, 7, 30]
+
+function formatTime(timestamp: string): string {
+  const date = new Date(timestamp)
+  return date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+}
+
+function linkState(link: PreviewLink): { label: string; active: boolean } {
+  if (link.revokedAt) return { label: `revoked ${formatTime(link.revokedAt)}`, active: false }
+  if (Date.parse(link.expiresAt) <= Date.now()) return { label: `expired ${formatTime(link.expiresAt)}`, active: false }
+  return { label: `until ${formatTime(link.expiresAt)}`, active: true }
+}
+
+export default function DraftSets({ canEdit }: Props) {
+  const [sets, setSets] = useState<DraftSet[] | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState<Status | null>(null)
+  // New link's URL, by set id; shown once
+  const [shared, setShared] = useState<Record<string, string>>({})
+  const [days, setDays] = useState(7)
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch('/api/draft-sets')
+      const data = await response.json()
+      if (response.ok) setSets(data.draftSets)
+      else setStatus({ success: false, message: data.error || 'Could not load draft sets' })
+    } catch {
+      setStatus({ success: false, message: 'Network error - could not load draft sets' })
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const update = async (body: Record<string, unknown>) => {
+    setBusy(true)
+    setStatus(null)
+    try {
+      const response = await fetch('/api/draft-sets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setStatus({ success: false, message: data.error || 'Update failed' })
+        return null
+      }
+      await load()
+      return data
+    } catch {
+      setStatus({ success: false, message: 'Network error' })
+      return null
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const share = async (set: DraftSet) => {
+    const data = await update({ action: 'share', id: set.id, expiresInDays: days })
+    if (!data) return
+    setShared(prev => ({ ...prev, [set.id]: data.url }))
+    const copied = await navigator.clipboard?.writeText(data.url).then(() => true, () => false)
+    if (copied) setStatus({ success: true, message: 'Preview link copied' })
+  }
+
+  const revoke = async (set: DraftSet, link: PreviewLink) => {
+    if (!confirm('Revoke this link? Anyone using it loses access at once.')) return
+    const data = await update({ action: 'revoke', id: set.id, linkId: link.id })
+    if (data) setStatus({ success: true, message: 'Link revoked' })
+  }
+
+  const rename = async (set: DraftSet) => {
+    const name = prompt('Rename preview', set.name)
+    if (!name || name === set.name) return
+    await update({ action: 'update', id: set.id, name })
+  }
+
+  const remove = async (set: DraftSet) => {
+    if (!confirm(`Delete "${set.name}"? Its links stop working.`)) return
+    const data = await update({ action: 'delete', id: set.id })
+    if (data) setStatus({ success: true, message: `Deleted "${set.name}"` })
+  }
+
+  return (
+    <div className="space-y-6">
+      {canEdit && (
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          New links last
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="px-2 py-1 border border-gray-300 rounded-lg bg-white"
+          >
+            {LINK_DAYS.map(d => <option key={d} value={d}>{d} day{d !== 1 ? 's' : ''}</option>)}
+          </select>
+          <span className="text-gray-400">Drafts are shared from their Review while editing.</span>
+        </div>
+      )}
+
+      {status && (
+        <div className={`px-4 py-2 rounded-lg text-sm ${status.success ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+          {status.message}
+        </div>
+      )}
+
+      {!sets && !status && <p className="text-sm text-gray-400">Loading...</p>}
+      {sets?.length === 0 && <p className="text-sm text-gray-500">No draft sets shared yet.</p>}
+
+      {sets?.map(set => (
+        <section key={set.id} className="bg-white border border-gray-200 rounded-xl shadow-sm">
+          <header className="px-4 py-3 border-b border-gray-100 flex items-center gap-3">
+            <div className="flex-1 min-w-0">
+              <h2 className="text-sm font-semibold text-gray-800 truncate">{set.name}</h2>
+              <div className="text-xs text-gray-400">
+                {set.createdBy} · {formatTime(set.updatedAt)} · {set.changes.length} change{set.changes.length !== 1 ? 's' : ''}
+              </div>
+            </div>
+            {canEdit && (
+              <div className="flex gap-3 text-sm whitespace-nowrap">
+                <button onClick={() => share(set)} disabled={busy} className="text-indigo-600 hover:underline disabled:text-gray-300">
+                  New link
+                </button>
+                <button onClick={() => rename(set)} disabled={busy} className="text-gray-600 hover:underline disabled:text-gray-300">
+                  Rename
+                </button>
+                <button onClick={() => remove(set)} disabled={busy} className="text-red-600 hover:underline disabled:text-gray-300">
+                  Delete
+                </button>
+              </div>
+            )}
+          </header>
+
+          {shared[set.id] && (
+            <div className="px-4 py-2 bg-indigo-50 text-xs text-indigo-800 break-all">
+              New link (shown once): <a href={shared[set.id]} target="_blank" className="underline">{shared[set.id]}</a>
+            </div>
+          )}
+
+          <ul className="px-4 py-2 space-y-1">
+            {set.changes.map(change => (
+              <li key={`${change.pageSlug}|${change.locale}|${change.id}`} className="text-sm text-gray-700 truncate">
+                <span className="text-gray-400">{change.pageSlug}</span>
+                {change.locale !== DEFAULT_LOCALE && <span className="ml-1 text-xs uppercase text-gray-400">{change.locale}</span>}
+                {' · '}
+                <code className="bg-gray-100 px-1 rounded text-xs">{change.id}</code>: {change.value}
+              </li>
+            ))}
+          </ul>
+
+          {set.links.length > 0 && (
+            <ul className="px-4 py-2 border-t border-gray-100 space-y-1">
+              {set.links.map((link) => {
+                const state = linkState(link)
+                return (
+                  <li key={link.id} className="flex items-center gap-2 text-xs">
+                    <code className={state.active ? 'text-gray-700' : 'text-gray-400 line-through'}>{link.id}</code>
+                    <span className="text-gray-400">by {link.createdBy}, {state.label}</span>
+                    {canEdit && state.active && (
+                      <button onClick={() => revoke(set, link)} disabled={busy} className="ml-auto text-red-600 hover:underline disabled:text-gray-300">
+                        Revoke
+                      </button>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </section>
+      ))}
+    </div>
+  )
+}
@@ -1,12 +1,25 @@
 /**
- * FeatureCard - Wrapper for feature items with remove button
+ * FeatureCard - Wrapper for feature items with remove, duplicate and drag-to-reorder
  */
 
 import { useState } from 'react'
+import { DRAG_TYPE, dropAction, postArrayAction, readDragPayload, refreshAfterAction } from '../lib/array-actions'
 
-export default function FeatureCard({ pageSlug, arrayPath, index, icon, colorClass, children }) {
+export default function FeatureCard({ pageSlug, arrayPath, index, icon, colorClass, baseVersion, children }) {
   const [removing, setRemoving] = useState(false)
+  const [duplicating, setDuplicating] = useState(false)
   const [confirming, setConfirming] = useState(false)
+  const [dragOver, setDragOver] = useState(false)
+
+  // A 409 means the list changed underneath us - re-render to get fresh indexes
+  const apply = async (request) => {
+    const result = await postArrayAction(request)
+    if (result.ok || result.conflict) {
+      await refreshAfterAction(request)
+    } else {
+      console.error('Array action failed:', result.error)
+    }
+  }
 
   const handleRemove = async () => {
     if (!confirming) {
@@ -17,42 +30,81 @@ export default function FeatureCard({ pageSlug, arrayPath, index, icon, colorCla
 
     setRemoving(true)
     try {
-      const res = await fetch('/api/microtext-array', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          pageSlug,
-          arrayPath,
-          action: 'remove',
-          index
-        })
-      })
-
-      if (res.ok) {
-        window.location.reload()
-      }
-    } catch (err) {
-      console.error('Remove failed:', err)
+      await apply({ pageSlug, arrayPath, action: 'remove', index, baseVersion })
     } finally {
       setRemoving(false)
       setConfirming(false)
     }
   }
 
+  const handleDuplicate = async () => {
+    setDuplicating(true)
+    try {
+      await apply({ pageSlug, arrayPath, action: 'duplicate', index, baseVersion })
+    } finally {
+      setDuplicating(false)
+    }
+  }
+
+  const handleDragStart = (e) => {
+    e.dataTransfer.setData(DRAG_TYPE, JSON.stringify({ pageSlug, arrayPath, index }))
+    e.dataTransfer.effectAllowed = 'move'
+  }
+
+  const handleDragOver = (e) => {
+    if (!e.dataTransfer.types.includes(DRAG_TYPE)) return
+    e.preventDefault()
+    setDragOver(true)
+  }
+
+  const handleDrop = async (e) => {
+    e.preventDefault()
+    setDragOver(false)
+
+    const source = readDragPayload(e)
+    const request = source && dropAction(source, { pageSlug, arrayPath, index })
+    if (!request) return
+
+    await apply(request.action === 'move' ? { ...request, baseVersion } : { ...request, toBaseVersion: baseVersion })
+  }
+
   return (
-    <div className="group relative p-6 rounded-xl bg-gray-50 hover:bg-gray-100 transition-colors">
-      <button
-        onClick={handleRemove}
-        disabled={removing}
-        className={`absolute -top-2 -right-2 w-6 h-6 rounded-full flex items-center justify-center text-sm opacity-0 group-hover:opacity-100 transition-all z-10 ${
-          confirming
-            ? 'bg-red-500 text-white'
-            : 'bg-white border border-gray-300 text-gray-400 hover:text-red-500 hover:border-red-300'
-        }`}
-        title={confirming ? 'Click again to confirm' : 'Remove feature'}
-      >
-        {removing ? '...' : confirming ? '✓' : '×'}
-      </button>
+    <div
+      className={`group relative p-6 rounded-xl bg-gray-50 hover:bg-gray-100 transition-colors ${dragOver ? 'ring-2 ring-blue-400' : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={handleDrop}
+    >
+      <div className="absolute -top-2 -right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-all z-10">
+        <span
+          draggable
+          onDragStart={handleDragStart}
+          className="w-6 h-6 rounded-full flex items-center justify-center text-sm bg-white border border-gray-300 text-gray-400 hover:text-gray-600 cursor-grab active:cursor-grabbing"
+          title="Drag to reorder"
+        >
+          ⠿
+        </span>
+        <button
+          onClick={handleDuplicate}
+          disabled={duplicating}
+          className="w-6 h-6 rounded-full flex items-center justify-center text-sm bg-white border border-gray-300 text-gray-400 hover:text-blue-500 hover:border-blue-300"
+          title="Duplicate feature"
+        >
+          {duplicating ? '...' : '⧉'}
+        </button>
+        <button
+          onClick={handleRemove}
+          disabled={removing}
+          className={`w-6 h-6 rounded-full flex items-center justify-center text-sm ${
+            confirming
+              ? 'bg-red-500 text-white'
+              : 'bg-white border border-gray-300 text-gray-400 hover:text-red-500 hover:border-red-300'
+          }`}
+          title={confirming ? 'Click again to confirm' : 'Remove feature'}
+        >
+          {removing ? '...' : confirming ? '✓' : '×'}
+        </button>
+      </div>
 
       <div className={`w-12 h-12 ${colorClass} rounded-lg flex items-center justify-center text-2xl mb-4`}>
         {icon}
@@ -0,0 +1,410 @@
+/**
+ * ImageEditor - React island for image fields (MicroImage)
+ *
+ * Clicking a [data-microtext-image] element in edit mode opens a popover to
+ * replace the image (uploaded through /api/microtext-upload), edit its alt
+ * text and pick the focal point that cropping keeps in view.
+ *
+ * Unlike text, images aren't kept as local drafts: the upload is on the
+ * server already, so saving writes the field through /api/microtext right
+ * away, with the version the page showed for conflict detection.
+ *
+ * On a translated page (/es/...) the image, alt text included, is saved to
+ * that locale.
+ *
+ * Reviewers get the popover read-only.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import {
+  describeConstraints,
+  getFieldSchema,
+  getMaxLength,
+  isDecorative,
+  isImageValue,
+  validateValue,
+  type ImageValue,
+  type MicrotextSchema,
+} from '../lib/microtext-schema'
+import { SECTIONS_UPDATED_EVENT } from '../lib/array-actions'
+import { DEFAULT_LOCALE, LOCALE_NAMES } from '../lib/locales'
+
+interface Props {
+  pageSlug: string
+  /** Locale being edited */
+  locale?: string
+  schema?: MicrotextSchema | null
+  /** Reviewers can inspect images but not change them */
+  readOnly?: boolean
+}
+
+const ACCEPT = 'image/jpeg,image/png,image/webp,image/gif,image/avif'
+
+function readValue(el: HTMLElement): ImageValue {
+  try {
+    const value = JSON.parse(el.dataset.microtextRaw || 'null')
+    if (isImageValue(value)) return value
+  } catch {
+    // Missing or malformed: start empty
+  }
+  return { src: '', alt: '' }
+}
+
+/**
+ * Show a saved value in the page. A "[missing image]" placeholder is swapped
+ * for an <img>; returns the element now on the page.
+ */
+function renderImage(el: HTMLElement, value: ImageValue, version: string): HTMLElement {
+  let img = el
+  if (!(el instanceof HTMLImageElement)) {
+    img = document.createElement('img')
+    img.className = el.className
+    img.dataset.microtextImage = el.dataset.microtextImage
+    el.replaceWith(img)
+  }
+
+  const image = img as HTMLImageElement
+  const srcset = value.variants?.length
+    ? [...value.variants.map(v => `${v.src} ${v.width}w`), ...(value.width ? [`${value.src} ${value.width}w`] : [])].join(', ')
+    : ''
+  // srcset first, so the browser doesn't briefly fetch an old variant
+  if (srcset) image.srcset = srcset
+  else image.removeAttribute('srcset')
+  image.src = value.src
+  image.alt = value.alt
+  if (value.width && value.height) {
+    image.width = value.width
+    image.height = value.height
+  }
+  image.style.objectPosition = value.focal
+    ? `${Math.round(value.focal.x * 100)}% ${Math.round(value.focal.y * 100)}%`
+    : ''
+
+  image.dataset.microtextRaw = JSON.stringify(value)
+  image.dataset.microtextVersion = version
+  delete image.dataset.microtextUntranslated
+  image.removeAttribute('lang')
+  return image
+}
+
+export default function ImageEditor({ pageSlug, locale = DEFAULT_LOCALE, schema, readOnly = false }: Props) {
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const [value, setValue] = useState<ImageValue>({ src: '', alt: '' })
+  const [position, setPosition] = useState({ top: 0, left: 0 })
+  const [uploading, setUploading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [sectionsVersion, setSectionsVersion] = useState(0)
+  const activeElementRef = useRef<HTMLElement | null>(null)
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+
+  const close = useCallback(() => {
+    setActiveId(null)
+    setError(null)
+    activeElementRef.current = null
+  }, [])
+
+  const openEditor = useCallback((el: HTMLElement) => {
+    const rect = el.getBoundingClientRect()
+    activeElementRef.current = el
+    setActiveId(el.dataset.microtextImage!)
+    setValue(readValue(el))
+    setError(null)
+    setPosition({
+      top: rect.top + window.scrollY + Math.min(rect.height, 240) + 8,
+      left: rect.left + window.scrollX,
+    })
+  }, [])
+
+  // Lists re-rendered in place bring new [data-microtext-image] nodes to bind
+  useEffect(() => {
+    const handleSectionsUpdated = () => setSectionsVersion((v) => v + 1)
+    window.addEventListener(SECTIONS_UPDATED_EVENT, handleSectionsUpdated)
+    return () => window.removeEventListener(SECTIONS_UPDATED_EVENT, handleSectionsUpdated)
+  }, [])
+
+  // Set up click handlers
+  useEffect(() => {
+    const handleClick = (e: MouseEvent) => {
+      if (activeId) return
+
+      const el = (e.target as HTMLElement).closest('[data-microtext-image]') as HTMLElement
+      if (el) {
+        e.preventDefault()
+        e.stopPropagation()
+        openEditor(el)
+      }
+    }
+
+    const elements = document.querySelectorAll('[data-microtext-image]')
+    elements.forEach((el) => {
+      const htmlEl = el as HTMLElement
+      htmlEl.style.cursor = 'pointer'
+
+      const handleEnter = () => {
+        if (!activeId) {
+          htmlEl.style.outline = '2px dashed #3b82f6'
+          htmlEl.style.outlineOffset = '2px'
+        }
+      }
+      const handleLeave = () => {
+        htmlEl.style.outline = ''
+      }
+
+      htmlEl.addEventListener('mouseenter', handleEnter)
+      htmlEl.addEventListener('mouseleave', handleLeave)
+      ;(htmlEl as any)._vibeImageHandlers = { handleEnter, handleLeave }
+    })
+
+    document.addEventListener('click', handleClick)
+
+    return () => {
+      document.removeEventListener('click', handleClick)
+      elements.forEach((el) => {
+        const htmlEl = el as HTMLElement
+        const handlers = (htmlEl as any)._vibeImageHandlers
+        if (handlers) {
+          htmlEl.removeEventListener('mouseenter', handlers.handleEnter)
+          htmlEl.removeEventListener('mouseleave', handlers.handleLeave)
+          htmlEl.style.cursor = ''
+          htmlEl.style.outline = ''
+        }
+      })
+    }
+  }, [activeId, openEditor, sectionsVersion])
+
+  const upload = async (file: File) => {
+    setUploading(true)
+    setError(null)
+
+    try {
+      const form = new FormData()
+      form.append('file', file)
+      const response = await fetch('/api/microtext-upload', { method: 'POST', body: form })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || 'Upload failed')
+        return
+      }
+
+      // A new picture gets a new focal point; the alt text is kept to be reviewed
+      setValue(prev => ({ alt: prev.alt, ...data }))
+    } catch {
+      setError('Network error - could not upload')
+    } finally {
+      setUploading(false)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
+  // Click on the preview to move the focal point there
+  const setFocal = (e: React.MouseEvent<HTMLElement>) => {
+    if (readOnly) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    const fraction = (n: number) => Math.round(Math.min(Math.max(n, 0), 1) * 100) / 100
+    setValue(prev => ({
+      ...prev,
+      focal: { x: fraction((e.clientX - rect.left) / rect.width), y: fraction((e.clientY - rect.top) / rect.height) },
+    }))
+  }
+
+  const save = async () => {
+    const el = activeElementRef.current
+    if (!activeId || !el || readOnly) return
+
+    const next: ImageValue = { ...value, alt: value.alt.trim() }
+    if (!next.src) {
+      setError('Upload an image first')
+      return
+    }
+
+    // Same rules the server enforces
+    const violations = validateValue(schema, activeId, next)
+    if (violations.length > 0) {
+      setError(violations.map(v => v.message).join('. '))
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/microtext', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          pageSlug,
+          id: activeId,
+          value: next,
+          baseVersion: el.dataset.microtextVersion,
+          locale,
+        }),
+      })
+      const data = await response.json()
+
+      if (response.status === 409) {
+        setError('This image was changed by someone else. Reload the page to see the latest version.')
+        return
+      }
+      if (!response.ok) {
+        setError(data.violations?.map((v: { message: string }) => v.message).join('. ') || data.error || 'Save failed')
+        return
+      }
+
+      renderImage(el, next, data.updated.version)
+      close()
+    } catch {
+      setError('Network error - could not save')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault()
+      save()
+    }
+    if (e.key === 'Escape') {
+      e.preventDefault()
+      close()
+    }
+  }
+
+  if (!activeId) return null
+
+  const fieldSchema = getFieldSchema(schema, activeId)
+  const constraints = describeConstraints(fieldSchema)
+  const maxLength = getMaxLength(fieldSchema)
+  const untranslated = !!activeElementRef.current?.dataset.microtextUntranslated
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 bg-black/20 z-40 backdrop-blur-[1px]"
+        onClick={close}
+      />
+
+      <div
+        className="absolute z-50 bg-white border border-gray-200 rounded-lg shadow-2xl overflow-hidden w-80"
+        style={{ top: position.top, left: position.left }}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="px-3 py-2 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+          <span className="text-xs text-gray-500">
+            {readOnly ? 'Viewing' : 'Editing'}: <code className="bg-gray-200 px-1.5 py-0.5 rounded text-gray-700">{activeId}</code>
+            {locale !== DEFAULT_LOCALE && <span className="ml-1 uppercase">{locale}</span>}
+          </span>
+          {!readOnly && <span className="text-xs text-gray-400">⌘↵ to save</span>}
+        </div>
+
+        {untranslated && (
+          <div className="px-3 py-1.5 bg-orange-50 border-b border-orange-100 text-xs text-orange-700">
+            Not translated yet — showing the {LOCALE_NAMES[DEFAULT_LOCALE]} image. Saving adds the {LOCALE_NAMES[locale] || locale} version.
+          </div>
+        )}
+
+        {constraints.length > 0 && (
+          <div className="px-3 py-1.5 bg-gray-50 border-b border-gray-200 text-xs text-gray-500 flex justify-between gap-2">
+            <span>{constraints.join(' · ')}</span>
+            {maxLength !== undefined && (
+              <span className={value.alt.length > maxLength ? 'text-red-600 font-medium' : ''}>
+                {value.alt.length}/{maxLength}
+              </span>
+            )}
+          </div>
+        )}
+
+        <div className="p-3 space-y-3">
+          {value.src ? (
+            <div
+              className={`relative bg-gray-100 rounded overflow-hidden ${readOnly ? '' : 'cursor-crosshair'}`}
+              onClick={setFocal}
+              title={readOnly ? undefined : 'Click to set the focal point'}
+            >
+              <img src={value.src} alt="" className="block w-full max-h-48 object-contain" />
+              {value.focal && (
+                <span
+                  className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-white bg-blue-500/70 shadow pointer-events-none"
+                  style={{ left: `${value.focal.x * 100}%`, top: `${value.focal.y * 100}%` }}
+                />
+              )}
+            </div>
+          ) : (
+            <div className="h-24 bg-gray-100 rounded flex items-center justify-center text-sm text-gray-400">
+              No image
+            </div>
+          )}
+
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>
+              {value.width && value.height ? `${value.width} × ${value.height}` : ''}
+              {value.focal && ` · focus ${Math.round(value.focal.x * 100)}%, ${Math.round(value.focal.y * 100)}%`}
+            </span>
+            {!readOnly && value.focal && (
+              <button onClick={() => setValue(({ focal: _, ...rest }) => rest)} className="hover:text-gray-700">
+                Reset focus
+              </button>
+            )}
+          </div>
+
+          {!readOnly && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={ACCEPT}
+                className="hidden"
+                onChange={(e) => e.target.files?.[0] && upload(e.target.files[0])}
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={uploading}
+                className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+              >
+                {uploading ? 'Uploading...' : value.src ? 'Replace image…' : 'Upload image…'}
+              </button>
+            </>
+          )}
+
+          <label className="block text-xs text-gray-500">
+            Alt text{isDecorative(fieldSchema) ? ' (optional for decorative images)' : ''}
+            <textarea
+              value={value.alt}
+              onChange={(e) => setValue(prev => ({ ...prev, alt: e.target.value.replace(/[\r\n]+/g, ' ') }))}
+              readOnly={readOnly}
+              rows={2}
+              placeholder="Describe the image for people who can't see it"
+              className="mt-1 block w-full px-2 py-1.5 text-sm text-gray-900 border border-gray-300 rounded focus:outline-none focus:border-blue-500"
+            />
+          </label>
+        </div>
+
+        {error && (
+          <div className="px-3 py-2 bg-red-50 text-red-600 text-sm border-t border-red-100">
+            {error}
+          </div>
+        )}
+
+        <div className="flex gap-2 p-2 bg-gray-50 border-t border-gray-200">
+          {!readOnly && (
+            <button
+              onClick={save}
+              disabled={saving || uploading}
+              className="flex-1 px-3 py-1.5 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 font-medium disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          )}
+          <button
+            onClick={close}
+            className={`px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded ${readOnly ? 'flex-1' : ''}`}
+          >
+            {readOnly ? 'Close' : 'Cancel'}
+          </button>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -1,30 +1,189 @@
 /**
  * MicrotextEditor - React island for inline text editing
  *
- * Saves to localStorage first (instant), then can sync to server.
- * Updates DOM immediately without page reload.
+ * Saves drafts in the browser first (instant), then can sync to server.
+ * Updates DOM immediately without page reload. Drafts saved in another tab
+ * show up here too (lib/microtext-store).
+ *
+ * Drafts remember the server version and value they were based on. When the
+ * server value moves on (checked on load and when the tab is revisited, or
+ * reported by a sync), the field is flagged and the popover offers to keep
+ * the draft, take the server value or merge the two.
+ *
+ * The popover also shows the field's revision history with one-click restore,
+ * and the field's schema constraints, which are checked before saving a draft.
+ *
+ * Reviewers get the same popover read-only: values and history, no saving.
+ *
+ * Other editors on the page show up live (lib/live-updates): fields they're
+ * editing carry their name, and values they save are patched into the page -
+ * or flagged as a conflict when this tab has a draft for the same field.
+ *
+ * Markdown fields open as formatted text (bold, italic, links, with a small
+ * toolbar) and are serialized back to markdown on save. Saving without
+ * changes keeps the stored value byte-for-byte. Block fields
+ * (markdown="block") open in a second editor that also allows paragraphs
+ * and lists.
+ *
+ * On a translated page (/es/...) edits go to that locale. Fields without a
+ * translation show the default locale's text and are counted in the pill,
+ * which also switches between locales.
+ *
+ * Links (MicroLink) open with their label in the editor and the URL, new-tab
+ * setting and rel below it, with a picker for the site's pages. Each changed
+ * part is its own draft ("cta.href"), so labels and URLs sync and conflict
+ * separately.
  */
 
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { useEditor, EditorContent } from '@tiptap/react'
 import StarterKit from '@tiptap/starter-kit'
 import Placeholder from '@tiptap/extension-placeholder'
-import { marked } from 'marked'
-import { saveDraft, getDraft, getPageDrafts } from '../lib/microtext-store'
+import Link from '@tiptap/extension-link'
+import {
+  checkDrafts,
+  clearDraft,
+  draftScope,
+  fetchServerFields,
+  getDraft,
+  getPageDrafts,
+  loadDrafts,
+  mergeDraft,
+  rebaseDraft,
+  saveDraft,
+} from '../lib/microtext-store'
+import {
+  allowsFormatting,
+  describeConstraints,
+  getFieldSchema,
+  getMaxLength,
+  validateField,
+  validateValue,
+  type MicrotextSchema,
+} from '../lib/microtext-schema'
+import {
+  DEFAULT_STYLE,
+  detectMarkdownStyle,
+  docToMarkdown,
+  docToText,
+  blockMarkdownToHtml,
+  docToBlockMarkdown,
+  markdownToHtml,
+  textToDoc,
+  type MarkdownStyle,
+} from '../lib/inline-markdown'
+import {
+  claimField,
+  connectLiveUpdates,
+  SESSION_ID,
+  type PresenceSession,
+} from '../lib/live-updates'
+import { refreshArraySections, SECTIONS_UPDATED_EVENT } from '../lib/array-actions'
+import { DEFAULT_LOCALE, LOCALE_NAMES, localeFromPath, localizePath } from '../lib/locales'
+import RevisionHistory from './RevisionHistory'
 
 interface Props {
   pageSlug: string
+  /** Locale being edited */
+  locale?: string
   initialContent: Record<string, string>
+  schema?: MicrotextSchema | null
+  /** Reviewers can inspect fields but not change them */
+  readOnly?: boolean
+  /** Paths of the site's pages, offered when editing a link's URL */
+  pages?: string[]
+}
+
+// The parts of a link edited next to its label
+type LinkPart = 'href' | 'target' | 'rel'
+type LinkFields = Record<LinkPart, string>
+const LINK_FIELD_PARTS: LinkPart[] = ['href', 'target', 'rel']
+
+// What the open field looked like, to detect an unchanged save
+interface Opened {
+  raw: string
+  serialized: string
+  rich: boolean
+  /** Block field: paragraphs and lists */
+  block: boolean
+  style: MarkdownStyle
+}
+
+interface Conflict {
+  serverValue: string
+  serverVersion: string
+}
+
+// Render a stored value into its field the way MicroText does
+function renderMarkdown(el: HTMLElement, value: string): void {
+  el.innerHTML = el.dataset.microtextMarkdown === 'block' ? blockMarkdownToHtml(value) : markdownToHtml(value)
 }
 
-export default function MicrotextEditor({ pageSlug, initialContent }: Props) {
+// Once a field has a value in this locale it no longer falls back
+function markTranslated(el: HTMLElement): void {
+  delete el.dataset.microtextUntranslated
+  el.removeAttribute('lang')
+}
+
+function readLinkFields(el: HTMLElement): LinkFields {
+  try {
+    return { href: '', target: '', rel: '', ...JSON.parse(el.dataset.microtextLinkRaw || '{}') }
+  } catch {
+    return { href: '', target: '', rel: '' }
+  }
+}
+
+function readLinkVersions(el: HTMLElement): Record<string, string> {
+  try {
+    return JSON.parse(el.dataset.microtextLinkVersions || '{}')
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * The link element and part a draft id like "cta.href" belongs to, if any
+ */
+function findLinkPart(id: string): { el: HTMLElement; linkId: string; part: LinkPart } | null {
+  const dot = id.lastIndexOf('.')
+  const part = id.slice(dot + 1) as LinkPart
+  if (dot < 0 || !LINK_FIELD_PARTS.includes(part)) return null
+  const linkId = id.slice(0, dot)
+  const el = document.querySelector(`[data-microtext-link="${linkId}"]`) as HTMLElement | null
+  return el ? { el, linkId, part } : null
+}
+
+// Show a link part in the page (an empty target or rel removes the attribute)
+function applyLinkPart(el: HTMLElement, part: LinkPart, value: string, version?: string): void {
+  if (value) el.setAttribute(part, value)
+  else el.removeAttribute(part)
+  el.dataset.microtextLinkRaw = JSON.stringify({ ...readLinkFields(el), [part]: value })
+  if (version) {
+    el.dataset.microtextLinkVersions = JSON.stringify({ ...readLinkVersions(el), [part]: version })
+  }
+}
+
+export default function MicrotextEditor({ pageSlug, locale = DEFAULT_LOCALE, initialContent, schema, readOnly = false, pages = [] }: Props) {
+  const draftSlug = draftScope(pageSlug, locale)
   const [activeId, setActiveId] = useState<string | null>(null)
   const [position, setPosition] = useState({ top: 0, left: 0, width: 200 })
   const [draftCount, setDraftCount] = useState(0)
   const [error, setError] = useState<string | null>(null)
+  const [conflicts, setConflicts] = useState<Record<string, Conflict>>({})
+  const [showHistory, setShowHistory] = useState(false)
+  const [others, setOthers] = useState<PresenceSession[]>([])
+  const [changedArrays, setChangedArrays] = useState<Record<string, string>>({})
+  const [sectionsVersion, setSectionsVersion] = useState(0)
+  const [untranslatedCount, setUntranslatedCount] = useState(0)
+  const [link, setLink] = useState<LinkFields | null>(null)
+  const [block, setBlock] = useState(false)
+  const [draftsLoaded, setDraftsLoaded] = useState(false)
   const activeElementRef = useRef<HTMLElement | null>(null)
+  const activeIdRef = useRef<string | null>(null)
+  const openedRef = useRef<Opened | null>(null)
+  const openedLinkRef = useRef<LinkFields | null>(null)
 
-  const editor = useEditor({
+  const inlineEditor = useEditor({
     extensions: [
       StarterKit.configure({
         heading: false,
@@ -32,15 +191,19 @@ export default function MicrotextEditor({ pageSlug, initialContent }: Props) {
         orderedList: false,
         blockquote: false,
         codeBlock: false,
-        code: false,
         horizontalRule: false,
         hardBreak: false,
       }),
       Placeholder.configure({
         placeholder: 'Enter text...',
       }),
+      Link.configure({
+        openOnClick: false,
+        autolink: false,
+      }),
     ],
     content: '',
+    editable: !readOnly,
     immediatelyRender: false,
     editorProps: {
       attributes: {
@@ -49,82 +212,531 @@ export default function MicrotextEditor({ pageSlug, initialContent }: Props) {
     },
   })
 
+  // Block fields: paragraphs and bullet / numbered lists
+  const blockEditor = useEditor({
+    extensions: [
+      StarterKit.configure({
+        heading: false,
+        blockquote: false,
+        codeBlock: false,
+        horizontalRule: false,
+        hardBreak: false,
+      }),
+      Placeholder.configure({
+        placeholder: 'Enter text...',
+      }),
+      Link.configure({
+        openOnClick: false,
+        autolink: false,
+      }),
+    ],
+    content: '',
+    editable: !readOnly,
+    immediatelyRender: false,
+    editorProps: {
+      attributes: {
+        class: 'outline-none min-h-[3em] max-h-80 overflow-y-auto px-3 py-2',
+      },
+    },
+  })
+
+  const editor = block ? blockEditor : inlineEditor
+
   // Update draft count
   const updateDraftCount = useCallback(() => {
-    const drafts = getPageDrafts(pageSlug)
+    const drafts = getPageDrafts(draftSlug)
     setDraftCount(Object.keys(drafts).length)
-  }, [pageSlug])
+  }, [draftSlug])
 
-  // Hydrate DOM with localStorage drafts on mount
   useEffect(() => {
-    const drafts = getPageDrafts(pageSlug)
+    loadDrafts().then(() => setDraftsLoaded(true))
+  }, [])
+
+  // Hydrate DOM with stored drafts on mount (and onto re-rendered lists)
+  useEffect(() => {
+    if (!draftsLoaded) return
+    const drafts = getPageDrafts(draftSlug)
+    const stale: Record<string, Conflict> = {}
 
     Object.entries(drafts).forEach(([id, draft]) => {
+      const linkPart = findLinkPart(id)
+      if (linkPart) {
+        const { el, part } = linkPart
+        const serverVersion = readLinkVersions(el)[part]
+        if (!el.classList.contains('has-draft') || readLinkFields(el)[part] !== draft.value) {
+          if (draft.baseVersion && serverVersion && draft.baseVersion !== serverVersion) {
+            stale[id] = { serverValue: readLinkFields(el)[part], serverVersion }
+            el.classList.add('has-conflict')
+          }
+          applyLinkPart(el, part, draft.value)
+          el.classList.add('has-draft')
+        }
+        return
+      }
+
       const el = document.querySelector(`[data-microtext="${id}"]`) as HTMLElement
-      if (el) {
+      // Nodes that already show their draft were hydrated earlier
+      if (el && !el.classList.contains('has-draft')) {
+        // Server value moved on since this draft was started
+        const serverVersion = el.dataset.microtextVersion
+        if (draft.baseVersion && serverVersion && draft.baseVersion !== serverVersion) {
+          stale[id] = { serverValue: el.dataset.microtextRaw || '', serverVersion }
+          el.classList.add('has-conflict')
+        }
+
         // Parse markdown and update DOM
-        const html = marked.parseInline(draft.value) as string
-        el.innerHTML = html
+        renderMarkdown(el, draft.value)
         el.dataset.microtextRaw = draft.value
         // Add indicator that this is a draft
         el.classList.add('has-draft')
       }
     })
 
+    setConflicts((prev) => ({ ...prev, ...stale }))
     updateDraftCount()
-  }, [pageSlug, updateDraftCount])
+  }, [draftSlug, draftsLoaded, updateDraftCount, sectionsVersion])
+
+  // Ask the server whether drafts are still based on its values: the page
+  // may be older than the server's copy, and a tab left open goes stale
+  useEffect(() => {
+    if (!draftsLoaded) return
+    const check = async () => {
+      if (document.visibilityState !== 'visible') return
+      let stale
+      try {
+        stale = await checkDrafts(draftSlug)
+      } catch (err) {
+        console.error('[drafts] Check failed:', err)
+        return
+      }
+
+      // Drafts flagged from the page's own (possibly older) versions that
+      // the server says are current
+      const staleIds = new Set(stale.map(c => c.id))
+      const drafts = getPageDrafts(draftSlug)
+      const fresh = Object.keys(drafts).filter(id => drafts[id].baseVersion && !staleIds.has(id))
+      for (const id of fresh) {
+        const el = (document.querySelector(`[data-microtext="${id}"]`) as HTMLElement) || findLinkPart(id)?.el
+        el?.classList.remove('has-conflict')
+      }
+      setConflicts((prev) => Object.fromEntries(Object.entries(prev).filter(([id]) => !fresh.includes(id))))
+    }
+    check()
+    document.addEventListener('visibilitychange', check)
+    return () => document.removeEventListener('visibilitychange', check)
+  }, [draftSlug, draftsLoaded])
+
+  // Drafts saved in other tabs, or dropped anywhere
+  useEffect(() => {
+    const handleDraftSaved = (e: Event) => {
+      const { pageSlug: scope, id, value, remote } = (e as CustomEvent).detail
+      if (!remote || scope !== draftSlug) return
+      const linkPart = findLinkPart(id)
+      if (linkPart) {
+        applyLinkPart(linkPart.el, linkPart.part, value)
+        linkPart.el.classList.add('has-draft')
+      }
+      const el = document.querySelector(`[data-microtext="${id}"]`) as HTMLElement
+      if (el) {
+        renderMarkdown(el, value)
+        el.dataset.microtextRaw = value
+        el.classList.add('has-draft')
+      }
+      updateDraftCount()
+    }
+
+    // Synced or discarded elsewhere (another tab, the review panel) while
+    // still shown here: show what the server has now
+    const handleDraftCleared = async (e: Event) => {
+      const { pageSlug: scope, id } = (e as CustomEvent).detail
+      if (scope !== draftSlug) return
+      updateDraftCount()
+      const shown = (document.querySelector(`[data-microtext="${id}"]`) as HTMLElement) || findLinkPart(id)?.el
+      if (!shown?.classList.contains('has-draft')) return
+
+      setConflicts(({ [id]: _, ...rest }) => rest)
+      let field
+      try {
+        field = (await fetchServerFields(draftSlug, [id]))[id]
+      } catch (err) {
+        console.error('[drafts] Failed to refresh field:', err)
+        return
+      }
+      if (!field || getDraft(draftSlug, id)) return
+
+      const value = String(field.value ?? '')
+      const linkPart = findLinkPart(id)
+      if (linkPart) {
+        applyLinkPart(linkPart.el, linkPart.part, value, field.version)
+        if (!Object.keys(getPageDrafts(draftSlug)).some(other => findLinkPart(other)?.el === linkPart.el)) {
+          linkPart.el.classList.remove('has-draft', 'has-conflict')
+        }
+        return
+      }
+      const el = document.querySelector(`[data-microtext="${id}"]`) as HTMLElement
+      // Untranslated fields keep showing the default locale's text
+      if (el && field.value !== null) {
+        renderMarkdown(el, value)
+        el.dataset.microtextRaw = value
+        el.dataset.microtextVersion = field.version
+        markTranslated(el)
+      }
+      el?.classList.remove('has-draft', 'has-conflict')
+    }
+
+    window.addEventListener('microtext-draft-saved', handleDraftSaved)
+    window.addEventListener('microtext-draft-cleared', handleDraftCleared)
+    return () => {
+      window.removeEventListener('microtext-draft-saved', handleDraftSaved)
+      window.removeEventListener('microtext-draft-cleared', handleDraftCleared)
+    }
+  }, [draftSlug, updateDraftCount])
+
+  // Track sync results: saved fields get their new version, rejected ones are flagged
+  useEffect(() => {
+    const handleSaved = (e: Event) => {
+      const { id, value, version } = (e as CustomEvent).detail
+      const linkPart = findLinkPart(id)
+      if (linkPart) {
+        applyLinkPart(linkPart.el, linkPart.part, String(value ?? ''), version)
+      }
+      const el = document.querySelector(`[data-microtext="${id}"]`) as HTMLElement
+      if (el) {
+        if (version) el.dataset.microtextVersion = version
+        el.classList.remove('has-draft', 'has-conflict')
+        markTranslated(el)
+      }
+      setConflicts((prev) => {
+        const { [id]: _, ...rest } = prev
+        return rest
+      })
+      updateDraftCount()
+    }
+
+    const handleConflict = (e: Event) => {
+      const { id, serverValue, serverVersion } = (e as CustomEvent).detail
+      const el = (document.querySelector(`[data-microtext="${id}"]`) as HTMLElement) || findLinkPart(id)?.el
+      el?.classList.add('has-conflict')
+      setConflicts((prev) => ({
+        ...prev,
+        [id]: { serverValue: String(serverValue ?? ''), serverVersion },
+      }))
+    }
+
+    window.addEventListener('microtext-saved', handleSaved)
+    window.addEventListener('microtext-sync-conflict', handleConflict)
+    return () => {
+      window.removeEventListener('microtext-saved', handleSaved)
+      window.removeEventListener('microtext-sync-conflict', handleConflict)
+    }
+  }, [updateDraftCount])
+
+  // Live updates from other sessions on this page
+  useEffect(() => {
+    return connectLiveUpdates(pageSlug, {
+      onPresence: (sessions) => {
+        setOthers(sessions.filter(s => s.sessionId !== SESSION_ID))
+      },
+
+      onFieldSaved: ({ id, value, version, author, locale: savedLocale }) => {
+        // Saves to other locales don't change what this page shows
+        if ((savedLocale || DEFAULT_LOCALE) !== locale) return
+
+        const text = String(value ?? '')
+        const draft = getDraft(draftSlug, id)
+        if (draft?.value === text) return
+
+        const linkPart = findLinkPart(id)
+        if (linkPart) {
+          const { el, part } = linkPart
+          if (readLinkVersions(el)[part] === version) return
+          if (draft || activeIdRef.current === `${linkPart.linkId}.label`) {
+            el.classList.add('has-conflict')
+            setConflicts((prev) => ({ ...prev, [id]: { serverValue: text, serverVersion: version } }))
+          } else {
+            applyLinkPart(el, part, text, version)
+          }
+          return
+        }
+
+        const el = document.querySelector(`[data-microtext="${id}"]`) as HTMLElement
+        if (!el || el.dataset.microtextVersion === version) return
+
+        // Don't pull the rug from under a draft or an open editor
+        if (draft || activeIdRef.current === id) {
+          el.classList.add('has-conflict')
+          setConflicts((prev) => ({ ...prev, [id]: { serverValue: text, serverVersion: version } }))
+          return
+        }
+
+        renderMarkdown(el, text)
+        el.dataset.microtextRaw = text
+        el.dataset.microtextVersion = version
+        markTranslated(el)
+        el.title = `Updated by ${author}`
+        el.classList.remove('live-updated')
+        void el.offsetWidth
+        el.classList.add('live-updated')
+      },
+
+      onArrayChanged: async ({ arrayPath, author }) => {
+        // Re-render the list in place; unmarked lists get a reload prompt instead
+        if (!(await refreshArraySections([arrayPath]))) {
+          setChangedArrays((prev) => ({ ...prev, [arrayPath]: author }))
+        }
+      },
+    })
+  }, [pageSlug, draftSlug, locale])
+
+  // Fields on this page still showing the default locale's text
+  useEffect(() => {
+    if (locale === DEFAULT_LOCALE) return
+    setUntranslatedCount(document.querySelectorAll('[data-microtext-untranslated]:not(.has-draft)').length)
+  }, [locale, draftCount, sectionsVersion])
+
+  // Mark fields others are editing
+  useEffect(() => {
+    document.querySelectorAll('[data-microtext-editing]').forEach((el) => {
+      el.removeAttribute('data-microtext-editing')
+    })
+    for (const session of others) {
+      if (!session.fieldId) continue
+      const el = document.querySelector(`[data-microtext="${session.fieldId}"]`) as HTMLElement
+      if (el) el.dataset.microtextEditing = session.name
+    }
+  }, [others, sectionsVersion])
+
+  // Lists re-rendered in place bring new [data-microtext] nodes to bind
+  useEffect(() => {
+    const handleSectionsUpdated = () => setSectionsVersion((v) => v + 1)
+    window.addEventListener(SECTIONS_UPDATED_EVENT, handleSectionsUpdated)
+    return () => window.removeEventListener(SECTIONS_UPDATED_EVENT, handleSectionsUpdated)
+  }, [])
+
+  // Let others see which field this tab is editing
+  useEffect(() => {
+    activeIdRef.current = activeId
+    if (!readOnly) claimField(pageSlug, activeId)
+  }, [activeId, pageSlug, readOnly])
 
   const close = useCallback(() => {
     setActiveId(null)
     setError(null)
+    setShowHistory(false)
+    setLink(null)
     activeElementRef.current = null
+    openedRef.current = null
+    openedLinkRef.current = null
   }, [])
 
+  // The editor's content as a stored value
+  const serialize = useCallback((): string => {
+    const opened = openedRef.current
+    const target = opened?.block ? blockEditor : inlineEditor
+    if (!target || !opened) return ''
+    const json = target.getJSON()
+    if (!opened.rich) return docToText(json)
+    return opened.block ? docToBlockMarkdown(json, opened.style) : docToMarkdown(json, opened.style)
+  }, [inlineEditor, blockEditor])
+
   const save = useCallback(() => {
-    if (!activeId || !editor) return
+    if (!activeId || !editor || readOnly) return
 
-    const newText = editor.getText().trim()
-    if (!newText) {
+    // Untouched fields keep their exact source text
+    const opened = openedRef.current
+    const serialized = serialize()
+    const newText = opened && serialized === opened.serialized ? opened.raw : serialized.trim()
+    if (!newText.trim()) {
       setError('Text cannot be empty')
       return
     }
 
-    // Save to localStorage (instant)
-    saveDraft(pageSlug, activeId, newText)
+    // Same rules the server enforces
+    const violations = validateValue(schema, activeId, newText)
+
+    // Changed link parts; URLs are always checked, declared or not
+    const linkEl = activeElementRef.current?.dataset.microtextLink ? activeElementRef.current : null
+    const linkId = linkEl?.dataset.microtextLink
+    const changedParts = link && openedLinkRef.current
+      ? LINK_FIELD_PARTS.filter(part => link[part].trim() !== openedLinkRef.current![part])
+      : []
+    for (const part of changedParts) {
+      violations.push(...validateValue(schema, `${linkId}.${part}`, link![part].trim()))
+    }
+    if (link && changedParts.includes('href')) {
+      violations.push(...validateField({ type: 'url', required: true }, link.href.trim(), `${linkId}.href`))
+    }
+
+    if (violations.length > 0) {
+      setError([...new Set(violations.map(v => v.message))].join('. '))
+      return
+    }
+
+    // Save the draft (instant), based on the value shown before this edit
+    if (!linkEl || newText !== opened?.raw || getDraft(draftSlug, activeId)) {
+      const current = activeElementRef.current?.dataset
+      saveDraft(draftSlug, activeId, newText, current?.microtextVersion, current?.microtextRaw)
+    }
+    if (linkEl && linkId) {
+      const versions = readLinkVersions(linkEl)
+      for (const part of changedParts) {
+        const value = link![part].trim()
+        saveDraft(draftSlug, `${linkId}.${part}`, value, versions[part], openedLinkRef.current![part])
+        applyLinkPart(linkEl, part, value)
+      }
+    }
 
     // Update DOM immediately
     if (activeElementRef.current) {
-      const html = marked.parseInline(newText) as string
-      activeElementRef.current.innerHTML = html
+      renderMarkdown(activeElementRef.current, newText)
       activeElementRef.current.dataset.microtextRaw = newText
       activeElementRef.current.classList.add('has-draft')
     }
 
     updateDraftCount()
     close()
-  }, [activeId, editor, pageSlug, close, updateDraftCount])
+  }, [activeId, editor, draftSlug, schema, readOnly, link, close, serialize, updateDraftCount])
+
+  // Keep the draft: rebase it onto the server version so the next sync wins
+  const keepMine = useCallback(() => {
+    if (!activeId || !conflicts[activeId]) return
+    rebaseDraft(draftSlug, activeId, conflicts[activeId].serverVersion, conflicts[activeId].serverValue)
+    activeElementRef.current?.classList.remove('has-conflict')
+    setConflicts(({ [activeId]: _, ...rest }) => rest)
+  }, [activeId, conflicts, draftSlug])
+
+  // Drop the draft and show the server value
+  const takeTheirs = useCallback(() => {
+    if (!activeId || !conflicts[activeId]) return
+    const { serverValue, serverVersion } = conflicts[activeId]
+
+    const el = activeElementRef.current
+    if (el) {
+      renderMarkdown(el, serverValue)
+      el.dataset.microtextRaw = serverValue
+      el.dataset.microtextVersion = serverVersion
+      el.classList.remove('has-draft', 'has-conflict')
+    }
+    clearDraft(draftSlug, activeId)
+
+    setConflicts(({ [activeId]: _, ...rest }) => rest)
+    updateDraftCount()
+    close()
+  }, [activeId, conflicts, draftSlug, close, updateDraftCount])
+
+  // Resolve a conflict on a link part ("cta.href") of the open link
+  const resolveLinkConflict = useCallback((id: string, keep: boolean) => {
+    const linkPart = findLinkPart(id)
+    if (!conflicts[id] || !linkPart) return
+    const { serverValue, serverVersion } = conflicts[id]
+
+    if (keep) {
+      rebaseDraft(draftSlug, id, serverVersion, serverValue)
+    } else {
+      clearDraft(draftSlug, id)
+      applyLinkPart(linkPart.el, linkPart.part, serverValue, serverVersion)
+      setLink(prev => prev && { ...prev, [linkPart.part]: serverValue })
+      if (openedLinkRef.current) openedLinkRef.current[linkPart.part] = serverValue
+      updateDraftCount()
+    }
+
+    const { [id]: _, ...rest } = conflicts
+    if (!Object.keys(rest).some(other => findLinkPart(other)?.el === linkPart.el)) {
+      linkPart.el.classList.remove('has-conflict')
+    }
+    setConflicts(rest)
+  }, [conflicts, draftSlug, updateDraftCount])
+
+  // A restored revision is already on the server: drop any draft and show it
+  const handleRestore = useCallback((value: string, version: string) => {
+    if (!activeId) return
+
+    const el = activeElementRef.current
+    if (el) {
+      renderMarkdown(el, value)
+      el.dataset.microtextRaw = value
+      if (version) el.dataset.microtextVersion = version
+      el.classList.remove('has-draft', 'has-conflict')
+      markTranslated(el)
+    }
+    clearDraft(draftSlug, activeId)
+
+    setConflicts(({ [activeId]: _, ...rest }) => rest)
+    updateDraftCount()
+    window.dispatchEvent(new CustomEvent('microtext-saved', {
+      detail: { pageSlug: draftSlug, id: activeId, value, version }
+    }))
+    close()
+  }, [activeId, draftSlug, close, updateDraftCount])
 
   const openEditor = useCallback((el: HTMLElement) => {
     const id = el.dataset.microtext!
-    // Check localStorage first, then fall back to current value
-    const draft = getDraft(pageSlug, id)
+    // Check drafts first, then fall back to current value
+    const draft = getDraft(draftSlug, id)
     const text = draft?.value || el.dataset.microtextRaw || el.innerText
     const rect = el.getBoundingClientRect()
 
     activeElementRef.current = el
     setActiveId(id)
     setError(null)
+
+    if (el.dataset.microtextLink) {
+      const fields = readLinkFields(el)
+      openedLinkRef.current = fields
+      setLink(fields)
+    }
     setPosition({
       top: rect.bottom + window.scrollY + 8,
       left: rect.left + window.scrollX,
       width: Math.max(rect.width, 200),
     })
 
-    editor?.commands.setContent(`<p>${text}</p>`)
+    const isBlock = el.dataset.microtextMarkdown === 'block'
+    const target = isBlock ? blockEditor : inlineEditor
+    setBlock(isBlock)
+
+    if (target) {
+      // Link labels are plain text: no links inside links
+      const rich = isBlock || (!el.dataset.microtextLink && allowsFormatting(getFieldSchema(schema, id)))
+      const style = rich ? detectMarkdownStyle(text) : DEFAULT_STYLE
+      target.commands.setContent(
+        isBlock ? blockMarkdownToHtml(text) : rich ? markdownToHtml(text) : textToDoc(text)
+      )
+
+      const json = target.getJSON()
+      openedRef.current = {
+        raw: text,
+        serialized: isBlock
+          ? docToBlockMarkdown(json, style)
+          : rich ? docToMarkdown(json, style) : docToText(json),
+        rich,
+        block: isBlock,
+        style,
+      }
+    }
     setTimeout(() => {
-      editor?.commands.focus('end')
+      target?.commands.focus('end')
     }, 10)
-  }, [editor, pageSlug])
+  }, [inlineEditor, blockEditor, draftSlug, schema])
+
+  // Combine the draft with the server value and reopen it for review
+  const mergeWithServer = useCallback(() => {
+    if (!activeId || !conflicts[activeId] || !activeElementRef.current) return
+    const { serverValue, serverVersion } = conflicts[activeId]
+    const result = mergeDraft(draftSlug, activeId, serverValue, serverVersion)
+    if (!result) return
+
+    const el = activeElementRef.current
+    renderMarkdown(el, result.merged)
+    el.dataset.microtextRaw = result.merged
+    el.classList.remove('has-conflict')
+    setConflicts(({ [activeId]: _, ...rest }) => rest)
+
+    openEditor(el)
+    if (!result.clean) {
+      setError('You both changed the same words; yours were kept there. Check the text before saving.')
+    }
+  }, [activeId, conflicts, draftSlug, openEditor])
 
   // Set up click handlers
   useEffect(() => {
@@ -147,13 +759,16 @@ export default function MicrotextEditor({ pageSlug, initialContent }: Props) {
       const handleEnter = () => {
         if (!activeId) {
           const hasDraft = htmlEl.classList.contains('has-draft')
-          htmlEl.style.outline = hasDraft ? '2px dashed #f59e0b' : '2px dashed #3b82f6'
+          const hasConflict = htmlEl.classList.contains('has-conflict')
+          htmlEl.style.outline = hasConflict
+            ? '2px dashed #ef4444'
+            : hasDraft ? '2px dashed #f59e0b' : '2px dashed #3b82f6'
           htmlEl.style.outlineOffset = '2px'
           htmlEl.style.borderRadius = '4px'
         }
       }
       const handleLeave = () => {
-        htmlEl.style.outline = 'none'
+        htmlEl.style.outline = ''
       }
 
       htmlEl.addEventListener('mouseenter', handleEnter)
@@ -176,7 +791,28 @@ export default function MicrotextEditor({ pageSlug, initialContent }: Props) {
         }
       })
     }
-  }, [activeId, openEditor])
+  }, [activeId, openEditor, sectionsVersion])
+
+  // Add, change or (with an empty URL) remove the link on the selection
+  const editLink = () => {
+    if (!editor) return
+    const current = editor.getAttributes('link').href as string | undefined
+    const href = window.prompt('Link URL', current || 'https://')
+    if (href === null) return
+
+    const chain = editor.chain().focus().extendMarkRange('link')
+    if (href.trim() === '') {
+      chain.unsetLink().run()
+    } else {
+      chain.setLink({ href: href.trim() }).run()
+    }
+  }
+
+  // Open this page in another locale, staying in edit mode
+  const switchLocale = (next: string) => {
+    const { pathname } = localeFromPath(window.location.pathname)
+    window.location.href = `${localizePath(pathname, next)}?edit`
+  }
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
@@ -192,16 +828,67 @@ export default function MicrotextEditor({ pageSlug, initialContent }: Props) {
   if (!activeId) {
     return (
       <div className="fixed bottom-4 right-4 z-40 bg-blue-500 text-white px-4 py-2 rounded-full shadow-lg text-sm font-medium flex items-center gap-2">
-        <span>✏️ Edit Mode</span>
+        <span>{readOnly ? '👁 Review Mode' : '✏️ Edit Mode'}</span>
+        {Object.keys(LOCALE_NAMES).length > 1 && (
+          <select
+            value={locale}
+            onChange={(e) => switchLocale(e.target.value)}
+            className="bg-blue-600 text-white text-xs rounded-full px-2 py-0.5 border-none focus:outline-none"
+            title="Edit another language"
+          >
+            {Object.entries(LOCALE_NAMES).map(([code, name]) => (
+              <option key={code} value={code}>{name}</option>
+            ))}
+          </select>
+        )}
+        {untranslatedCount > 0 && locale !== DEFAULT_LOCALE && (
+          <span
+            className="bg-orange-400 text-orange-950 px-2 py-0.5 rounded-full text-xs font-bold"
+            title={`Showing ${LOCALE_NAMES[DEFAULT_LOCALE]} text until translated`}
+          >
+            {untranslatedCount} untranslated
+          </span>
+        )}
         {draftCount > 0 && (
           <span className="bg-yellow-400 text-yellow-900 px-2 py-0.5 rounded-full text-xs font-bold">
             {draftCount} draft{draftCount !== 1 ? 's' : ''}
           </span>
         )}
+        {Object.keys(conflicts).length > 0 && (
+          <span className="bg-red-500 text-white px-2 py-0.5 rounded-full text-xs font-bold">
+            {Object.keys(conflicts).length} conflict{Object.keys(conflicts).length !== 1 ? 's' : ''}
+          </span>
+        )}
+        {others.length > 0 && (
+          <span
+            className="bg-purple-500 text-white px-2 py-0.5 rounded-full text-xs font-bold"
+            title={[...new Set(others.map(s => s.name))].join(', ')}
+          >
+            👥 {new Set(others.map(s => s.username)).size}
+          </span>
+        )}
+        {Object.keys(changedArrays).length > 0 && (
+          <button
+            onClick={() => window.location.reload()}
+            className="bg-white text-blue-600 px-2 py-0.5 rounded-full text-xs font-bold hover:bg-blue-50"
+            title={Object.entries(changedArrays).map(([path, author]) => `${author} changed ${path}`).join('\n')}
+          >
+            List changed · Reload
+          </button>
+        )}
       </div>
     )
   }
 
+  const editingHere = others.find(s => s.fieldId === activeId)
+
+  const fieldSchema = getFieldSchema(schema, activeId)
+  const constraints = describeConstraints(fieldSchema)
+  const maxLength = getMaxLength(fieldSchema)
+  // Counted on the stored form, markup included, as the server does
+  const length = serialize().trim().length
+  const showToolbar = !readOnly && !!editor && !!openedRef.current?.rich
+
   return (
     <>
       <div
@@ -221,12 +908,185 @@ export default function MicrotextEditor({ pageSlug, initialContent }: Props) {
       >
         <div className="px-3 py-2 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
           <span className="text-xs text-gray-500">
-            Editing: <code className="bg-gray-200 px-1.5 py-0.5 rounded text-gray-700">{activeId}</code>
+            {readOnly ? 'Viewing' : 'Editing'}: <code className="bg-gray-200 px-1.5 py-0.5 rounded text-gray-700">{activeId}</code>
+            {locale !== DEFAULT_LOCALE && <span className="ml-1 uppercase">{locale}</span>}
+            {editingHere && (
+              <span className="ml-2 text-purple-600 font-medium">{editingHere.name} is editing</span>
+            )}
+          </span>
+          <span className="flex items-center gap-2 text-xs text-gray-400">
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className={`hover:text-gray-700 ${showHistory ? 'text-gray-700 font-medium' : ''}`}
+            >
+              History
+            </button>
+            {!readOnly && <span>⌘↵ to save</span>}
           </span>
-          <span className="text-xs text-gray-400">⌘↵ to save</span>
         </div>
 
-        <EditorContent editor={editor} className="prose prose-sm max-w-none" />
+        {activeElementRef.current?.dataset.microtextUntranslated && !activeElementRef.current.classList.contains('has-draft') && (
+          <div className="px-3 py-1.5 bg-orange-50 border-b border-orange-100 text-xs text-orange-700">
+            Not translated yet — showing the {LOCALE_NAMES[DEFAULT_LOCALE]} text. Saving adds the {LOCALE_NAMES[locale] || locale} version.
+          </div>
+        )}
+
+        {constraints.length > 0 && (
+          <div className="px-3 py-1.5 bg-gray-50 border-b border-gray-200 text-xs text-gray-500 flex justify-between gap-2">
+            <span>{constraints.join(' · ')}</span>
+            {maxLength !== undefined && (
+              <span className={length > maxLength ? 'text-red-600 font-medium' : ''}>
+                {length}/{maxLength}
+              </span>
+            )}
+          </div>
+        )}
+
+        {showHistory && (
+          <div className="border-b border-gray-200">
+            <RevisionHistory pageSlug={pageSlug} id={activeId} locale={locale} onRestore={readOnly ? undefined : handleRestore} />
+          </div>
+        )}
+
+        {conflicts[activeId] && (
+          <div className="px-3 py-2 bg-amber-50 text-amber-800 text-sm border-b border-amber-100">
+            <div className="font-medium">Changed on the server while you were editing:</div>
+            <div className="mt-1 italic">{conflicts[activeId].serverValue}</div>
+            <div className="mt-2 flex gap-2">
+              <button
+                onClick={keepMine}
+                className="px-2 py-1 text-xs bg-amber-500 text-white rounded hover:bg-amber-600"
+              >
+                Keep mine
+              </button>
+              {getDraft(draftSlug, activeId) && (
+                <button
+                  onClick={mergeWithServer}
+                  className="px-2 py-1 text-xs text-amber-800 hover:bg-amber-100 rounded"
+                >
+                  Merge both
+                </button>
+              )}
+              <button
+                onClick={takeTheirs}
+                className="px-2 py-1 text-xs text-amber-800 hover:bg-amber-100 rounded"
+              >
+                Use server value
+              </button>
+            </div>
+          </div>
+        )}
+
+        {showToolbar && (
+          <div className="px-2 py-1 border-b border-gray-200 flex gap-1">
+            <button
+              onClick={() => editor!.chain().focus().toggleBold().run()}
+              className={`w-7 h-7 rounded text-sm font-bold ${editor!.isActive('bold') ? 'bg-gray-200 text-gray-900' : 'text-gray-500 hover:bg-gray-100'}`}
+              title="Bold (⌘B)"
+            >
+              B
+            </button>
+            <button
+              onClick={() => editor!.chain().focus().toggleItalic().run()}
+              className={`w-7 h-7 rounded text-sm italic font-serif ${editor!.isActive('italic') ? 'bg-gray-200 text-gray-900' : 'text-gray-500 hover:bg-gray-100'}`}
+              title="Italic (⌘I)"
+            >
+              I
+            </button>
+            <button
+              onClick={editLink}
+              className={`w-7 h-7 rounded text-sm ${editor!.isActive('link') ? 'bg-gray-200 text-gray-900' : 'text-gray-500 hover:bg-gray-100'}`}
+              title="Link"
+            >
+              🔗
+            </button>
+            {block && (
+              <>
+                <button
+                  onClick={() => editor!.chain().focus().toggleBulletList().run()}
+                  className={`w-7 h-7 rounded text-sm ${editor!.isActive('bulletList') ? 'bg-gray-200 text-gray-900' : 'text-gray-500 hover:bg-gray-100'}`}
+                  title="Bullet list"
+                >
+                  •
+                </button>
+                <button
+                  onClick={() => editor!.chain().focus().toggleOrderedList().run()}
+                  className={`w-7 h-7 rounded text-xs ${editor!.isActive('orderedList') ? 'bg-gray-200 text-gray-900' : 'text-gray-500 hover:bg-gray-100'}`}
+                  title="Numbered list"
+                >
+                  1.
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
+        <EditorContent key={block ? 'block' : 'inline'} editor={editor} className="prose prose-sm max-w-none" />
+
+        {link && (
+          <div className="px-3 py-2 border-t border-gray-200 space-y-2 text-xs text-gray-500">
+            <label className="block">
+              URL
+              <input
+                value={link.href}
+                onChange={(e) => setLink({ ...link, href: e.target.value })}
+                readOnly={readOnly}
+                placeholder="https://… or /page"
+                className="mt-1 block w-full px-2 py-1.5 text-sm text-gray-900 font-mono border border-gray-300 rounded focus:outline-none focus:border-blue-500"
+              />
+            </label>
+            {!readOnly && (
+              <div className="flex items-center gap-3">
+                {pages.length > 0 && (
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && setLink({ ...link, href: e.target.value })}
+                    className="flex-1 min-w-0 px-2 py-1 text-xs border border-gray-300 rounded bg-white"
+                  >
+                    <option value="">Link to a page…</option>
+                    {pages.map(path => (
+                      <option key={path} value={localizePath(path, locale)}>{localizePath(path, locale)}</option>
+                    ))}
+                  </select>
+                )}
+                <label className="flex items-center gap-1.5 whitespace-nowrap">
+                  <input
+                    type="checkbox"
+                    checked={link.target === '_blank'}
+                    onChange={(e) => setLink({ ...link, target: e.target.checked ? '_blank' : '' })}
+                  />
+                  Open in a new tab
+                </label>
+              </div>
+            )}
+            <label className="block">
+              rel
+              <input
+                value={link.rel}
+                onChange={(e) => setLink({ ...link, rel: e.target.value })}
+                readOnly={readOnly}
+                placeholder="e.g. nofollow sponsored"
+                className="mt-1 block w-full px-2 py-1 text-sm text-gray-900 font-mono border border-gray-300 rounded focus:outline-none focus:border-blue-500"
+              />
+            </label>
+            {LINK_FIELD_PARTS.map((part) => {
+              const partId = `${activeElementRef.current?.dataset.microtextLink}.${part}`
+              const conflict = conflicts[partId]
+              return conflict && (
+                <div key={part} className="px-2 py-1.5 bg-amber-50 text-amber-800 rounded">
+                  <span className="font-medium">{part} changed on the server:</span>{' '}
+                  <span className="font-mono break-all">{conflict.serverValue || '(none)'}</span>
+                  {!readOnly && (
+                    <span className="ml-2 inline-flex gap-2">
+                      <button onClick={() => resolveLinkConflict(partId, true)} className="underline">Keep mine</button>
+                      <button onClick={() => resolveLinkConflict(partId, false)} className="underline">Use server value</button>
+                    </span>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
 
         {error && (
           <div className="px-3 py-2 bg-red-50 text-red-600 text-sm border-t border-red-100">
@@ -235,17 +1095,19 @@ export default function MicrotextEditor({ pageSlug, initialContent }: Props) {
         )}
 
         <div className="flex gap-2 p-2 bg-gray-50 border-t border-gray-200">
-          <button
-            onClick={save}
-            className="flex-1 px-3 py-1.5 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 font-medium"
-          >
-            Save Draft
-          </button>
+          {!readOnly && (
+            <button
+              onClick={save}
+              className="flex-1 px-3 py-1.5 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 font-medium"
+            >
+              Save Draft
+            </button>
+          )}
           <button
             onClick={close}
-            className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded"
+            className={`px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded ${readOnly ? 'flex-1' : ''}`}
           >
-            Cancel
+            {readOnly ? 'Close' : 'Cancel'}
           </button>
         </div>
       </div>
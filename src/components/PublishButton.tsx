@@ -2,15 +2,58 @@
  * PublishButton - Batches content changes and commits to git
  *
  * Tracks unpublished changes and provides a single "Publish" action
- * that commits all pending edits.
+ * that commits all pending edits. "Review" opens PublishPreview to see the
+ * changes field by field and publish only some of them; "History" opens
+ * PublishHistory to roll back an earlier publish; "Scheduled" (shown while
+ * any are pending or failed) opens ScheduledPublishes.
+ *
+ * Failures show the server's message; a rejected commit hook also shows
+ * the hook's output.
+ *
+ * After a publish, the post-publish hooks' progress (push, build, webhook)
+ * is shown until they finish; a failed run stays, with its output and a
+ * retry, including runs after scheduled publishes.
  */
 
 import { useState, useEffect, useCallback } from 'react'
+import type { PublishSelection } from '../lib/publish-changes'
+import type { HookRun, HookStatus } from '../lib/publish-hooks'
+import PublishHistory from './PublishHistory'
+import PublishPreview from './PublishPreview'
+import ScheduledPublishes from './ScheduledPublishes'
+import type { Schedule } from '../lib/publish-schedule'
+
+const HOOK_STYLES: Record<HookStatus, string> = {
+  pending: 'text-gray-400',
+  running: 'text-blue-600',
+  succeeded: 'text-green-700',
+  failed: 'text-red-600',
+  skipped: 'text-gray-400 line-through',
+}
+
+const HOOK_ICONS: Record<HookStatus, string> = {
+  pending: '·',
+  running: '⏳',
+  succeeded: '✓',
+  failed: '✗',
+  skipped: '–',
+}
+
+/** How often a running deploy is checked, in ms */
+const DEPLOY_POLL = 2000
 
 export default function PublishButton() {
   const [changeCount, setChangeCount] = useState(0)
   const [publishing, setPublishing] = useState(false)
   const [message, setMessage] = useState<string | null>(null)
+  const [failure, setFailure] = useState<{ detail?: string } | null>(null)
+  const [reviewing, setReviewing] = useState(false)
+  const [browsingHistory, setBrowsingHistory] = useState(false)
+  const [browsingSchedules, setBrowsingSchedules] = useState(false)
+  // Pending and failed schedules
+  const [scheduledCount, setScheduledCount] = useState(0)
+  // Post-publish hooks of the latest publish, while running or failed
+  const [deploy, setDeploy] = useState<HookRun | null>(null)
 
   // Check for unpublished changes
   const checkChanges = useCallback(async () => {
@@ -25,6 +68,82 @@ export default function PublishButton() {
     }
   }, [])
 
+  const checkSchedules = useCallback(async () => {
+    try {
+      const res = await fetch('/api/publish-schedule')
+      if (res.ok) {
+        const data = await res.json()
+        setScheduledCount(data.schedules.filter((s: Schedule) => s.status !== 'published').length)
+      }
+    } catch (err) {
+      console.error('Failed to check schedules:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    checkSchedules()
+    window.addEventListener('publish-schedule-changed', checkSchedules)
+    return () => window.removeEventListener('publish-schedule-changed', checkSchedules)
+  }, [checkSchedules])
+
+  // The latest hook run, if it isn't done or failed
+  const checkDeploy = useCallback(async () => {
+    try {
+      const res = await fetch('/api/publish-hooks?limit=1')
+      if (res.ok) {
+        const [run] = (await res.json()).runs as HookRun[]
+        setDeploy(run && run.status !== 'succeeded' ? run : null)
+      }
+    } catch (err) {
+      console.error('Failed to check deploy:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    checkDeploy()
+  }, [checkDeploy])
+
+  // Follow a running deploy; a successful one is shown briefly
+  useEffect(() => {
+    if (!deploy) return
+    if (deploy.status === 'succeeded') {
+      const timer = setTimeout(() => setDeploy(null), 5000)
+      return () => clearTimeout(timer)
+    }
+    if (deploy.status !== 'running') return
+
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/publish-hooks?commit=${deploy.commit}`)
+        if (res.ok) setDeploy((await res.json()).run)
+        else setDeploy({ ...deploy })
+      } catch (err) {
+        setDeploy({ ...deploy })
+      }
+    }, DEPLOY_POLL)
+    return () => clearTimeout(timer)
+  }, [deploy])
+
+  const retryDeploy = async (commit: string) => {
+    try {
+      const res = await fetch('/api/publish-hooks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ commit })
+      })
+      const data = await res.json()
+      if (res.ok) {
+        setDeploy(data.run)
+      } else {
+        setMessage(data.error || 'Retry failed')
+        setFailure({})
+      }
+    } catch (err) {
+      setMessage('Network error')
+      setFailure({})
+    }
+  }
+
   // Check on mount and after saves
   useEffect(() => {
     checkChanges()
@@ -39,16 +158,20 @@ export default function PublishButton() {
     return () => window.removeEventListener('microtext-saved', handleSave)
   }, [checkChanges])
 
-  const publish = async () => {
+  // Publish everything, or only the selected pages and fields
+  const publish = async (selection?: PublishSelection) => {
     setPublishing(true)
     setMessage(null)
+    setFailure(null)
 
+    const count = selection ? (selection.pages?.length || 0) + (selection.fields?.length || 0) : changeCount
     try {
       const res = await fetch('/api/publish', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          message: `Content update: ${changeCount} edit(s)`
+          message: `Content update: ${count} edit(s)`,
+          ...selection
         })
       })
 
@@ -56,14 +179,19 @@ export default function PublishButton() {
 
       if (res.ok) {
         setMessage(data.message)
-        setChangeCount(0)
+        if (data.hooks) setDeploy(data.hooks)
+        setReviewing(false)
+        // A selection may leave changes unpublished
+        checkChanges()
         // Clear message after 3 seconds
         setTimeout(() => setMessage(null), 3000)
       } else {
         setMessage(data.error || 'Publish failed')
+        setFailure({ detail: data.code === 'hook-failed' ? data.detail : undefined })
       }
     } catch (err) {
       setMessage('Network error')
+      setFailure({})
     } finally {
       setPublishing(false)
     }
@@ -71,10 +199,41 @@ export default function PublishButton() {
 
   return (
     <div className="fixed bottom-4 left-4 z-50 flex items-center gap-3">
+      {reviewing && (
+        <PublishPreview
+          publishing={publishing}
+          onPublish={publish}
+          onClose={() => setReviewing(false)}
+        />
+      )}
+
+      {browsingHistory && (
+        <PublishHistory
+          onRolledBack={(summary) => {
+            setMessage(summary)
+            setFailure(null)
+            checkChanges()
+            checkDeploy()
+            setTimeout(() => setMessage(null), 3000)
+          }}
+          onClose={() => setBrowsingHistory(false)}
+        />
+      )}
+
+      {browsingSchedules && (
+        <ScheduledPublishes
+          onClose={() => {
+            setBrowsingSchedules(false)
+            checkSchedules()
+            checkChanges()
+          }}
+        />
+      )}
+
       {changeCount > 0 ? (
         <>
           <button
-            onClick={publish}
+            onClick={() => publish()}
             disabled={publishing}
             className="flex items-center gap-2 bg-green-500 hover:bg-green-600 disabled:bg-green-400 text-white px-4 py-2 rounded-lg shadow-lg font-medium transition-colors"
           >
@@ -90,6 +249,12 @@ export default function PublishButton() {
               </>
             )}
           </button>
+          <button
+            onClick={() => setReviewing(true)}
+            className="bg-white text-green-700 border border-green-300 hover:bg-green-50 px-3 py-2 rounded-lg shadow-lg text-sm font-medium"
+          >
+            Review
+          </button>
         </>
       ) : (
         <div className="bg-gray-100 text-gray-500 px-4 py-2 rounded-lg text-sm">
@@ -97,13 +262,60 @@ export default function PublishButton() {
         </div>
       )}
 
+      <button
+        onClick={() => setBrowsingHistory(true)}
+        className="bg-white text-gray-600 border border-gray-300 hover:bg-gray-50 px-3 py-2 rounded-lg shadow-lg text-sm"
+        title="Past publishes and rollback"
+      >
+        History
+      </button>
+
+      {scheduledCount > 0 && (
+        <button
+          onClick={() => setBrowsingSchedules(true)}
+          className="bg-white text-blue-700 border border-blue-300 hover:bg-blue-50 px-3 py-2 rounded-lg shadow-lg text-sm"
+          title="Publishes scheduled for later"
+        >
+          Scheduled ({scheduledCount})
+        </button>
+      )}
+
+      {deploy && (
+        <div className="bg-white border border-gray-200 px-3 py-2 rounded-lg shadow-lg text-xs max-w-md">
+          <div className="flex items-center gap-2">
+            <span className="text-gray-500">
+              Deploy <code>{deploy.commit.slice(0, 7)}</code>
+            </span>
+            {deploy.hooks.map(hook => (
+              <span key={hook.name} className={HOOK_STYLES[hook.status]} title={`${hook.target}: ${hook.status}`}>
+                {HOOK_ICONS[hook.status]} {hook.name}
+              </span>
+            ))}
+            {deploy.status === 'failed' && (
+              <button onClick={() => retryDeploy(deploy.commit)} className="text-blue-600 hover:underline">
+                Retry
+              </button>
+            )}
+            {deploy.status !== 'running' && (
+              <button onClick={() => setDeploy(null)} className="ml-auto text-gray-400 hover:text-gray-700" title="Dismiss">
+                ×
+              </button>
+            )}
+          </div>
+          {deploy.hooks.filter(hook => hook.status === 'failed' && hook.output).map(hook => (
+            <pre key={hook.name} className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap font-mono text-red-700">{hook.output}</pre>
+          ))}
+        </div>
+      )}
+
       {message && (
-        <div className={`px-3 py-2 rounded-lg text-sm ${
-          message.includes('failed') || message.includes('error')
-            ? 'bg-red-100 text-red-700'
-            : 'bg-green-100 text-green-700'
+        <div className={`px-3 py-2 rounded-lg text-sm max-w-md ${
+          failure ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'
         }`}>
           {message}
+          {failure?.detail && (
+            <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap text-xs font-mono">{failure.detail}</pre>
+          )}
         </div>
       )}
     </div>
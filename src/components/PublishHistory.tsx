@@ -0,0 +1,157 @@
+/**
+ * PublishHistory - Drawer listing past publishes, with rollback
+ *
+ * Opened from PublishButton. Loads /api/publish-history: who published
+ * what, when, and which pages and microtext ids it touched. A publish can
+ * be reverted as a whole, or one of its pages restored to how it was right
+ * after it; both go through /api/publish-rollback and land as new commits.
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import type { PublishRecord } from '../lib/publish-history'
+
+interface Props {
+  /** Called after a rollback commit, with its summary */
+  onRolledBack: (message: string) => void
+  onClose: () => void
+}
+
+/** Field ids shown per page before "+N more" */
+const MAX_IDS = 6
+
+function formatTime(timestamp: string): string {
+  const date = new Date(timestamp)
+  return date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+}
+
+export default function PublishHistory({ onRolledBack, onClose }: Props) {
+  const [publishes, setPublishes] = useState<PublishRecord[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  // "commit" or "commit|page" while a rollback runs
+  const [busy, setBusy] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/publish-history')
+      const data = await res.json()
+      if (data.error) setError(data.error)
+      else setPublishes(data.publishes)
+    } catch (err) {
+      setError('Network error')
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const rollback = async (record: PublishRecord, page?: string) => {
+    const question = page
+      ? `Restore "${page}" to how it was after "${record.message}"? Later changes to the page are undone.`
+      : `Undo "${record.message}" by ${record.author}?`
+    if (!window.confirm(question)) return
+
+    setBusy(page ? `${record.commit}|${page}` : record.commit)
+    setError(null)
+    try {
+      const res = await fetch('/api/publish-rollback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ commit: record.commit, page })
+      })
+      const data = await res.json()
+
+      if (res.ok) {
+        onRolledBack(data.message)
+        load()
+      } else {
+        setError(data.error || 'Rollback failed')
+      }
+    } catch (err) {
+      setError('Network error')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/20 z-40" onClick={onClose} />
+
+      <aside className="fixed top-0 right-0 bottom-0 z-50 w-full max-w-md bg-white shadow-2xl flex flex-col">
+        <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-gray-800">Publish history</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700 text-lg leading-none" title="Close">
+            ×
+          </button>
+        </div>
+
+        {error && (
+          <div className="px-4 py-2 bg-red-50 text-red-600 text-xs border-b border-red-100">{error}</div>
+        )}
+
+        <ul className="flex-1 overflow-y-auto divide-y divide-gray-100">
+          {!publishes && !error && <li className="p-4 text-sm text-gray-400">Loading...</li>}
+          {publishes?.length === 0 && <li className="p-4 text-sm text-gray-400">Nothing published yet.</li>}
+
+          {publishes?.map(record => (
+            <li key={record.commit} className="px-4 py-3">
+              <div className="flex items-start gap-2">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-gray-800 truncate" title={record.message}>{record.message}</div>
+                  <div className="text-xs text-gray-400">
+                    {formatTime(record.time)} · {record.author} · <code>{record.commit.slice(0, 7)}</code>
+                  </div>
+                </div>
+                <button
+                  onClick={() => rollback(record)}
+                  disabled={!!busy}
+                  className="text-xs text-red-600 hover:underline disabled:text-gray-300 disabled:no-underline whitespace-nowrap"
+                >
+                  {busy === record.commit ? 'Reverting...' : 'Revert'}
+                </button>
+              </div>
+
+              {record.pages.map(page => (
+                <div key={page.file} className="mt-2 pl-3 border-l-2 border-gray-100">
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className="font-medium text-gray-700">{page.page}</span>
+                    {page.other && <span className="text-gray-400">{page.other.join(', ')}</span>}
+                    <button
+                      onClick={() => rollback(record, page.page)}
+                      disabled={!!busy}
+                      className="ml-auto text-blue-600 hover:underline disabled:text-gray-300 disabled:no-underline whitespace-nowrap"
+                    >
+                      {busy === `${record.commit}|${page.page}` ? 'Restoring...' : 'Restore page'}
+                    </button>
+                  </div>
+                  {page.fields.length > 0 && (
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {page.fields.slice(0, MAX_IDS).map(field => (
+                        <code key={`${field.locale}:${field.id}`} className="bg-gray-100 px-1.5 py-0.5 rounded text-xs text-gray-600">
+                          {field.id}
+                          {page.fields.some(f => f.locale !== field.locale) && (
+                            <span className="ml-1 uppercase text-gray-400">{field.locale}</span>
+                          )}
+                        </code>
+                      ))}
+                      {page.fields.length > MAX_IDS && (
+                        <span className="text-xs text-gray-400">+{page.fields.length - MAX_IDS} more</span>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+
+              {record.files.length > 0 && (
+                <div className="mt-1 pl-3 text-xs text-gray-400 truncate" title={record.files.join('\n')}>
+                  {record.files.length} other file{record.files.length !== 1 ? 's' : ''}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </aside>
+    </>
+  )
+}
@@ -0,0 +1,213 @@
+/**
+ * PublishPreview - Drawer showing what a publish would commit
+ *
+ * Opened from PublishButton. Lists unpublished changes from GET /api/publish
+ * by page, each microtext field with a word-level diff of its committed and
+ * current value. Pages and fields can be ticked to publish just those; a
+ * page ticked whole also publishes its other changes (body, frontmatter).
+ */
+
+import { useState, useEffect } from 'react'
+import { diffWords } from '../lib/text-merge'
+import type { FieldChange, FileChange, PublishSelection } from '../lib/publish-changes'
+
+interface Props {
+  publishing: boolean
+  /** Called with the ticked pages and fields, or nothing to publish everything */
+  onPublish: (selection?: PublishSelection) => void
+  onClose: () => void
+}
+
+const fieldKey = (change: { page: string; locale?: string; id: string }) =>
+  `${change.page}|${change.locale || ''}|${change.id}`
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+function Diff({ before, after }: { before: string; after: string }) {
+  return (
+    <div className="text-sm text-gray-800 whitespace-pre-wrap break-words">
+      {diffWords(before, after).map((part, i) =>
+        part.type === 'added' ? (
+          <ins key={i} className="bg-green-100 text-green-800 no-underline">{part.text}</ins>
+        ) : part.type === 'removed' ? (
+          <del key={i} className="bg-red-100 text-red-700">{part.text}</del>
+        ) : (
+          <span key={i}>{part.text}</span>
+        )
+      )}
+    </div>
+  )
+}
+
+export default function PublishPreview({ publishing, onPublish, onClose }: Props) {
+  const [files, setFiles] = useState<FileChange[] | null>(null)
+  const [fields, setFields] = useState<FieldChange[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [pages, setPages] = useState<Set<string>>(new Set())
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+
+  useEffect(() => {
+    fetch('/api/publish')
+      .then(res => res.json())
+      .then((data) => {
+        if (data.error) {
+          setError(data.error)
+          return
+        }
+        setFiles(data.files)
+        setFields(data.fields)
+        // Everything starts ticked
+        setPages(new Set(data.files.filter((f: FileChange) => f.page).map((f: FileChange) => f.page)))
+        setSelected(new Set(data.fields.map(fieldKey)))
+      })
+      .catch(() => setError('Network error'))
+  }, [])
+
+  const pageFiles = (files || []).filter(f => f.page)
+  const otherFiles = (files || []).filter(f => !f.page)
+
+  const togglePage = (page: string) => {
+    const on = !pages.has(page)
+    const keys = fields.filter(f => f.page === page).map(fieldKey)
+    setPages((prev) => {
+      const next = new Set(prev)
+      if (on) next.add(page)
+      else next.delete(page)
+      return next
+    })
+    setSelected((prev) => {
+      const next = new Set(prev)
+      keys.forEach(key => on ? next.add(key) : next.delete(key))
+      return next
+    })
+  }
+
+  // Unticking a field leaves its page partly published
+  const toggleField = (change: FieldChange) => {
+    const key = fieldKey(change)
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+    setPages((prev) => {
+      const next = new Set(prev)
+      next.delete(change.page)
+      return next
+    })
+  }
+
+  const selection: PublishSelection = {
+    pages: [...pages],
+    fields: fields
+      .filter(f => !pages.has(f.page) && selected.has(fieldKey(f)))
+      .map(({ page, locale, id }) => ({ page, locale, id })),
+  }
+  const selectedCount = selection.pages!.length + selection.fields!.length
+  const everything = !!files && pageFiles.every(f => pages.has(f.page!))
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/20 z-40" onClick={onClose} />
+
+      <aside className="fixed top-0 right-0 bottom-0 z-50 w-full max-w-md bg-white shadow-2xl flex flex-col">
+        <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-gray-800">Unpublished changes</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700 text-lg leading-none" title="Close">
+            ×
+          </button>
+        </div>
+
+        {error && (
+          <div className="px-4 py-2 bg-red-50 text-red-600 text-xs border-b border-red-100">{error}</div>
+        )}
+
+        <div className="flex-1 overflow-y-auto">
+          {!files && !error && <div className="p-4 text-sm text-gray-400">Loading...</div>}
+
+          {pageFiles.map((file) => {
+            const page = file.page!
+            const changes = fields.filter(f => f.page === page)
+            return (
+              <section key={file.file} className="border-b border-gray-100">
+                <label className="px-4 py-2 bg-gray-50 flex items-center gap-2 text-sm font-medium text-gray-800">
+                  <input type="checkbox" checked={pages.has(page)} onChange={() => togglePage(page)} />
+                  {page}
+                  <span className="text-xs font-normal text-gray-400">{file.file}</span>
+                  {file.status !== 'modified' && (
+                    <span className="ml-auto text-xs font-normal text-blue-600">{file.status}</span>
+                  )}
+                </label>
+
+                {file.other && (
+                  <div className="px-4 pt-2 pl-10 text-xs text-amber-700">
+                    Also changed: {file.other.join(', ')} (published with the whole page)
+                  </div>
+                )}
+
+                <ul className="divide-y divide-gray-50">
+                  {changes.map(change => (
+                    <li key={fieldKey(change)} className="px-4 py-2 pl-10">
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(fieldKey(change))}
+                          onChange={() => toggleField(change)}
+                        />
+                        <code className="bg-gray-100 px-1.5 py-0.5 rounded text-xs text-gray-700 truncate">{change.id}</code>
+                        <span className="text-xs uppercase text-gray-400">{change.locale}</span>
+                        {change.old === null && <span className="text-xs text-blue-600">new</span>}
+                        {change.new === null && <span className="text-xs text-red-600">removed</span>}
+                      </label>
+                      <div className="mt-1 pl-6">
+                        <Diff before={formatValue(change.old)} after={formatValue(change.new)} />
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )
+          })}
+
+          {otherFiles.length > 0 && (
+            <section className="px-4 py-2">
+              <div className="text-xs font-medium text-gray-500">Other files</div>
+              <ul className="mt-1 text-xs text-gray-600 space-y-0.5">
+                {otherFiles.map(file => (
+                  <li key={file.file}>
+                    <span className="font-mono">{file.file}</span>{' '}
+                    <span className="text-gray-400">{file.status}</span>
+                  </li>
+                ))}
+              </ul>
+              <div className="mt-1 text-xs text-gray-400">
+                Published with everything, or with the pages and fields that use them.
+              </div>
+            </section>
+          )}
+        </div>
+
+        <div className="px-4 py-3 border-t border-gray-200 bg-gray-50 flex items-center gap-2">
+          <button
+            onClick={() => onPublish()}
+            disabled={publishing || !files}
+            className="px-3 py-1.5 text-sm text-green-700 hover:bg-green-50 rounded disabled:opacity-50"
+          >
+            Publish all
+          </button>
+          <button
+            onClick={() => onPublish(everything && otherFiles.length === 0 ? undefined : selection)}
+            disabled={publishing || selectedCount === 0}
+            className="ml-auto px-4 py-1.5 bg-green-500 text-white rounded text-sm font-medium hover:bg-green-600 disabled:opacity-50"
+          >
+            {publishing ? 'Publishing...' : 'Publish selected'}
+          </button>
+        </div>
+      </aside>
+    </>
+  )
+}
@@ -0,0 +1,121 @@
+/**
+ * RevisionHistory - Revision list for one microtext field
+ *
+ * Rendered inside the MicrotextEditor popover. Loads the field's history
+ * from /api/microtext-history and restores a revision via /api/microtext-revert.
+ */
+
+import { useState, useEffect } from 'react'
+
+interface Revision {
+  id: string
+  fieldId: string
+  oldValue: unknown
+  newValue: unknown
+  author: string
+  source: string
+  timestamp: string
+}
+
+interface Props {
+  pageSlug: string
+  id: string
+  locale: string
+  /** Omit for read-only viewers: no Restore buttons */
+  onRestore?: (value: string, version: string) => void
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  'inline-editor': 'Editor',
+  'ai-edit': 'AI edit',
+  'array-op': 'List change',
+  mcp: 'MCP',
+  revert: 'Revert',
+  'search-replace': 'Find & replace',
+  prune: 'Cleanup',
+  rollback: 'Publish rollback',
+  scheduled: 'Scheduled publish',
+}
+
+function formatTime(timestamp: string): string {
+  const date = new Date(timestamp)
+  return date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+}
+
+export default function RevisionHistory({ pageSlug, id, locale, onRestore }: Props) {
+  const [revisions, setRevisions] = useState<Revision[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [restoring, setRestoring] = useState<string | null>(null)
+
+  useEffect(() => {
+    const params = new URLSearchParams({ pageSlug, id, locale })
+    fetch(`/api/microtext-history?${params}`)
+      .then(res => res.json())
+      .then(data => data.error ? setError(data.error) : setRevisions(data.revisions))
+      .catch(() => setError('Network error'))
+  }, [pageSlug, id, locale])
+
+  const restore = async (revision: Revision) => {
+    setRestoring(revision.id)
+    setError(null)
+    try {
+      const res = await fetch('/api/microtext-revert', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pageSlug, revisionId: revision.id })
+      })
+      const data = await res.json()
+
+      if (res.ok) {
+        const restored = data.restored.find((r: { id: string; locale: string }) => r.id === id && r.locale === locale)
+        onRestore?.(String(restored?.value ?? revision.newValue), restored?.version)
+      } else {
+        setError(data.error || 'Restore failed')
+      }
+    } catch (err) {
+      setError('Network error')
+    } finally {
+      setRestoring(null)
+    }
+  }
+
+  if (error) {
+    return <div className="px-3 py-2 text-sm text-red-600">{error}</div>
+  }
+
+  if (!revisions) {
+    return <div className="px-3 py-2 text-sm text-gray-400">Loading history...</div>
+  }
+
+  if (revisions.length === 0) {
+    return <div className="px-3 py-2 text-sm text-gray-400">No saved revisions yet</div>
+  }
+
+  return (
+    <ul className="max-h-60 overflow-y-auto divide-y divide-gray-100">
+      {revisions.map((revision, i) => (
+        <li key={revision.id} className="px-3 py-2 text-sm flex items-start gap-2">
+          <div className="flex-1 min-w-0">
+            <div className="text-gray-800 truncate" title={String(revision.newValue)}>
+              {String(revision.newValue ?? '')}
+            </div>
+            <div className="text-xs text-gray-400">
+              {formatTime(revision.timestamp)} · {revision.author} · {SOURCE_LABELS[revision.source] || revision.source}
+            </div>
+          </div>
+          {i === 0 ? (
+            <span className="text-xs text-gray-400">Current</span>
+          ) : onRestore && (
+            <button
+              onClick={() => restore(revision)}
+              disabled={restoring !== null}
+              className="text-xs text-blue-600 hover:underline disabled:opacity-50"
+            >
+              {restoring === revision.id ? 'Restoring...' : 'Restore'}
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,212 @@
+/**
+ * ScheduledPublishes - Drawer listing scheduled publishes
+ *
+ * Opened from PublishButton. Loads /api/publish-schedule: what is set to
+ * go live when, and by whom, plus the latest published and any that
+ * failed (a field edited after it was scheduled). A schedule can be moved
+ * to another time, a failed one retried, or cancelled, which puts its
+ * changes back as drafts in this browser.
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { draftScope, loadDrafts, saveDraft } from '../lib/microtext-store'
+import type { Schedule } from '../lib/publish-schedule'
+
+interface Props {
+  onClose: () => void
+}
+
+/** Changes shown per schedule before "+N more" */
+const MAX_CHANGES = 4
+
+function formatTime(timestamp: string): string {
+  const date = new Date(timestamp)
+  return date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+}
+
+// Value for a datetime-local input, in local time
+function toInputValue(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000)
+  return local.toISOString().slice(0, 16)
+}
+
+const STATUS_STYLES: Record<Schedule['status'], string> = {
+  pending: 'bg-blue-100 text-blue-700',
+  published: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+}
+
+export default function ScheduledPublishes({ onClose }: Props) {
+  const [schedules, setSchedules] = useState<Schedule[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState<string | null>(null)
+  // Schedule being moved, and the time picked for it
+  const [moving, setMoving] = useState<{ id: string; publishAt: string } | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/publish-schedule')
+      const data = await res.json()
+      if (data.error) setError(data.error)
+      else setSchedules(data.schedules)
+    } catch (err) {
+      setError('Network error')
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+    window.addEventListener('publish-schedule-changed', load)
+    return () => window.removeEventListener('publish-schedule-changed', load)
+  }, [load])
+
+  const update = async (body: { action: 'reschedule' | 'cancel'; id: string; publishAt?: string }) => {
+    setBusy(body.id)
+    setError(null)
+    try {
+      const res = await fetch('/api/publish-schedule', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'Update failed')
+        return null
+      }
+      setMoving(null)
+      window.dispatchEvent(new CustomEvent('publish-schedule-changed'))
+      return data.schedule as Schedule
+    } catch (err) {
+      setError('Network error')
+      return null
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const cancel = async (schedule: Schedule) => {
+    if (!window.confirm(`Cancel this publish? Its ${schedule.changes.length} change(s) go back to being drafts.`)) return
+    const cancelled = await update({ action: 'cancel', id: schedule.id })
+    if (!cancelled) return
+
+    await loadDrafts()
+    for (const change of cancelled.changes) {
+      saveDraft(draftScope(change.pageSlug, change.locale), change.id, change.value, change.baseVersion)
+    }
+  }
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/20 z-40" onClick={onClose} />
+
+      <aside className="fixed top-0 right-0 bottom-0 z-50 w-full max-w-md bg-white shadow-2xl flex flex-col">
+        <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-gray-800">Scheduled publishes</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700 text-lg leading-none" title="Close">
+            ×
+          </button>
+        </div>
+
+        {error && (
+          <div className="px-4 py-2 bg-red-50 text-red-600 text-xs border-b border-red-100">{error}</div>
+        )}
+
+        <ul className="flex-1 overflow-y-auto divide-y divide-gray-100">
+          {!schedules && !error && <li className="p-4 text-sm text-gray-400">Loading...</li>}
+          {schedules?.length === 0 && (
+            <li className="p-4 text-sm text-gray-400">Nothing scheduled. Schedule drafts from their Review.</li>
+          )}
+
+          {schedules?.map(schedule => (
+            <li key={schedule.id} className="px-4 py-3">
+              <div className="flex items-start gap-2">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-gray-800">
+                    {formatTime(schedule.status === 'published' && schedule.publishedAt ? schedule.publishedAt : schedule.publishAt)}
+                    <span className={`ml-2 px-1.5 py-0.5 rounded text-xs ${STATUS_STYLES[schedule.status]}`}>
+                      {schedule.status}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-400 truncate" title={schedule.message}>
+                    {schedule.createdBy}
+                    {schedule.message && ` · ${schedule.message}`}
+                    {schedule.commit && <> · <code>{schedule.commit.slice(0, 7)}</code></>}
+                  </div>
+                </div>
+
+                {schedule.status !== 'published' && (
+                  <div className="flex gap-2 text-xs whitespace-nowrap">
+                    {schedule.status === 'failed' && (
+                      <button
+                        onClick={() => update({ action: 'reschedule', id: schedule.id, publishAt: new Date().toISOString() })}
+                        disabled={!!busy}
+                        className="text-green-700 hover:underline disabled:text-gray-300 disabled:no-underline"
+                        title="Publish now, over the fields as they are"
+                      >
+                        Retry now
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setMoving({ id: schedule.id, publishAt: toInputValue(new Date(schedule.publishAt)) })}
+                      disabled={!!busy}
+                      className="text-blue-600 hover:underline disabled:text-gray-300 disabled:no-underline"
+                    >
+                      Move
+                    </button>
+                    <button
+                      onClick={() => cancel(schedule)}
+                      disabled={!!busy}
+                      className="text-red-600 hover:underline disabled:text-gray-300 disabled:no-underline"
+                    >
+                      {busy === schedule.id ? '...' : 'Cancel'}
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {schedule.error && <div className="mt-1 text-xs text-red-600">{schedule.error}</div>}
+
+              {moving?.id === schedule.id && (
+                <div className="mt-2 flex items-center gap-2">
+                  <input
+                    type="datetime-local"
+                    value={moving.publishAt}
+                    onChange={e => setMoving({ id: schedule.id, publishAt: e.target.value })}
+                    className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm"
+                  />
+                  <button
+                    onClick={() => update({ action: 'reschedule', id: schedule.id, publishAt: new Date(moving.publishAt).toISOString() })}
+                    disabled={!!busy || !moving.publishAt}
+                    className="px-2 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                  <button onClick={() => setMoving(null)} className="text-xs text-gray-500 hover:text-gray-800">
+                    Keep
+                  </button>
+                </div>
+              )}
+
+              <ul className="mt-2 pl-3 border-l-2 border-gray-100 space-y-0.5">
+                {schedule.changes.slice(0, MAX_CHANGES).map(change => (
+                  <li key={`${change.pageSlug}|${change.locale}|${change.id}`} className="text-xs text-gray-600 truncate">
+                    <span className="text-gray-400">{change.pageSlug} · </span>
+                    <code className="bg-gray-100 px-1 rounded">{change.id}</code>
+                    {schedule.changes.some(c => c.locale !== change.locale) && (
+                      <span className="ml-1 uppercase text-gray-400">{change.locale}</span>
+                    )}
+                    : {change.value}
+                  </li>
+                ))}
+                {schedule.changes.length > MAX_CHANGES && (
+                  <li className="text-xs text-gray-400">+{schedule.changes.length - MAX_CHANGES} more</li>
+                )}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      </aside>
+    </>
+  )
+}
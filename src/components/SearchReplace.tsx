@@ -0,0 +1,276 @@
+/**
+ * SearchReplace - Find and replace microtext across all pages
+ *
+ * Searches through /api/microtext-search, previews every match with its
+ * page and id, and applies the checked replacements as one
+ * /api/microtext-batch write. Results carry the version each value had when
+ * searched, so anything edited since comes back as a conflict instead of
+ * being overwritten.
+ */
+
+import { useState, type ReactNode } from 'react'
+import type { SearchMatch, SearchResult } from '../lib/microtext-search'
+import { DEFAULT_LOCALE, localizePath } from '../lib/locales'
+
+interface Props {
+  /** Reviewers can search but not replace */
+  canEdit: boolean
+}
+
+interface Status {
+  success: boolean
+  message: string
+}
+
+const resultKey = (result: SearchResult) => `${result.pageSlug}@${result.locale}:${result.id}`
+
+function Highlighted({ value, matches }: { value: string; matches: SearchMatch[] }) {
+  const parts: ReactNode[] = []
+  let last = 0
+  matches.forEach((match, index) => {
+    parts.push(<span key={`t${index}`}>{value.slice(last, match.start)}</span>)
+    parts.push(<mark key={`m${index}`} className="bg-yellow-200 rounded-sm">{value.slice(match.start, match.end)}</mark>)
+    last = match.end
+  })
+  parts.push(<span key="rest">{value.slice(last)}</span>)
+  return <>{parts}</>
+}
+
+export default function SearchReplace({ canEdit }: Props) {
+  const [query, setQuery] = useState('')
+  const [replacement, setReplacement] = useState('')
+  const [regex, setRegex] = useState(false)
+  const [caseSensitive, setCaseSensitive] = useState(false)
+  const [results, setResults] = useState<SearchResult[] | null>(null)
+  const [truncated, setTruncated] = useState(false)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState<Status | null>(null)
+
+  const search = async (keepStatus = false) => {
+    if (!query) return
+    setBusy(true)
+    if (!keepStatus) setStatus(null)
+
+    try {
+      const response = await fetch('/api/microtext-search', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          query,
+          regex,
+          caseSensitive,
+          replacement: canEdit ? replacement : undefined,
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setResults(null)
+        setStatus({ success: false, message: data.error || 'Search failed' })
+        return
+      }
+
+      setResults(data.results)
+      setTruncated(data.truncated)
+      setSelected(new Set(
+        (data.results as SearchResult[])
+          .filter(r => r.newValue !== undefined && r.newValue !== r.value)
+          .map(resultKey)
+      ))
+    } catch {
+      setStatus({ success: false, message: 'Network error - could not search' })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const toggle = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+
+  const applyReplacements = async () => {
+    const chosen = (results || []).filter(r => selected.has(resultKey(r)) && r.newValue !== undefined)
+    if (chosen.length === 0) return
+    if (!confirm(`Replace text in ${chosen.length} field${chosen.length !== 1 ? 's' : ''}?`)) return
+
+    // One batch entry per page and locale
+    const pages = new Map<string, { pageSlug: string; locale: string; edits: { id: string; value: string; baseVersion: string }[] }>()
+    for (const result of chosen) {
+      const key = `${result.pageSlug}@${result.locale}`
+      const entry = pages.get(key) || { pageSlug: result.pageSlug, locale: result.locale, edits: [] }
+      entry.edits.push({ id: result.id, value: result.newValue!, baseVersion: result.version })
+      pages.set(key, entry)
+    }
+
+    setBusy(true)
+    setStatus(null)
+
+    try {
+      const response = await fetch('/api/microtext-batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          pages: [...pages.values()],
+          source: 'search-replace',
+        }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setStatus({
+          success: true,
+          message: `Replaced text in ${chosen.length} field${chosen.length !== 1 ? 's' : ''}`,
+        })
+        await search(true)
+        return
+      }
+
+      const failed = (data.results || [])
+        .filter((r: { status: string }) => r.status === 'conflict' || r.status === 'invalid')
+        .map((r: { pageSlug: string; id: string; error?: string }) => `${r.pageSlug} · ${r.id}: ${r.error}`)
+      setStatus({
+        success: false,
+        message: response.status === 409
+          ? `Nothing replaced. Changed since the search: ${failed.join('; ')}. Search again to refresh.`
+          : `Nothing replaced. ${failed.join('; ') || data.error || 'Replace failed'}`,
+      })
+    } catch {
+      setStatus({ success: false, message: 'Network error - could not replace' })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const byPage = new Map<string, SearchResult[]>()
+  for (const result of results || []) {
+    byPage.set(result.pageSlug, [...(byPage.get(result.pageSlug) || []), result])
+  }
+  const selectedCount = (results || []).filter(r => selected.has(resultKey(r))).length
+
+  return (
+    <div className="space-y-6">
+      <form
+        onSubmit={(e) => { e.preventDefault(); search() }}
+        className="bg-white border border-gray-200 rounded-xl shadow-sm p-4 space-y-3"
+      >
+        <div className="flex gap-2">
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={regex ? 'Regular expression' : 'Find'}
+            className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg font-mono focus:outline-none focus:border-blue-500"
+            autoFocus
+          />
+          <button
+            type="submit"
+            disabled={busy || !query}
+            className="px-4 py-2 text-sm font-medium bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+          >
+            Search
+          </button>
+        </div>
+
+        {canEdit && (
+          <input
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            placeholder={regex ? 'Replace with ($1 for groups)' : 'Replace with'}
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg font-mono focus:outline-none focus:border-blue-500"
+          />
+        )}
+
+        <div className="flex gap-4 text-sm text-gray-600">
+          <label className="flex items-center gap-1.5">
+            <input type="checkbox" checked={regex} onChange={(e) => setRegex(e.target.checked)} />
+            Regular expression
+          </label>
+          <label className="flex items-center gap-1.5">
+            <input type="checkbox" checked={caseSensitive} onChange={(e) => setCaseSensitive(e.target.checked)} />
+            Match case
+          </label>
+        </div>
+      </form>
+
+      {status && (
+        <div className={`p-3 text-sm rounded-lg border ${status.success ? 'bg-green-50 text-green-700 border-green-200' : 'bg-red-50 text-red-600 border-red-100'}`}>
+          {status.message}
+        </div>
+      )}
+
+      {results && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between text-sm text-gray-600">
+            <span>
+              {results.length} field{results.length !== 1 ? 's' : ''} on {byPage.size} page{byPage.size !== 1 ? 's' : ''}
+              {truncated && ' (showing the first results only)'}
+            </span>
+            {canEdit && results.some(r => r.newValue !== undefined) && (
+              <button
+                onClick={applyReplacements}
+                disabled={busy || selectedCount === 0}
+                className="px-4 py-2 text-sm font-medium bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50"
+              >
+                Replace selected ({selectedCount})
+              </button>
+            )}
+          </div>
+
+          {[...byPage].map(([pageSlug, pageResults]) => (
+            <section key={pageSlug} className="bg-white border border-gray-200 rounded-xl shadow-sm overflow-hidden">
+              <h2 className="px-4 py-2 text-sm font-semibold bg-gray-50 border-b border-gray-200">
+                <a href={`/${pageSlug === 'index' ? '' : pageSlug}?edit`} className="hover:underline">{pageSlug}</a>
+              </h2>
+              <ul className="divide-y divide-gray-100">
+                {pageResults.map(result => {
+                  const key = resultKey(result)
+                  const changes = result.newValue !== undefined && result.newValue !== result.value
+                  return (
+                    <li key={key} className="px-4 py-3 flex gap-3 text-sm">
+                      {canEdit && result.newValue !== undefined && (
+                        <input
+                          type="checkbox"
+                          checked={selected.has(key)}
+                          disabled={!changes}
+                          onChange={() => toggle(key)}
+                          className="mt-1"
+                          aria-label={`Replace in ${result.id}`}
+                        />
+                      )}
+                      <div className="flex-1 min-w-0 space-y-1">
+                        <div className="font-mono text-xs text-gray-500">
+                          {result.id}
+                          {result.locale !== DEFAULT_LOCALE && (
+                            <a
+                              href={`${localizePath(`/${pageSlug === 'index' ? '' : pageSlug}`, result.locale)}?edit`}
+                              className="ml-2 px-1.5 py-0.5 bg-gray-100 rounded uppercase hover:underline"
+                            >
+                              {result.locale}
+                            </a>
+                          )}
+                        </div>
+                        <div className="whitespace-pre-wrap break-words">
+                          <Highlighted value={result.value} matches={result.matches} />
+                        </div>
+                        {changes && (
+                          <div className="whitespace-pre-wrap break-words text-green-700">
+                            → {result.newValue}
+                          </div>
+                        )}
+                      </div>
+                    </li>
+                  )
+                })}
+              </ul>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,47 +1,62 @@
 /**
- * SyncButton - Syncs localStorage drafts to server
+ * SyncButton - Syncs browser drafts to server
  *
- * Shows pending draft count and syncs on click.
- * Listens for draft changes to update count.
+ * Shows pending draft count and syncs on click; "Review" opens
+ * DraftReview to see each draft's changes and sync only some of them,
+ * share them as a preview link, or schedule them to be published later.
+ * Listens for draft changes (in this tab or another) to update count.
  */
 
 import { useState, useEffect, useCallback } from 'react'
-import { getPageDrafts, syncDraftsToServer } from '../lib/microtext-store'
+import { draftScope, getPageDrafts, loadDrafts, scheduleDrafts, shareDrafts, syncDraftsToServer } from '../lib/microtext-store'
+import DraftReview from './DraftReview'
 
 interface Props {
   pageSlug: string
+  /** Sync the drafts for this locale */
+  locale?: string
+  /** Whether drafts can be scheduled for publishing (publishers) */
+  canSchedule?: boolean
 }
 
-export default function SyncButton({ pageSlug }: Props) {
+export default function SyncButton({ pageSlug: page, locale, canSchedule = false }: Props) {
+  const pageSlug = draftScope(page, locale)
   const [draftCount, setDraftCount] = useState(0)
   const [syncing, setSyncing] = useState(false)
   const [result, setResult] = useState<{ success: boolean; message: string } | null>(null)
+  const [reviewing, setReviewing] = useState(false)
 
   const updateCount = useCallback(() => {
     const drafts = getPageDrafts(pageSlug)
     setDraftCount(Object.keys(drafts).length)
+    if (Object.keys(drafts).length === 0) setReviewing(false)
   }, [pageSlug])
 
   useEffect(() => {
-    updateCount()
+    loadDrafts().then(updateCount)
 
     // Listen for draft changes
     const handleDraftSaved = () => updateCount()
     window.addEventListener('microtext-draft-saved', handleDraftSaved)
+    window.addEventListener('microtext-draft-cleared', handleDraftSaved)
+    window.addEventListener('microtext-saved', handleDraftSaved)
 
     return () => {
       window.removeEventListener('microtext-draft-saved', handleDraftSaved)
+      window.removeEventListener('microtext-draft-cleared', handleDraftSaved)
+      window.removeEventListener('microtext-saved', handleDraftSaved)
     }
   }, [updateCount])
 
-  const handleSync = async () => {
+  // Sync every draft, or only the given ones
+  const handleSync = async (ids?: string[]) => {
     if (draftCount === 0) return
 
     setSyncing(true)
     setResult(null)
 
     try {
-      const res = await syncDraftsToServer(pageSlug)
+      const res = await syncDraftsToServer(pageSlug, ids)
 
       if (res.success) {
         setResult({
@@ -51,11 +66,20 @@ export default function SyncButton({ pageSlug }: Props) {
         updateCount()
         // Clear result after 3 seconds
         setTimeout(() => setResult(null), 3000)
+      } else if (res.conflicts.length > 0) {
+        // Sync is all-or-nothing; the editor flags conflicting fields for resolution
+        const conflicted = res.conflicts.map(c => c.id).join(', ')
+        setResult({
+          success: false,
+          message: `Nothing synced. Changed on server since your edit: ${conflicted}. Click the highlighted text to resolve.`
+        })
+        updateCount()
       } else {
         setResult({
           success: false,
           message: res.errors.join(', ')
         })
+        updateCount()
       }
     } catch (err) {
       setResult({
@@ -67,41 +91,106 @@ export default function SyncButton({ pageSlug }: Props) {
     }
   }
 
+  const handleSchedule = async (ids: string[], publishAt: Date) => {
+    setSyncing(true)
+    setResult(null)
+
+    const res = await scheduleDrafts(pageSlug, ids, publishAt)
+    setSyncing(false)
+    updateCount()
+
+    if (res.success) {
+      setResult({
+        success: true,
+        message: `Scheduled ${ids.length} edit${ids.length !== 1 ? 's' : ''} for ${publishAt.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}`
+      })
+      setReviewing(false)
+      setTimeout(() => setResult(null), 3000)
+    } else {
+      setResult({ success: false, message: res.error || 'Scheduling failed' })
+    }
+  }
+
+  const handleShare = async (ids: string[]) => {
+    const name = window.prompt('Name this preview', `${page} (${ids.length} draft${ids.length !== 1 ? 's' : ''})`)
+    if (!name) return
+
+    setSyncing(true)
+    setResult(null)
+    const res = await shareDrafts(pageSlug, ids, name)
+    setSyncing(false)
+
+    if (!res.success) {
+      setResult({ success: false, message: res.error || 'Sharing failed' })
+      return
+    }
+
+    const copied = await navigator.clipboard?.writeText(res.url!).then(() => true, () => false)
+    const expires = new Date(res.expiresAt!).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+    setResult({
+      success: true,
+      message: `${copied ? 'Preview link copied' : 'Preview link'} (until ${expires}): ${res.url}`
+    })
+    setReviewing(false)
+    setTimeout(() => setResult(null), 15000)
+  }
+
   if (draftCount === 0 && !result) {
     return null
   }
 
   return (
-    <div className="fixed bottom-20 left-4 z-40 flex flex-col gap-2">
-      {result && (
-        <div className={`px-4 py-2 rounded-lg text-sm font-medium shadow-lg ${
-          result.success
-            ? 'bg-green-500 text-white'
-            : 'bg-red-500 text-white'
-        }`}>
-          {result.message}
-        </div>
+    <>
+      {reviewing && (
+        <DraftReview
+          pageSlug={pageSlug}
+          syncing={syncing}
+          onSync={handleSync}
+          onShare={handleShare}
+          onSchedule={canSchedule ? handleSchedule : undefined}
+          onClose={() => setReviewing(false)}
+        />
       )}
 
-      {draftCount > 0 && (
-        <button
-          onClick={handleSync}
-          disabled={syncing}
-          className="flex items-center gap-2 px-4 py-2 bg-yellow-500 text-white rounded-full shadow-lg hover:bg-yellow-600 transition-colors disabled:opacity-50 text-sm font-medium"
-        >
-          {syncing ? (
-            <>
-              <span className="animate-spin">↻</span>
-              Syncing...
-            </>
-          ) : (
-            <>
-              <span>↑</span>
-              Save {draftCount} draft{draftCount !== 1 ? 's' : ''} to server
-            </>
-          )}
-        </button>
-      )}
-    </div>
+      <div className="fixed bottom-20 left-4 z-40 flex flex-col gap-2">
+        {result && (
+          <div className={`max-w-md break-words px-4 py-2 rounded-lg text-sm font-medium shadow-lg ${
+            result.success
+              ? 'bg-green-500 text-white'
+              : 'bg-red-500 text-white'
+          }`}>
+            {result.message}
+          </div>
+        )}
+
+        {draftCount > 0 && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => handleSync()}
+              disabled={syncing}
+              className="flex items-center gap-2 px-4 py-2 bg-yellow-500 text-white rounded-full shadow-lg hover:bg-yellow-600 transition-colors disabled:opacity-50 text-sm font-medium"
+            >
+              {syncing ? (
+                <>
+                  <span className="animate-spin">↻</span>
+                  Syncing...
+                </>
+              ) : (
+                <>
+                  <span>↑</span>
+                  Save {draftCount} draft{draftCount !== 1 ? 's' : ''} to server
+                </>
+              )}
+            </button>
+            <button
+              onClick={() => setReviewing(true)}
+              className="px-3 py-2 bg-white text-yellow-700 border border-yellow-300 rounded-full shadow-lg hover:bg-yellow-50 text-sm font-medium"
+            >
+              Review
+            </button>
+          </div>
+        )}
+      </div>
+    </>
   )
 }
@@ -0,0 +1,14 @@
+/// <reference types="astro/client" />
+
+declare namespace App {
+  interface Locals {
+    /** Signed-in user, resolved by src/middleware.ts */
+    user: import('./lib/auth').SessionUser | null
+    /** Whether the user was signed in by an API token rather than a session cookie */
+    apiToken: boolean
+    /** Locale from the URL prefix (/es/...), see src/lib/locales.ts */
+    locale: string
+    /** Draft set shown through a preview link (?preview=), see src/lib/draft-sets.ts */
+    preview: import('./lib/draft-sets').Preview | null
+  }
+}
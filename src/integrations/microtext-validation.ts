@@ -0,0 +1,101 @@
+/**
+ * Microtext Validation (Astro integration)
+ *
+ * Checks every page's microtext when `astro build` starts, and fails the
+ * build with a `file:line` report instead of shipping "[missing: id]":
+ *
+ * - every MicroText id resolves in the page's frontmatter (lib/microtext-scan)
+ * - used ids hold text, or an image for MicroImage
+ * - values, translations included, meet the page's microtext schema
+ *
+ * Orphaned keys only warn by default.
+ *
+ * Usage (astro.config.mjs):
+ *   integrations: [microtextValidation({ orphans: 'error' })]
+ */
+
+import path from 'path'
+import type { AstroIntegration } from 'astro'
+import { flattenMicrotext, listPages, loadPageSchema, readPage } from '../lib/microtext-file'
+import { validateMicrotext, validateValue, type Violation } from '../lib/microtext-schema'
+import { formatIssues, frontmatterLines, scanPage } from '../lib/microtext-scan'
+import { DEFAULT_LOCALE, LOCALES, microtextKey } from '../lib/locales'
+
+export interface MicrotextValidationOptions {
+  /** How to treat keys no component uses (default: warn) */
+  orphans?: 'error' | 'warn' | 'off'
+}
+
+/**
+ * Line of a violation: the key itself, or the nearest parent found
+ */
+function violationLine(lookup: ReturnType<typeof frontmatterLines>, id: string, locale: string): number | undefined {
+  const parts = id.split('.')
+  for (let depth = parts.length; depth > 0; depth--) {
+    const line = lookup(parts.slice(0, depth).join('.'), locale)
+    if (line) return line
+  }
+  return undefined
+}
+
+/**
+ * Problems on one page as report lines
+ */
+async function checkPage(slug: string, filePath: string, orphans: MicrotextValidationOptions['orphans']) {
+  const page = await readPage(slug, filePath)
+  const scan = await scanPage(page)
+  const schema = await loadPageSchema(page.frontmatter)
+  const keyLine = frontmatterLines(page.raw)
+  const file = path.relative(process.cwd(), filePath)
+
+  const errors = formatIssues({
+    ...scan,
+    issues: scan.issues.filter(issue => issue.kind !== 'orphaned' || orphans === 'error'),
+  })
+  const warnings = orphans === 'warn'
+    ? formatIssues({ ...scan, issues: scan.issues.filter(issue => issue.kind === 'orphaned') })
+    : []
+
+  // Schema constraints; translations only for the fields they have
+  const report = (violations: Violation[], locale: string) => {
+    for (const violation of violations) {
+      const line = violationLine(keyLine, violation.id, locale)
+      const tag = locale !== DEFAULT_LOCALE ? ` [${locale}]` : ''
+      errors.push(`${line ? `${file}:${line}` : file}  schema${tag}  ${violation.id}: ${violation.message}`)
+    }
+  }
+
+  report(validateMicrotext(schema, page.frontmatter.microtext || {}), DEFAULT_LOCALE)
+  for (const locale of LOCALES.filter(l => l !== DEFAULT_LOCALE)) {
+    const translated = flattenMicrotext(page.frontmatter[microtextKey(locale)] || {})
+    report(Object.entries(translated).flatMap(([id, value]) => validateValue(schema, id, value)), locale)
+  }
+
+  return { errors, warnings }
+}
+
+export default function microtextValidation(options: MicrotextValidationOptions = {}): AstroIntegration {
+  const orphans = options.orphans ?? 'warn'
+
+  return {
+    name: 'vibe-microtext-validation',
+    hooks: {
+      'astro:build:start': async ({ logger }) => {
+        const errors: string[] = []
+
+        for (const { slug, filePath } of await listPages()) {
+          const result = await checkPage(slug, filePath, orphans)
+          result.warnings.forEach(line => logger.warn(line))
+          errors.push(...result.errors)
+        }
+
+        if (errors.length > 0) {
+          errors.forEach(line => logger.error(line))
+          throw new Error(`Microtext validation failed with ${errors.length} problem(s); see the report above`)
+        }
+
+        logger.info('Microtext OK')
+      },
+    },
+  }
+}
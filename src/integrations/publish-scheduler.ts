@@ -0,0 +1,51 @@
+/**
+ * Publish Scheduler (Astro integration)
+ *
+ * Starts the publish scheduler (lib/publish-schedule.ts) with the server,
+ * not with its first request: the Node adapter only loads middleware and
+ * pages when a request comes in, so a restarted server with no visitors
+ * would otherwise never publish.
+ *
+ * - `astro build`: the server entry (dist/server/entry.mjs) imports and
+ *   starts it, in the same bundle as the routes that schedule
+ * - `astro dev`: it is loaded through Vite as the dev server starts
+ *
+ * Usage (astro.config.mjs):
+ *   integrations: [publishScheduler()]
+ */
+
+import { fileURLToPath } from 'url'
+import type { AstroIntegration } from 'astro'
+
+/** Astro's server entry module, as Vite resolves it */
+const SSR_ENTRY_ID = '\0@astrojs-ssr-virtual-entry'
+
+const SCHEDULE_MODULE = fileURLToPath(new URL('../lib/publish-schedule.ts', import.meta.url))
+
+export default function publishScheduler(): AstroIntegration {
+  return {
+    name: 'vibe-publish-scheduler',
+    hooks: {
+      'astro:build:setup': ({ vite, target }) => {
+        if (target !== 'server') return
+        vite.plugins ??= []
+        vite.plugins.push({
+          name: 'vibe-publish-scheduler',
+          transform(code, id) {
+            if (id !== SSR_ENTRY_ID) return
+            return `${code}\nimport { startScheduler } from ${JSON.stringify(SCHEDULE_MODULE)};\nstartScheduler();\n`
+          },
+        })
+      },
+      'astro:server:setup': async ({ server, logger }) => {
+        // Through Vite, so routes share this instance of the module
+        try {
+          const { startScheduler } = await server.ssrLoadModule(SCHEDULE_MODULE)
+          startScheduler()
+        } catch (error) {
+          logger.error(`Could not start the publish scheduler: ${error instanceof Error ? error.message : error}`)
+        }
+      },
+    },
+  }
+}
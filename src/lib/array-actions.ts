@@ -0,0 +1,159 @@
+/**
+ * Microtext Array Actions (client)
+ *
+ * Shared by the array UI components: posts actions to /api/microtext-array,
+ * carries drag-and-drop state between array items, and re-renders changed
+ * lists in place.
+ *
+ * Lists that can be refreshed in place are marked in MDX with the array path:
+ *
+ *   <div data-microtext-array="features"> ...items... </div>
+ */
+
+export type ArrayAction = 'add' | 'insert' | 'remove' | 'move' | 'duplicate' | 'transfer'
+
+export interface ArrayActionRequest {
+  pageSlug: string
+  arrayPath: string
+  action: ArrayAction
+  index?: number
+  from?: number
+  to?: number
+  toArrayPath?: string
+  toIndex?: number
+  template?: Record<string, unknown>
+  baseVersion?: string
+  toBaseVersion?: string
+}
+
+export interface ArrayActionResult {
+  ok: boolean
+  /** The list changed on the server since baseVersion */
+  conflict: boolean
+  error?: string
+  data?: any
+}
+
+/** Fired on window after sections are swapped in, so edit mode can bind the new nodes */
+export const SECTIONS_UPDATED_EVENT = 'microtext-sections-updated'
+
+/** MIME type used for dragged array items */
+export const DRAG_TYPE = 'application/x-vibe-array-item'
+
+export interface DragPayload {
+  pageSlug: string
+  arrayPath: string
+  index: number
+}
+
+/**
+ * Post an array action to the server
+ */
+export async function postArrayAction(request: ArrayActionRequest): Promise<ArrayActionResult> {
+  try {
+    const res = await fetch('/api/microtext-array', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request)
+    })
+    const data = await res.json()
+
+    return {
+      ok: res.ok,
+      conflict: res.status === 409,
+      error: res.ok ? undefined : data.error || 'Failed to modify list',
+      data
+    }
+  } catch (err) {
+    return { ok: false, conflict: false, error: 'Network error' }
+  }
+}
+
+/**
+ * Turn a drop of one array item onto another into a move or transfer
+ */
+export function dropAction(source: DragPayload, target: DragPayload): ArrayActionRequest | null {
+  if (source.pageSlug !== target.pageSlug) return null
+
+  if (source.arrayPath === target.arrayPath) {
+    if (source.index === target.index) return null
+    return {
+      pageSlug: source.pageSlug,
+      arrayPath: source.arrayPath,
+      action: 'move',
+      from: source.index,
+      to: target.index
+    }
+  }
+
+  return {
+    pageSlug: source.pageSlug,
+    arrayPath: source.arrayPath,
+    action: 'transfer',
+    index: source.index,
+    toArrayPath: target.arrayPath,
+    toIndex: target.index
+  }
+}
+
+/**
+ * Read the drag payload from a drag event, if it's one of ours
+ */
+export function readDragPayload(e: { dataTransfer: DataTransfer | null }): DragPayload | null {
+  const raw = e.dataTransfer?.getData(DRAG_TYPE)
+  if (!raw) return null
+  try {
+    return JSON.parse(raw) as DragPayload
+  } catch {
+    return null
+  }
+}
+
+function sectionSelector(arrayPath: string): string {
+  return `[data-microtext-array="${CSS.escape(arrayPath)}"]`
+}
+
+/**
+ * Re-render lists without reloading: fetch the current page from the server
+ * and swap each list's section for the fresh one. Islands inside hydrate on
+ * insert. Returns false (changing nothing) if a section isn't on the page.
+ */
+export async function refreshArraySections(arrayPaths: string[]): Promise<boolean> {
+  const paths = [...new Set(arrayPaths)]
+  if (paths.length === 0 || paths.some(path => !document.querySelector(sectionSelector(path)))) {
+    return false
+  }
+
+  try {
+    const res = await fetch(window.location.href, { cache: 'no-store', headers: { Accept: 'text/html' } })
+    if (!res.ok) return false
+    const fresh = new DOMParser().parseFromString(await res.text(), 'text/html')
+
+    const swaps = paths.map(path => ({
+      current: document.querySelector(sectionSelector(path)),
+      next: fresh.querySelector(sectionSelector(path)),
+    }))
+    if (swaps.some(({ current, next }) => !current || !next)) return false
+
+    for (const { current, next } of swaps) {
+      current!.replaceWith(document.importNode(next!, true))
+    }
+  } catch (err) {
+    console.error('Failed to refresh list:', err)
+    return false
+  }
+
+  window.dispatchEvent(new CustomEvent(SECTIONS_UPDATED_EVENT, { detail: { arrayPaths: paths } }))
+  return true
+}
+
+/**
+ * After an action (applied or rejected as stale), show the server's lists:
+ * in place when possible, by reloading otherwise
+ */
+export async function refreshAfterAction(request: ArrayActionRequest): Promise<void> {
+  const paths = [request.arrayPath, request.toArrayPath].filter((path): path is string => !!path)
+  if (!(await refreshArraySections(paths))) {
+    window.location.reload()
+  }
+}
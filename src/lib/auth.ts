@@ -0,0 +1,202 @@
+/**
+ * Authentication
+ *
+ * Local users with roles, signed session cookies and API tokens.
+ *
+ * Storage:
+ *   Users:  `.vibe/users.json` - [{ username, name, email?, role, passwordHash, tokenHash? }]
+ *   Secret: VIBE_SESSION_SECRET, or generated once into `.vibe/session-secret`
+ *
+ * Roles are ranked; each includes the ones below it:
+ *   reviewer  - sees edit mode and history, can't change anything
+ *   editor    - edits microtext
+ *   publisher - edits and publishes to git
+ *
+ * Manage users with `npm run users` (scripts/vibe-users.ts).
+ */
+
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import { promisify } from 'util'
+import { dataPath } from './data-dir'
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>
+
+export type Role = 'reviewer' | 'editor' | 'publisher'
+
+export const ROLES: Role[] = ['reviewer', 'editor', 'publisher']
+
+export const SESSION_COOKIE = 'vibe_session'
+
+/** Session lifetime in seconds */
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 7
+
+export interface StoredUser {
+  username: string
+  name: string
+  /** Used as the author email of the user's publishes */
+  email?: string
+  role: Role
+  passwordHash: string
+  tokenHash?: string
+}
+
+/** The signed-in user, as exposed to routes via Astro.locals.user */
+export interface SessionUser {
+  username: string
+  name: string
+  email?: string
+  role: Role
+}
+
+/**
+ * Whether a role includes the permissions of another
+ */
+export function hasRole(user: SessionUser | null | undefined, required: Role): boolean {
+  if (!user) return false
+  return ROLES.indexOf(user.role) >= ROLES.indexOf(required)
+}
+
+function toSessionUser(user: StoredUser): SessionUser {
+  return { username: user.username, name: user.name, ...(user.email && { email: user.email }), role: user.role }
+}
+
+// ---------------------------------------------------------------------------
+// User storage
+// ---------------------------------------------------------------------------
+
+export async function readUsers(): Promise<StoredUser[]> {
+  try {
+    const content = await fs.readFile(await dataPath('users.json'), 'utf-8')
+    return JSON.parse(content) as StoredUser[]
+  } catch {
+    return []
+  }
+}
+
+export async function writeUsers(users: StoredUser[]): Promise<void> {
+  await fs.writeFile(await dataPath('users.json'), JSON.stringify(users, null, 2), { encoding: 'utf-8', mode: 0o600 })
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString('hex')
+  const hash = await scrypt(password, salt, 64)
+  return `${salt}:${hash.toString('hex')}`
+}
+
+export async function verifyHash(secret: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(':')
+  if (!salt || !hash) return false
+  const candidate = await scrypt(secret, salt, 64)
+  const expected = Buffer.from(hash, 'hex')
+  return expected.length === candidate.length && crypto.timingSafeEqual(expected, candidate)
+}
+
+/**
+ * Check a username/password pair
+ */
+export async function authenticate(username: string, password: string): Promise<SessionUser | null> {
+  const user = (await readUsers()).find(u => u.username === username)
+  if (!user || !(await verifyHash(password, user.passwordHash))) return null
+  return toSessionUser(user)
+}
+
+/**
+ * Create (or replace) a user's API token. The token is only returned here;
+ * only its hash is stored.
+ */
+export async function issueApiToken(username: string): Promise<string> {
+  const users = await readUsers()
+  const user = users.find(u => u.username === username)
+  if (!user) throw new Error(`Unknown user: ${username}`)
+
+  const secret = crypto.randomBytes(24).toString('base64url')
+  user.tokenHash = await hashPassword(secret)
+  await writeUsers(users)
+  return `${username}.${secret}`
+}
+
+/**
+ * Resolve an API token ("username.secret") to its user
+ */
+export async function authenticateToken(token: string): Promise<SessionUser | null> {
+  const dot = token.indexOf('.')
+  if (dot === -1) return null
+
+  const username = token.slice(0, dot)
+  const user = (await readUsers()).find(u => u.username === username)
+  if (!user?.tokenHash || !(await verifyHash(token.slice(dot + 1), user.tokenHash))) return null
+  return toSessionUser(user)
+}
+
+// ---------------------------------------------------------------------------
+// Session cookies: base64url(JSON payload) + "." + HMAC signature
+// ---------------------------------------------------------------------------
+
+let secretPromise: Promise<string> | null = null
+
+function getSecret(): Promise<string> {
+  if (process.env.VIBE_SESSION_SECRET) return Promise.resolve(process.env.VIBE_SESSION_SECRET)
+
+  secretPromise ??= (async () => {
+    const file = await dataPath('session-secret')
+    try {
+      return (await fs.readFile(file, 'utf-8')).trim()
+    } catch {
+      const secret = crypto.randomBytes(32).toString('hex')
+      await fs.writeFile(file, secret, { encoding: 'utf-8', mode: 0o600 })
+      return secret
+    }
+  })()
+  return secretPromise
+}
+
+function sign(payload: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('base64url')
+}
+
+/**
+ * Create a signed session value for a user
+ */
+export async function createSession(user: SessionUser): Promise<string> {
+  const payload = Buffer.from(JSON.stringify({
+    u: user.username,
+    exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE,
+  })).toString('base64url')
+  return `${payload}.${sign(payload, await getSecret())}`
+}
+
+/**
+ * Verify a session value and load its (current) user
+ */
+export async function readSession(value: string | undefined): Promise<SessionUser | null> {
+  if (!value) return null
+
+  const [payload, signature] = value.split('.')
+  if (!payload || !signature) return null
+
+  // Compared as bytes: a cookie can hold multi-byte characters
+  const expected = Buffer.from(sign(payload, await getSecret()))
+  const given = Buffer.from(signature)
+  if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) {
+    return null
+  }
+
+  try {
+    const { u, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'))
+    if (typeof exp !== 'number' || exp < Date.now() / 1000) return null
+
+    // Re-read the user so role changes and deletions apply immediately
+    const user = (await readUsers()).find(candidate => candidate.username === u)
+    return user ? toSessionUser(user) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * A same-site path to return to after signing in, or "/"
+ */
+export function safeRedirect(next: string | null | undefined): string {
+  return next && next.startsWith('/') && !next.startsWith('//') && !next.includes('\\') ? next : '/'
+}
@@ -0,0 +1,20 @@
+/**
+ * Local Data Directory
+ *
+ * Server-side state that isn't content (revision history, etc.) lives in
+ * `.vibe/` at the project root, or wherever VIBE_DATA_DIR points.
+ */
+
+import fs from 'fs/promises'
+import path from 'path'
+
+export const DATA_DIR = process.env.VIBE_DATA_DIR || path.join(process.cwd(), '.vibe')
+
+/**
+ * Resolve a path inside the data directory, creating its parent directory
+ */
+export async function dataPath(...parts: string[]): Promise<string> {
+  const filePath = path.join(DATA_DIR, ...parts)
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  return filePath
+}
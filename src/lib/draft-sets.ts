@@ -0,0 +1,289 @@
+/**
+ * Draft Sets
+ *
+ * Named sets of draft values kept on the server, so they can be shown to
+ * someone without an account before anything is saved or published. A set
+ * can have preview links: `?preview=<token>` on a page renders it with the
+ * set's values over the published frontmatter (see src/middleware.ts and
+ * MdxLayout.astro), read-only, until the link expires or is revoked.
+ *
+ * Storage format (`.vibe/draft-sets.json`):
+ *   [{ id, name, createdBy, createdAt, updatedAt, changes: [{ pageSlug, locale, id, value }],
+ *      links: [{ id, createdBy, createdAt, expiresAt, revokedAt?, tokenHash }] }]
+ *
+ * Tokens are "<link id>.<secret>". As with API tokens only a hash of the
+ * secret is stored, so a lost link can't be recovered, only replaced.
+ */
+
+import crypto from 'crypto'
+import path from 'path'
+import { hashPassword, verifyHash } from './auth'
+import { jsonStore } from './json-store'
+import { localeMicrotext, localizePath, microtextKey, resolveLocale } from './locales'
+import { normalizeSlug, parsePage, readPage, resolvePagePath, SchemaViolationError, setNestedValue, validatePath } from './microtext-file'
+import { validateHrefs } from './microtext-schema'
+import { contentAt } from './publish-changes'
+
+export interface DraftSetChange {
+  pageSlug: string
+  locale: string
+  id: string
+  value: string
+}
+
+export interface PreviewLink {
+  id: string
+  /** Username */
+  createdBy: string
+  createdAt: string
+  /** ISO 8601 */
+  expiresAt: string
+  revokedAt?: string
+}
+
+export interface DraftSet {
+  id: string
+  name: string
+  /** Username */
+  createdBy: string
+  createdAt: string
+  updatedAt: string
+  changes: DraftSetChange[]
+  links: PreviewLink[]
+}
+
+/** A resolved preview link, as set on Astro.locals.preview */
+export interface Preview {
+  set: DraftSet
+  link: PreviewLink
+  token: string
+  /** The requested page's frontmatter to render, null if it isn't an MDX page */
+  frontmatter: Record<string, any> | null
+}
+
+/**
+ * Thrown for draft sets and links that can't be used as asked
+ */
+export class DraftSetError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'DraftSetError'
+  }
+}
+
+interface StoredLink extends PreviewLink {
+  tokenHash: string
+}
+
+interface StoredSet extends Omit<DraftSet, 'links'> {
+  links: StoredLink[]
+}
+
+/** Days a preview link lasts, unless asked otherwise */
+export const DEFAULT_LINK_DAYS = 7
+
+/** Longest a preview link can last */
+export const MAX_LINK_DAYS = 30
+
+const MAX_NAME_LENGTH = 100
+
+const store = jsonStore<StoredSet[]>('draft-sets.json', { empty: () => [], mode: 0o600 })
+
+// Without the token hashes
+function toDraftSet(set: StoredSet): DraftSet {
+  return { ...set, links: set.links.map(({ tokenHash, ...link }) => link) }
+}
+
+function findSet(sets: StoredSet[], id: string): StoredSet {
+  const set = sets.find(s => s.id === id)
+  if (!set) throw new DraftSetError(`Draft set not found: ${id}`, 404)
+  return set
+}
+
+function checkName(name: unknown): string {
+  const trimmed = typeof name === 'string' ? name.trim() : ''
+  if (!trimmed) throw new DraftSetError('name is required')
+  if (trimmed.length > MAX_NAME_LENGTH) throw new DraftSetError(`name must be at most ${MAX_NAME_LENGTH} characters`)
+  return trimmed
+}
+
+/**
+ * Check a set's changes against the pages. Schema rules aren't enforced:
+ * a preview may show a draft that isn't finished yet. Link URLs are, as
+ * the preview renders them.
+ */
+async function checkChanges(changes: unknown): Promise<DraftSetChange[]> {
+  if (!Array.isArray(changes) || changes.length === 0) {
+    throw new DraftSetError('changes must be a non-empty list of { pageSlug, locale?, id, value }')
+  }
+
+  const checked = new Map<string, DraftSetChange>()
+  for (const change of changes) {
+    if (typeof change?.id !== 'string' || typeof change?.value !== 'string') {
+      throw new DraftSetError('Each change needs a string id and value')
+    }
+    const pageSlug = normalizeSlug(change.pageSlug)
+    const locale = resolveLocale(change.locale)
+    const filePath = await resolvePagePath(pageSlug)
+    if (!filePath) throw new DraftSetError(`Page not found: ${pageSlug}`)
+    if (!locale) throw new DraftSetError(`Unknown locale: ${change.locale}`)
+
+    const page = await readPage(pageSlug, filePath)
+    const pathError = validatePath(page.frontmatter[microtextKey(locale)] || {}, change.id)
+    if (pathError) throw new DraftSetError(`${change.id}: ${pathError}`)
+    const violations = validateHrefs(change.id, change.value)
+    if (violations.length > 0) throw new SchemaViolationError(violations)
+
+    // The last value for a field wins
+    checked.set(`${pageSlug}|${locale}|${change.id}`, { pageSlug, locale, id: change.id, value: change.value })
+  }
+  return [...checked.values()]
+}
+
+/**
+ * All draft sets, most recently changed first
+ */
+export async function listDraftSets(): Promise<DraftSet[]> {
+  return (await store.read())
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map(toDraftSet)
+}
+
+export async function createDraftSet(input: { name: unknown; changes: unknown }, createdBy: string): Promise<DraftSet> {
+  const now = new Date().toISOString()
+  const set: StoredSet = {
+    id: crypto.randomUUID(),
+    name: checkName(input.name),
+    createdBy,
+    createdAt: now,
+    updatedAt: now,
+    changes: await checkChanges(input.changes),
+    links: [],
+  }
+
+  await store.update(sets => { sets.push(set) })
+  return toDraftSet(set)
+}
+
+/**
+ * Rename a set or replace its changes. Its links show the new values.
+ */
+export async function updateDraftSet(id: string, input: { name?: unknown; changes?: unknown }): Promise<DraftSet> {
+  const name = input.name === undefined ? undefined : checkName(input.name)
+  const changes = input.changes === undefined ? undefined : await checkChanges(input.changes)
+
+  return store.update((sets) => {
+    const set = findSet(sets, id)
+    if (name !== undefined) set.name = name
+    if (changes !== undefined) set.changes = changes
+    set.updatedAt = new Date().toISOString()
+    return toDraftSet(set)
+  })
+}
+
+/**
+ * Delete a set, and with it its preview links
+ */
+export async function deleteDraftSet(id: string): Promise<DraftSet> {
+  return store.update((sets) => {
+    const set = findSet(sets, id)
+    sets.splice(sets.indexOf(set), 1)
+    return toDraftSet(set)
+  })
+}
+
+/**
+ * Create a preview link for a set. The token is only returned here.
+ */
+export async function createPreviewLink(
+  id: string,
+  expiresInDays: unknown,
+  createdBy: string
+): Promise<{ draftSet: DraftSet; link: PreviewLink; token: string }> {
+  const days = expiresInDays === undefined ? DEFAULT_LINK_DAYS : Number(expiresInDays)
+  if (!(days > 0 && days <= MAX_LINK_DAYS)) {
+    throw new DraftSetError(`expiresInDays must be more than 0 and at most ${MAX_LINK_DAYS}`)
+  }
+
+  const secret = crypto.randomBytes(24).toString('base64url')
+  const now = Date.now()
+  const link: StoredLink = {
+    id: crypto.randomBytes(6).toString('hex'),
+    createdBy,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + days * 24 * 60 * 60 * 1000).toISOString(),
+    tokenHash: await hashPassword(secret),
+  }
+
+  const draftSet = await store.update((sets) => {
+    const set = findSet(sets, id)
+    set.links.push(link)
+    return toDraftSet(set)
+  })
+
+  const { tokenHash, ...visible } = link
+  return { draftSet, link: visible, token: `${link.id}.${secret}` }
+}
+
+/**
+ * Revoke a preview link; it stops working at once
+ */
+export async function revokePreviewLink(id: string, linkId: string): Promise<DraftSet> {
+  return store.update((sets) => {
+    const set = findSet(sets, id)
+    const link = set.links.find(l => l.id === linkId)
+    if (!link) throw new DraftSetError(`Preview link not found: ${linkId}`, 404)
+    link.revokedAt ??= new Date().toISOString()
+    return toDraftSet(set)
+  })
+}
+
+/**
+ * Resolve a preview token to its set, with the page being previewed.
+ * Unknown tokens are a 404, expired and revoked links a 410.
+ */
+export async function resolvePreview(token: string, pageSlug: string): Promise<Preview> {
+  const dot = token.indexOf('.')
+  const linkId = dot === -1 ? '' : token.slice(0, dot)
+
+  const set = (await store.read()).find(s => s.links.some(l => l.id === linkId))
+  const link = set?.links.find(l => l.id === linkId)
+  if (!set || !link || !(await verifyHash(token.slice(dot + 1), link.tokenHash))) {
+    throw new DraftSetError('This preview link is not valid.', 404)
+  }
+  if (link.revokedAt) throw new DraftSetError('This preview link has been revoked.', 410)
+  if (Date.parse(link.expiresAt) <= Date.now()) throw new DraftSetError('This preview link has expired.', 410)
+
+  const { tokenHash, ...visible } = link
+  const draftSet = toDraftSet(set)
+  return { set: draftSet, link: visible, token, frontmatter: await previewFrontmatter(draftSet, pageSlug) }
+}
+
+/**
+ * Where a page of a set is previewed, with the link's token
+ */
+export function previewPath(pageSlug: string, locale: string, token: string): string {
+  const pathname = localizePath(pageSlug === 'index' ? '/' : `/${pageSlug}`, locale)
+  return `${pathname}?preview=${encodeURIComponent(token)}`
+}
+
+// A page's frontmatter as last published (as on disk if it was never
+// committed), with the set's values for it on top. A value whose path no
+// longer fits the page (its field became text since) is left out.
+async function previewFrontmatter(set: DraftSet, pageSlug: string): Promise<Record<string, any> | null> {
+  const filePath = await resolvePagePath(pageSlug)
+  if (!filePath) return null
+  const published = await contentAt('HEAD', path.relative(process.cwd(), filePath))
+  const { frontmatter } = published !== null ? parsePage(pageSlug, filePath, published) : await readPage(pageSlug, filePath)
+
+  for (const change of set.changes.filter(c => c.pageSlug === pageSlug)) {
+    const microtext = localeMicrotext(frontmatter, change.locale)
+    const pathError = validatePath(microtext, change.id)
+    if (pathError) {
+      console.warn(`[draft-sets] Preview of ${set.id} skips ${pageSlug}#${change.id}: ${pathError}`)
+      continue
+    }
+    setNestedValue(microtext, change.id, change.value)
+  }
+  return frontmatter
+}
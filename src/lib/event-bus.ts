@@ -0,0 +1,151 @@
+/**
+ * Live Event Bus
+ *
+ * In-process pub/sub for edit-mode sessions, per page. The write routes
+ * publish saved values and array changes; /api/events streams them to every
+ * open editor over server-sent events, together with who is on the page and
+ * which field each person is editing.
+ *
+ * Field locks are advisory: they tell others "Dana is editing hero-headline",
+ * while version checks on write still decide what wins.
+ *
+ * State lives in this process only, like withPageLock.
+ */
+
+import type { SessionUser } from './auth'
+import { normalizeSlug } from './microtext-file'
+
+export interface PresenceSession {
+  sessionId: string
+  username: string
+  name: string
+  /** Field being edited, if any */
+  fieldId: string | null
+}
+
+export type LiveEvent =
+  | { type: 'presence'; sessions: PresenceSession[] }
+  | { type: 'field-saved'; id: string; value: unknown; version: string; pageVersion: string; author: string; locale?: string }
+  | { type: 'array-changed'; arrayPath: string; action: string; version: string; pageVersion: string; author: string }
+
+type Listener = (event: LiveEvent) => void
+
+interface SessionEntry extends PresenceSession {
+  /** Open event streams for this session (reconnects can overlap) */
+  connections: number
+}
+
+const listeners = new Map<string, Set<Listener>>()
+const sessions = new Map<string, Map<string, SessionEntry>>()
+
+/**
+ * Send an event to everyone with the page open
+ */
+export function publish(pageSlug: string, event: LiveEvent): void {
+  for (const listener of listeners.get(normalizeSlug(pageSlug)) ?? []) {
+    try {
+      listener(event)
+    } catch (error) {
+      console.error('[events] Listener failed:', error)
+    }
+  }
+}
+
+/**
+ * Listen for a page's events. Returns an unsubscribe function.
+ */
+export function subscribe(pageSlug: string, listener: Listener): () => void {
+  const slug = normalizeSlug(pageSlug)
+  if (!listeners.has(slug)) listeners.set(slug, new Set())
+  listeners.get(slug)!.add(listener)
+
+  return () => {
+    const set = listeners.get(slug)
+    set?.delete(listener)
+    if (set?.size === 0) listeners.delete(slug)
+  }
+}
+
+export function getPresence(pageSlug: string): PresenceSession[] {
+  return [...(sessions.get(normalizeSlug(pageSlug))?.values() ?? [])]
+    .map(({ sessionId, username, name, fieldId }) => ({ sessionId, username, name, fieldId }))
+}
+
+function publishPresence(pageSlug: string): void {
+  publish(pageSlug, { type: 'presence', sessions: getPresence(pageSlug) })
+}
+
+/**
+ * Register an event stream for a session on a page
+ */
+export function joinPage(pageSlug: string, sessionId: string, user: SessionUser): void {
+  const slug = normalizeSlug(pageSlug)
+  if (!sessions.has(slug)) sessions.set(slug, new Map())
+  const page = sessions.get(slug)!
+
+  const existing = page.get(sessionId)
+  if (existing) {
+    existing.connections++
+    return
+  }
+
+  page.set(sessionId, { sessionId, username: user.username, name: user.name, fieldId: null, connections: 1 })
+  publishPresence(slug)
+}
+
+/**
+ * Drop an event stream; the session leaves once its last stream closes
+ */
+export function leavePage(pageSlug: string, sessionId: string): void {
+  const slug = normalizeSlug(pageSlug)
+  const page = sessions.get(slug)
+  const entry = page?.get(sessionId)
+  if (!page || !entry) return
+
+  if (--entry.connections > 0) return
+
+  page.delete(sessionId)
+  if (page.size === 0) sessions.delete(slug)
+  publishPresence(slug)
+}
+
+/**
+ * Claim (or with null, release) the field a session is editing.
+ * Returns whoever else already holds that field, or null.
+ */
+export function setEditing(
+  pageSlug: string,
+  sessionId: string,
+  user: SessionUser,
+  fieldId: string | null
+): PresenceSession | null {
+  const slug = normalizeSlug(pageSlug)
+  const entry = sessions.get(slug)?.get(sessionId)
+  if (!entry || entry.username !== user.username) {
+    throw new Error('Unknown session')
+  }
+
+  const holder = fieldId
+    ? getPresence(slug).find(s => s.fieldId === fieldId && s.sessionId !== sessionId) ?? null
+    : null
+
+  if (entry.fieldId !== fieldId) {
+    entry.fieldId = fieldId
+    publishPresence(slug)
+  }
+  return holder
+}
+
+/**
+ * Announce saved field values (locale is set for translated fields)
+ */
+export function publishSaves(
+  pageSlug: string,
+  fields: { id: string; value: unknown; version: string; locale?: string }[],
+  pageVersion: string,
+  author: string
+): void {
+  for (const { id, value, version, locale } of fields) {
+    publish(pageSlug, { type: 'field-saved', id, value, version, pageVersion, author, locale })
+  }
+}
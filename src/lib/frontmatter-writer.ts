@@ -0,0 +1,195 @@
+/**
+ * Format-Preserving Frontmatter Writer
+ *
+ * Writes frontmatter changes back into the YAML source without
+ * re-serializing the whole block, so comments, anchors, quoting, key order
+ * and multi-line strings survive and `git diff` shows only changed lines.
+ *
+ * The new frontmatter is diffed against the old one:
+ * - Changed scalars are spliced into the source text in place, keeping
+ *   their quoting style.
+ * - Anything else (added/removed keys, array inserts/removals/moves, block
+ *   scalars, type changes) is applied to the parsed YAML Document, which is
+ *   then printed. Untouched nodes keep their comments and formatting.
+ *
+ * Strings that gain line breaks (block microtext: paragraphs, lists) are
+ * written as literal block scalars (`|`), so the markdown reads as-is.
+ */
+
+import YAML, { isMap, isScalar, isSeq, Scalar, type Document, type Node } from 'yaml'
+
+const FRONTMATTER_RE = /^(---\r?\n)([\s\S]*?\r?\n)?(---)(\r?\n|$)/
+
+const STRINGIFY_OPTIONS = { lineWidth: 0, minContentWidth: 0 } as const
+
+interface Splice {
+  start: number
+  end: number
+  text: string
+}
+
+// Diff state for one write
+interface PatchState {
+  doc: Document
+  splices: Splice[]
+  /** Set when a change can't be spliced and the Document must be printed */
+  structural: boolean
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+}
+
+function isPrimitive(value: unknown): value is string | number | boolean | null {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value)
+}
+
+/**
+ * Render a scalar on one line in the style of the node it replaces, or null
+ * if it can't be (multi-line values, block scalars).
+ */
+function renderScalar(value: string | number | boolean | null, node: Scalar, inFlow: boolean): string | null {
+  const type = node.type
+  if (type === Scalar.BLOCK_LITERAL || type === Scalar.BLOCK_FOLDED) return null
+
+  // Plain scalars inside { } / [ ] can't hold flow indicators; quote instead
+  const defaultStringType = inFlow && type === Scalar.PLAIN && typeof value === 'string' && /[,[\]{}]/.test(value)
+    ? Scalar.QUOTE_DOUBLE
+    : (type || Scalar.PLAIN)
+
+  const text = YAML.stringify(value, { ...STRINGIFY_OPTIONS, defaultStringType }).replace(/\n$/, '')
+  return text.includes('\n') ? null : text
+}
+
+/**
+ * Walk a node alongside its old and new values, recording splices for
+ * changed scalars and mutating the Document for everything else.
+ * `replace` swaps this node out of its parent.
+ */
+function patchNode(
+  state: PatchState,
+  node: Node | null | undefined,
+  before: unknown,
+  after: unknown,
+  replace: (node: Node) => void,
+  inFlow = false
+): void {
+  if (isEqual(before, after)) return
+
+  if (isMap(node) && isPlainObject(before) && isPlainObject(after)) {
+    for (const key of Object.keys(before)) {
+      if (!(key in after)) {
+        node.delete(key)
+        state.structural = true
+      }
+    }
+    for (const [key, value] of Object.entries(after)) {
+      if (key in before && node.has(key)) {
+        patchNode(
+          state,
+          node.get(key, true) as Node | undefined,
+          before[key],
+          value,
+          (replacement) => node.set(key, replacement),
+          inFlow || !!node.flow
+        )
+      } else {
+        node.set(key, state.doc.createNode(value))
+        state.structural = true
+      }
+    }
+    return
+  }
+
+  if (isSeq(node) && Array.isArray(before) && Array.isArray(after)) {
+    const reordered = before.length === after.length
+      && isEqual(before.map(v => JSON.stringify(v)).sort(), after.map(v => JSON.stringify(v)).sort())
+
+    if (before.length === after.length && !reordered) {
+      after.forEach((value, i) => {
+        patchNode(
+          state,
+          node.items[i] as Node,
+          before[i],
+          value,
+          (replacement) => { node.items[i] = replacement },
+          inFlow || !!node.flow
+        )
+      })
+      return
+    }
+
+    // Inserts, removals and moves: keep the existing node (and its comments)
+    // for every item that survives, create nodes for new ones
+    const used = new Set<number>()
+    node.items = after.map((value) => {
+      const match = before.findIndex((old, i) => !used.has(i) && isEqual(old, value))
+      if (match !== -1) {
+        used.add(match)
+        return node.items[match]
+      }
+      return state.doc.createNode(value)
+    })
+    state.structural = true
+    return
+  }
+
+  if (isScalar(node) && isPrimitive(after)) {
+    const text = node.range ? renderScalar(after, node, inFlow) : null
+    node.value = after
+    if (typeof after === 'string' && after.includes('\n') && !inFlow) {
+      node.type = Scalar.BLOCK_LITERAL
+    }
+    if (text === null) {
+      state.structural = true
+    } else {
+      state.splices.push({ start: node.range![0], end: node.range![1], text })
+    }
+    return
+  }
+
+  // Type change, alias or empty value: swap in a fresh node
+  replace(state.doc.createNode(after))
+  state.structural = true
+}
+
+/**
+ * Rewrite the frontmatter of `raw` from `before` to `after`, touching only
+ * what changed. The body is left byte-for-byte as it was.
+ * Returns null if `raw` has no frontmatter block or its YAML has errors.
+ */
+export function patchFrontmatter(
+  raw: string,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): string | null {
+  const match = raw.match(FRONTMATTER_RE)
+  if (!match) return null
+
+  const [, open, yamlSource = '', close, eol] = match
+  const doc: Document = YAML.parseDocument(yamlSource)
+  if (doc.errors.length > 0) return null
+  if (doc.contents === null) {
+    doc.contents = doc.createNode({})
+  }
+  if (!isMap(doc.contents)) return null
+
+  const state: PatchState = { doc, splices: [], structural: false }
+  patchNode(state, doc.contents, before, after, (node) => { doc.contents = node })
+
+  let updated: string
+  if (state.structural) {
+    updated = doc.toString(STRINGIFY_OPTIONS)
+  } else {
+    updated = yamlSource
+    for (const { start, end, text } of state.splices.sort((a, b) => b.start - a.start)) {
+      updated = updated.slice(0, start) + text + updated.slice(end)
+    }
+  }
+
+  return open + updated + close + eol + raw.slice(match[0].length)
+}
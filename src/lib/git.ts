@@ -0,0 +1,232 @@
+/**
+ * Git
+ *
+ * Runs git for publishing. Arguments go to git as an array (execFile, no
+ * shell), so commit messages, paths and names are never interpreted as
+ * commands.
+ *
+ * Failures are GitErrors with a code:
+ *   nothing-to-commit - nothing staged differs from the last commit
+ *   hook-failed       - a commit hook rejected the commit (output in `detail`)
+ *   lock-held         - another git process holds the index lock
+ *   detached-head     - HEAD is not on a branch, so a commit would be lost
+ *   identity-unknown  - no committer identity (see below)
+ *   failed            - anything else
+ *
+ * Identity: commits are authored as the signed-in user, with their email
+ * (`npm run users -- email`) or `<username>@vibe-editor.invalid`.
+ * VIBE_GIT_IDENTITY ("Site Bot <bot@example.com>") is the committer, and
+ * the author when there is no user; without it git's own configuration is
+ * used.
+ */
+
+import { execFile } from 'child_process'
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import type { SessionUser } from './auth'
+
+export type GitErrorCode =
+  | 'nothing-to-commit'
+  | 'hook-failed'
+  | 'lock-held'
+  | 'detached-head'
+  | 'identity-unknown'
+  | 'failed'
+
+export interface GitIdentity {
+  name: string
+  email: string
+}
+
+/** Hooks that can reject a commit */
+const COMMIT_HOOKS = ['pre-commit', 'prepare-commit-msg', 'commit-msg']
+
+/**
+ * Thrown when a git command fails; `detail` is git's output
+ */
+export class GitError extends Error {
+  constructor(message: string, public code: GitErrorCode, public detail: string = '') {
+    super(message)
+    this.name = 'GitError'
+  }
+}
+
+const MESSAGES: Record<GitErrorCode, string> = {
+  'nothing-to-commit': 'Nothing to commit',
+  'hook-failed': 'A git hook rejected the commit',
+  'lock-held': 'Another git process is running. Try again in a moment.',
+  'detached-head': 'The repository is not on a branch (detached HEAD). Check out a branch to publish.',
+  'identity-unknown': 'Git has no committer identity. Set VIBE_GIT_IDENTITY or git config user.name / user.email.',
+  failed: 'Git command failed',
+}
+
+const STATUS: Record<GitErrorCode, number> = {
+  'nothing-to-commit': 409,
+  'hook-failed': 422,
+  'lock-held': 409,
+  'detached-head': 409,
+  'identity-unknown': 500,
+  failed: 500,
+}
+
+function classify(output: string): GitErrorCode {
+  if (/index\.lock|Unable to create '.*\.lock'|another git process/i.test(output)) return 'lock-held'
+  if (/nothing to commit|nothing added to commit|no changes added to commit/i.test(output)) return 'nothing-to-commit'
+  if (/Please tell me who you are|unable to auto-detect email address|empty ident name/i.test(output)) return 'identity-unknown'
+  return 'failed'
+}
+
+interface GitOptions {
+  /** Written to git's stdin */
+  input?: string
+  env?: Record<string, string>
+}
+
+/**
+ * Run git in the project directory and return its stdout
+ */
+export function git(args: string[], options: GitOptions = {}): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(
+      'git',
+      args,
+      {
+        cwd: process.cwd(),
+        env: options.env ? { ...process.env, ...options.env } : process.env,
+        maxBuffer: 64 * 1024 * 1024,
+      },
+      (error, stdout, stderr) => {
+        if (!error) {
+          resolve(stdout)
+          return
+        }
+        const output = `${stderr}\n${stdout}`.trim()
+        const code = classify(output)
+        reject(new GitError(
+          code === 'failed' ? `git ${args[0]} failed: ${output.split('\n')[0] || error.message}` : MESSAGES[code],
+          code,
+          output
+        ))
+      }
+    )
+    if (options.input !== undefined) child.stdin?.end(options.input)
+  })
+}
+
+/**
+ * Parse "Name <email>"
+ */
+export function parseIdentity(value: string | undefined): GitIdentity | null {
+  const match = value?.match(/^\s*([^<>]+?)\s*<([^<>\s]+)>\s*$/)
+  return match ? { name: match[1], email: match[2] } : null
+}
+
+/** The configured identity (VIBE_GIT_IDENTITY), if any */
+export function configuredIdentity(): GitIdentity | null {
+  return parseIdentity(process.env.VIBE_GIT_IDENTITY)
+}
+
+/**
+ * Who a publish is authored as: the signed-in user, else the configured identity
+ */
+export function authorFor(user: SessionUser | null | undefined): GitIdentity | null {
+  if (!user) return configuredIdentity()
+  return { name: user.name || user.username, email: user.email || `${user.username}@vibe-editor.invalid` }
+}
+
+/**
+ * Refuse to commit onto a detached HEAD, where the commit would be lost
+ */
+export async function assertOnBranch(): Promise<string> {
+  try {
+    return (await git(['symbolic-ref', '--short', '-q', 'HEAD'])).trim()
+  } catch {
+    throw new GitError(MESSAGES['detached-head'], 'detached-head')
+  }
+}
+
+// Whether the repository has a hook that runs on commit
+async function hasCommitHook(): Promise<boolean> {
+  const configured = await git(['config', '--get', 'core.hooksPath']).catch(() => '')
+  const dir = configured.trim()
+    ? path.resolve(process.cwd(), configured.trim())
+    : path.resolve(process.cwd(), (await git(['rev-parse', '--git-path', 'hooks'])).trim())
+
+  for (const hook of COMMIT_HOOKS) {
+    try {
+      await fs.access(path.join(dir, hook), fs.constants.X_OK)
+      return true
+    } catch {
+      // Not present or not executable: git skips it
+    }
+  }
+  return false
+}
+
+// Publishes, one after another
+let publishQueue: Promise<unknown> = Promise.resolve()
+
+/**
+ * Run a publish (stage, commit, unstage on failure) once no other publish in
+ * this process is running: they all stage through the one git index, so
+ * two at once could commit each other's changes.
+ */
+export function withPublishLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = publishQueue.catch(() => {}).then(fn)
+  publishQueue = run
+  return run
+}
+
+/**
+ * Commit what is staged under `paths`, and nothing else that is staged.
+ * Returns the new commit's hash.
+ */
+export async function commitStaged(message: string, author: GitIdentity | null, paths: string[]): Promise<string> {
+  // A scratch index: HEAD plus the paths as staged. Whatever else is staged
+  // stays out of the commit, and staged.
+  const index = path.join(os.tmpdir(), `vibe-index-${crypto.randomUUID()}`)
+  const committer = configuredIdentity()
+  const env: Record<string, string> = { GIT_INDEX_FILE: index }
+  if (author) {
+    env.GIT_AUTHOR_NAME = author.name
+    env.GIT_AUTHOR_EMAIL = author.email
+  }
+  if (committer) {
+    env.GIT_COMMITTER_NAME = committer.name
+    env.GIT_COMMITTER_EMAIL = committer.email
+  }
+
+  try {
+    await git(['read-tree', 'HEAD'], { env })
+    const entries = await git(['ls-files', '--stage', '-z', '--', ...paths])
+    if (entries) await git(['update-index', '-z', '--index-info'], { input: entries, env })
+    // Staged deletions aren't listed
+    const listed = new Set(entries.split('\0').filter(Boolean).map(entry => entry.slice(entry.indexOf('\t') + 1)))
+    const removed = paths.filter(file => !listed.has(file))
+    if (removed.length > 0) await git(['update-index', '--force-remove', '--', ...removed], { env })
+
+    await git(['commit', '--quiet', '--file', '-'], { input: message, env })
+  } catch (error) {
+    // Git doesn't say a hook failed; if there is one, it's the likely cause
+    if (error instanceof GitError && error.code === 'failed' && await hasCommitHook()) {
+      throw new GitError(MESSAGES['hook-failed'], 'hook-failed', error.detail)
+    }
+    throw error
+  } finally {
+    await fs.rm(index, { force: true })
+  }
+
+  return (await git(['rev-parse', 'HEAD'])).trim()
+}
+
+/**
+ * JSON error response for a failed git operation
+ */
+export function gitErrorResponse(error: GitError): Response {
+  return new Response(
+    JSON.stringify({ error: error.message, code: error.code, ...(error.detail && { detail: error.detail }) }),
+    { status: STATUS[error.code], headers: { 'Content-Type': 'application/json' } }
+  )
+}
@@ -0,0 +1,224 @@
+/**
+ * Inline Markdown <-> Tiptap
+ *
+ * Microtext stores inline markdown (`**bold**`, `*italic*`, `[text](url)`,
+ * `~~strike~~`, `` `code` ``). The editor works on Tiptap marks, so fields
+ * are parsed to HTML on open and the document is serialized back on save.
+ *
+ * Block fields (`<MicroText markdown="block">`) also hold paragraphs and
+ * bullet or numbered lists; see blockMarkdownToHtml / docToBlockMarkdown.
+ *
+ * The serializer reuses the delimiters the original value used (`__` vs
+ * `**`, `_` vs `*`) and escapes literal markdown characters. Callers keep
+ * the original string when the serialized document hasn't changed since
+ * open, so an open-then-save round trip is byte-identical.
+ */
+
+import type { JSONContent } from '@tiptap/core'
+import { marked } from 'marked'
+
+export interface MarkdownStyle {
+  strong: '**' | '__'
+  em: '*' | '_'
+  /** Bullet list marker (block fields) */
+  bullet: '-' | '*' | '+'
+}
+
+export const DEFAULT_STYLE: MarkdownStyle = { strong: '**', em: '*', bullet: '-' }
+
+interface Mark {
+  type: string
+  attrs?: Record<string, any>
+}
+
+// Outermost first: links wrap emphasis, code is innermost
+const MARK_ORDER = ['link', 'bold', 'italic', 'strike', 'code']
+
+/**
+ * Render inline markdown to HTML for the editor (and the page)
+ */
+export function markdownToHtml(markdown: string): string {
+  return marked.parseInline(markdown) as string
+}
+
+/**
+ * Render block markdown (paragraphs, lists) to HTML
+ */
+export function blockMarkdownToHtml(markdown: string): string {
+  return marked.parse(markdown, { async: false })
+}
+
+/**
+ * Pick up which emphasis delimiters a value already uses
+ */
+export function detectMarkdownStyle(markdown: string): MarkdownStyle {
+  const withoutStrong = markdown.replace(/\*\*|__/g, '')
+  return {
+    strong: /__\S/.test(markdown) && !/\*\*\S/.test(markdown) ? '__' : '**',
+    em: /(^|[^\w\\])_\S/.test(withoutStrong) && !/(^|[^\\])\*\S/.test(withoutStrong) ? '_' : '*',
+    bullet: (markdown.match(/^[ \t]*([-*+])[ \t]/m)?.[1] as MarkdownStyle['bullet']) || '-',
+  }
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\(?=[!-/:-@[-`{-~])/g, '\\\\')
+    .replace(/`/g, '\\`')
+    // A "*" with spaces on both sides can't start or end emphasis
+    .replace(/(?<!\s)\*|\*(?!\s)/g, '\\*')
+    .replace(/~~/g, '\\~\\~')
+    .replace(/(^|[^\w])_|_(?=[^\w]|$)/g, (match) => match.replace('_', '\\_'))
+    .replace(/\[(?=[^\]]*\]\()/g, '\\[')
+}
+
+function escapeHref(href: string): string {
+  return href.replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29')
+}
+
+function sameMark(a: Mark, b: Mark): boolean {
+  return a.type === b.type && (a.type !== 'link' || a.attrs?.href === b.attrs?.href)
+}
+
+function openDelimiter(mark: Mark, style: MarkdownStyle): string {
+  switch (mark.type) {
+    case 'bold': return style.strong
+    case 'italic': return style.em
+    case 'strike': return '~~'
+    case 'code': return '`'
+    case 'link': return '['
+    default: return ''
+  }
+}
+
+function closeDelimiter(mark: Mark, style: MarkdownStyle): string {
+  return mark.type === 'link'
+    ? `](${escapeHref(mark.attrs?.href || '')})`
+    : openDelimiter(mark, style)
+}
+
+/**
+ * Serialize a paragraph's inline content. Whitespace at the edges of a
+ * marked run is moved outside the delimiters (`** bold**` isn't bold).
+ */
+function serializeInline(nodes: JSONContent[], style: MarkdownStyle): string {
+  let out = ''
+  let open: Mark[] = []
+  let pendingSpace = ''
+
+  const closeTo = (depth: number) => {
+    for (let i = open.length - 1; i >= depth; i--) out += closeDelimiter(open[i], style)
+    open = open.slice(0, depth)
+  }
+
+  for (const node of nodes) {
+    if (node.type !== 'text' || !node.text) continue
+
+    const marks = ((node.marks || []) as Mark[])
+      .filter(mark => MARK_ORDER.includes(mark.type))
+      .sort((a, b) => MARK_ORDER.indexOf(a.type) - MARK_ORDER.indexOf(b.type))
+
+    let keep = 0
+    while (keep < open.length && keep < marks.length && sameMark(open[keep], marks[keep])) keep++
+
+    const isCode = marks.some(mark => mark.type === 'code')
+    let text = node.text
+    const opens = keep < marks.length
+
+    closeTo(keep)
+    out += pendingSpace
+    pendingSpace = ''
+
+    if (opens && !isCode) {
+      const leading = text.match(/^\s*/)![0]
+      out += leading
+      text = text.slice(leading.length)
+    }
+    for (const mark of marks.slice(keep)) {
+      out += openDelimiter(mark, style)
+      open.push(mark)
+    }
+
+    if (!isCode) {
+      pendingSpace = text.match(/\s*$/)![0]
+      text = text.slice(0, text.length - pendingSpace.length)
+    }
+    out += isCode ? text : escapeText(text)
+  }
+
+  closeTo(0)
+  return out + pendingSpace
+}
+
+/**
+ * Serialize an editor document (editor.getJSON()) to inline markdown.
+ * Paragraphs are separated by a blank line.
+ */
+export function docToMarkdown(doc: JSONContent, style: MarkdownStyle = DEFAULT_STYLE): string {
+  return (doc.content || [])
+    .map(block => serializeInline(block.content || [], style))
+    .join('\n\n')
+}
+
+/**
+ * Escape a paragraph that would otherwise start a list, heading, quote or
+ * rule ("- not a list", "2024. A year")
+ */
+function escapeBlockStart(text: string): string {
+  if (/^([-*_])([ \t]*\1){2,}[ \t]*$/.test(text)) return `\\${text}`
+  return text
+    .replace(/^([-+])(?=[ \t]|$)/, '\\$1')
+    .replace(/^(\d+)([.)])(?=[ \t]|$)/, '$1\\$2')
+    .replace(/^(#{1,6}|>)/, '\\$1')
+}
+
+// Indent continuation lines to sit inside a list item
+function indentLines(text: string, indent: string): string {
+  return text.split('\n').map((line, i) => (i === 0 || line === '' ? line : indent + line)).join('\n')
+}
+
+function serializeBlock(node: JSONContent, style: MarkdownStyle): string {
+  if (node.type === 'bulletList' || node.type === 'orderedList') {
+    const start = node.attrs?.start ?? 1
+    return (node.content || []).map((item, i) => {
+      const marker = node.type === 'bulletList' ? `${style.bullet} ` : `${start + i}. `
+      const children = item.content || []
+      // A nested list follows its paragraph directly, keeping the list tight
+      const body = children.map((child, j) => {
+        const text = serializeBlock(child, style)
+        if (j === 0) return text
+        return (child.type === 'bulletList' || child.type === 'orderedList' ? '\n' : '\n\n') + text
+      }).join('')
+      return marker + indentLines(body, ' '.repeat(marker.length))
+    }).join('\n')
+  }
+  return escapeBlockStart(serializeInline(node.content || [], style))
+}
+
+/**
+ * Serialize a block editor document to markdown: paragraphs separated by a
+ * blank line, lists one item per line.
+ */
+export function docToBlockMarkdown(doc: JSONContent, style: MarkdownStyle = DEFAULT_STYLE): string {
+  return (doc.content || [])
+    .map(block => serializeBlock(block, style))
+    .join('\n\n')
+}
+
+/**
+ * Serialize a plain-text editor document (formatting is ignored)
+ */
+export function docToText(doc: JSONContent): string {
+  return (doc.content || [])
+    .map(block => (block.content || []).map(node => node.text || '').join(''))
+    .join('\n\n')
+}
+
+/**
+ * An editor document holding a single plain-text paragraph
+ */
+export function textToDoc(text: string): JSONContent {
+  return {
+    type: 'doc',
+    content: [{ type: 'paragraph', content: text ? [{ type: 'text', text }] : [] }],
+  }
+}
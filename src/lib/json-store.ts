@@ -0,0 +1,85 @@
+/**
+ * JSON Stores
+ *
+ * A JSON file in the data directory (see data-dir.ts) read and updated by
+ * one process: updates run one at a time, reads wait for them, and the
+ * file is replaced whole (written beside it, then renamed), so a crash
+ * mid-write leaves the old contents.
+ *
+ * Only a missing file reads as empty. One that can't be read or parsed is
+ * an error, not a fresh start: writing over it would lose what it held.
+ *
+ *   const store = jsonStore<Item[]>('items.json', { empty: () => [] })
+ *   await store.update(items => { items.push(item) })
+ */
+
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import { dataPath } from './data-dir'
+
+export interface JsonStoreOptions<T> {
+  /** Contents of a file that doesn't exist yet */
+  empty: () => T
+  /** File mode, for files holding secrets */
+  mode?: number
+  /** Applied to the contents before each write (trimming old entries...) */
+  beforeWrite?: (data: T) => T
+}
+
+export interface JsonStore<T> {
+  /** The contents, after any update in progress */
+  read(): Promise<T>
+  /** Read-modify-write, one caller at a time. `fn` changes the contents in place. */
+  update<R>(fn: (data: T) => R | Promise<R>): Promise<R>
+}
+
+export function jsonStore<T>(name: string, options: JsonStoreOptions<T>): JsonStore<T> {
+  let queue: Promise<unknown> = Promise.resolve()
+
+  async function load(): Promise<T> {
+    const file = await dataPath(name)
+    let content: string
+    try {
+      content = await fs.readFile(file, 'utf-8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return options.empty()
+      throw error
+    }
+    try {
+      return JSON.parse(content) as T
+    } catch (error) {
+      throw new Error(`${file} is not valid JSON (${error instanceof Error ? error.message : error}); fix or remove it`)
+    }
+  }
+
+  async function save(data: T): Promise<void> {
+    const file = await dataPath(name)
+    const temp = `${file}.${crypto.randomUUID()}.tmp`
+    const contents = options.beforeWrite ? options.beforeWrite(data) : data
+    try {
+      await fs.writeFile(temp, JSON.stringify(contents, null, 2), { encoding: 'utf-8', mode: options.mode })
+      await fs.rename(temp, file)
+    } catch (error) {
+      await fs.rm(temp, { force: true })
+      throw error
+    }
+  }
+
+  return {
+    async read() {
+      await queue.catch(() => {})
+      return load()
+    },
+
+    update(fn) {
+      const run = queue.catch(() => {}).then(async () => {
+        const data = await load()
+        const result = await fn(data)
+        await save(data)
+        return result
+      })
+      queue = run
+      return run
+    },
+  }
+}
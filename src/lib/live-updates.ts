@@ -0,0 +1,73 @@
+/**
+ * Live Updates (client)
+ *
+ * Connects edit mode to /api/events so open editors see each other:
+ * who is on the page, which field they're editing, and values they save.
+ *
+ * Each tab is its own session, identified by SESSION_ID.
+ */
+
+import type { LiveEvent, PresenceSession } from './event-bus'
+
+export type { LiveEvent, PresenceSession }
+
+type PresenceEvent = Extract<LiveEvent, { type: 'presence' }>
+export type FieldSavedEvent = Extract<LiveEvent, { type: 'field-saved' }>
+export type ArrayChangedEvent = Extract<LiveEvent, { type: 'array-changed' }>
+
+export interface LiveHandlers {
+  onPresence?: (sessions: PresenceSession[]) => void
+  onFieldSaved?: (event: FieldSavedEvent) => void
+  onArrayChanged?: (event: ArrayChangedEvent) => void
+}
+
+/** This tab's session (a new one per page load) */
+export const SESSION_ID = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+  ? crypto.randomUUID()
+  : `s-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+
+/**
+ * Open the page's event stream. The browser reconnects on its own after
+ * network errors. Returns a function that closes the stream.
+ */
+export function connectLiveUpdates(pageSlug: string, handlers: LiveHandlers): () => void {
+  const params = new URLSearchParams({ pageSlug, sessionId: SESSION_ID })
+  const source = new EventSource(`/api/events?${params}`)
+
+  const listen = <T extends LiveEvent>(type: T['type'], handler?: (event: T) => void) => {
+    if (!handler) return
+    source.addEventListener(type, (e) => {
+      try {
+        handler(JSON.parse((e as MessageEvent).data) as T)
+      } catch (error) {
+        console.error(`[live] Bad ${type} event:`, error)
+      }
+    })
+  }
+
+  listen<PresenceEvent>('presence', (event) => handlers.onPresence?.(event.sessions))
+  listen<FieldSavedEvent>('field-saved', handlers.onFieldSaved)
+  listen<ArrayChangedEvent>('array-changed', handlers.onArrayChanged)
+
+  return () => source.close()
+}
+
+/**
+ * Tell others which field this tab is editing (null when done).
+ * Returns whoever else is already editing it.
+ */
+export async function claimField(pageSlug: string, fieldId: string | null): Promise<PresenceSession | null> {
+  try {
+    const response = await fetch('/api/presence', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ pageSlug, sessionId: SESSION_ID, fieldId }),
+    })
+    if (!response.ok) return null
+    const data = await response.json()
+    return data.heldBy ?? null
+  } catch {
+    // Presence is best-effort
+    return null
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Locales
+ *
+ * The default locale's microtext lives in `microtext`; each other locale has
+ * its own block (`microtext_es`) holding only the fields translated so far.
+ * Anything missing falls back to the default locale, so a page can be
+ * translated one field at a time. Lists take their items (and order) from
+ * the default locale; translations follow them by index.
+ *
+ * Translated pages are served under a locale prefix (/es/about renders
+ * about.mdx in Spanish, see src/middleware.ts).
+ *
+ * Shared by the server and the editor, so no Node imports here.
+ */
+
+/** Supported locales and their display names; the first is the default */
+export const LOCALE_NAMES: Record<string, string> = {
+  en: 'English',
+  es: 'Español',
+}
+
+export const LOCALES = Object.keys(LOCALE_NAMES)
+
+export const DEFAULT_LOCALE = LOCALES[0]
+
+/**
+ * A supported locale from user input: missing means the default locale,
+ * unknown locales give null.
+ */
+export function resolveLocale(value?: string | null): string | null {
+  if (!value) return DEFAULT_LOCALE
+  return LOCALES.includes(value) ? value : null
+}
+
+/**
+ * Frontmatter key holding a locale's microtext
+ */
+export function microtextKey(locale: string = DEFAULT_LOCALE): string {
+  return locale === DEFAULT_LOCALE ? 'microtext' : `microtext_${locale}`
+}
+
+/**
+ * A locale's microtext block, created if missing
+ */
+export function localeMicrotext(frontmatter: Record<string, any>, locale: string = DEFAULT_LOCALE): Record<string, any> {
+  const key = microtextKey(locale)
+  if (!frontmatter[key] || typeof frontmatter[key] !== 'object') {
+    frontmatter[key] = {}
+  }
+  return frontmatter[key]
+}
+
+/**
+ * Split the locale prefix off a URL path: "/es/about" -> es, "/about"
+ */
+export function localeFromPath(pathname: string): { locale: string; pathname: string } {
+  const match = pathname.match(/^\/([a-z]{2}(?:-[A-Za-z]{2})?)(\/.*)?$/)
+  if (match && match[1] !== DEFAULT_LOCALE && LOCALES.includes(match[1])) {
+    return { locale: match[1], pathname: match[2] || '/' }
+  }
+  return { locale: DEFAULT_LOCALE, pathname }
+}
+
+/**
+ * A path (without locale prefix) as served for a locale
+ */
+export function localizePath(pathname: string, locale: string): string {
+  if (locale === DEFAULT_LOCALE) return pathname
+  return `/${locale}${pathname === '/' ? '/' : pathname}`
+}
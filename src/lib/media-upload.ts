@@ -0,0 +1,150 @@
+/**
+ * Media Uploads
+ *
+ * Stores uploaded images under public/uploads/ (committed with the content
+ * on publish) and generates resized WebP variants for `srcset`:
+ *
+ *   public/uploads/team-photo-3f2a9c1b.jpg
+ *   public/uploads/team-photo-3f2a9c1b-480w.webp
+ *   public/uploads/team-photo-3f2a9c1b-960w.webp
+ *
+ * The file's format is read from its contents, not trusted from the
+ * upload's name or MIME type. Names carry a content hash, so uploading the
+ * same file twice reuses it.
+ *
+ * The built server only serves the public/ files there were at build time,
+ * so uploads are also served from disk by src/pages/uploads/[...path].ts
+ * (see readUpload).
+ */
+
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import path from 'path'
+import sharp from 'sharp'
+import type { ImageValue } from './microtext-schema'
+
+export const UPLOADS_DIR = path.join(process.cwd(), 'public/uploads')
+
+/** Public URL prefix of UPLOADS_DIR */
+export const UPLOADS_URL = '/uploads'
+
+/** Largest accepted upload, VIBE_MAX_UPLOAD_MB (default 10 MB) */
+export const MAX_UPLOAD_BYTES = Number(process.env.VIBE_MAX_UPLOAD_MB || 10) * 1024 * 1024
+
+/** Accepted formats (as reported by sharp) and their file extensions */
+const FORMATS: Record<string, string> = {
+  jpeg: 'jpg',
+  png: 'png',
+  webp: 'webp',
+  gif: 'gif',
+  avif: 'avif',
+}
+
+export const ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif']
+
+/** Widths of the generated variants; only those narrower than the original are made */
+export const VARIANT_WIDTHS = [480, 960, 1600]
+
+/**
+ * Thrown for uploads that are rejected; `status` is the HTTP status to answer with
+ */
+export class UploadError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'UploadError'
+  }
+}
+
+/** What an upload adds to an image field (alt text and focal point are up to the editor) */
+export type UploadedImage = Required<Pick<ImageValue, 'src' | 'width' | 'height' | 'variants'>>
+
+// "My Team Photo (1).JPG" -> "my-team-photo-1"
+function baseName(fileName: string): string {
+  const name = path.basename(fileName, path.extname(fileName))
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+  return name || 'image'
+}
+
+/**
+ * An uploaded file by its path under UPLOADS_URL, with its content type.
+ * Null for anything but an image directly in UPLOADS_DIR.
+ */
+export async function readUpload(name: string): Promise<{ body: Buffer; type: string } | null> {
+  const format = Object.keys(FORMATS).find(f => FORMATS[f] === path.extname(name).slice(1))
+  if (!format || name !== path.basename(name)) return null
+  try {
+    return { body: await fs.readFile(path.join(UPLOADS_DIR, name)), type: `image/${format}` }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Validate an uploaded image, store it with its variants and describe it
+ */
+export async function storeUpload(file: File): Promise<UploadedImage> {
+  if (file.size === 0) throw new UploadError('The file is empty')
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new UploadError(`The file is larger than ${Math.round(MAX_UPLOAD_BYTES / 1024 / 1024)} MB`, 413)
+  }
+  if (file.type && !ACCEPTED_TYPES.includes(file.type)) {
+    throw new UploadError(`Unsupported file type: ${file.type}. Use JPEG, PNG, WebP, GIF or AVIF.`, 415)
+  }
+
+  const buffer = Buffer.from(await file.arrayBuffer())
+
+  let metadata: sharp.Metadata
+  try {
+    metadata = await sharp(buffer).metadata()
+  } catch {
+    throw new UploadError('The file is not a readable image', 415)
+  }
+
+  const extension = metadata.format ? FORMATS[metadata.format] : undefined
+  if (!extension || !metadata.width || !metadata.height) {
+    throw new UploadError('Unsupported image format. Use JPEG, PNG, WebP, GIF or AVIF.', 415)
+  }
+
+  // Displayed size, after any EXIF rotation
+  const { width, height } = metadata.autoOrient
+
+  const hash = crypto.createHash('sha1').update(buffer).digest('hex').slice(0, 8)
+  const name = `${baseName(file.name)}-${hash}`
+  await fs.mkdir(UPLOADS_DIR, { recursive: true })
+
+  const original = path.join(UPLOADS_DIR, `${name}.${extension}`)
+  if (!(await exists(original))) {
+    await fs.writeFile(original, buffer)
+  }
+
+  const variants: UploadedImage['variants'] = []
+  for (const variantWidth of VARIANT_WIDTHS.filter(w => w < width)) {
+    const fileName = `${name}-${variantWidth}w.webp`
+    const filePath = path.join(UPLOADS_DIR, fileName)
+    if (!(await exists(filePath))) {
+      await sharp(buffer, { animated: true })
+        .rotate()
+        .resize({ width: variantWidth })
+        .webp()
+        .toFile(filePath)
+    }
+    variants.push({ src: `${UPLOADS_URL}/${fileName}`, width: variantWidth })
+  }
+
+  console.log(`[upload] Stored ${name}.${extension} (${width}x${height}, ${variants.length} variant(s))`)
+
+  return { src: `${UPLOADS_URL}/${name}.${extension}`, width, height, variants }
+}
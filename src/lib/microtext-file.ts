@@ -0,0 +1,399 @@
+/**
+ * Microtext File Helpers
+ *
+ * Server-side helpers shared by the API routes for locating MDX pages,
+ * reading and writing their frontmatter, and versioning content.
+ *
+ * Versions:
+ *   Page:  hash of the raw file contents (sent as the ETag)
+ *   Field: hash of the JSON-serialized value at a microtext path
+ */
+
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import path from 'path'
+import matter from 'gray-matter'
+import { patchFrontmatter } from './frontmatter-writer'
+import { DEFAULT_LOCALE, microtextKey } from './locales'
+import { isImageValue, isLinkValue, type MicrotextSchema, type Violation } from './microtext-schema'
+
+export const PAGES_DIR = path.join(process.cwd(), 'src/pages')
+export const SCHEMAS_DIR = path.join(process.cwd(), 'src/schemas')
+
+export interface PageFile {
+  slug: string
+  filePath: string
+  raw: string
+  frontmatter: Record<string, any>
+  body: string
+  version: string
+}
+
+/**
+ * Thrown when a write's base version no longer matches the server
+ */
+export class VersionConflictError extends Error {
+  constructor(
+    public id: string | null,
+    public baseVersion: string,
+    public currentVersion: string,
+    public currentValue: unknown
+  ) {
+    super(`Version conflict${id ? ` on ${id}` : ''}: content changed on the server`)
+    this.name = 'VersionConflictError'
+  }
+}
+
+/**
+ * Thrown when a write breaks the page's microtext schema
+ */
+export class SchemaViolationError extends Error {
+  constructor(public violations: Violation[]) {
+    super(`Validation failed: ${violations.map(v => `${v.id}: ${v.message}`).join('; ')}`)
+    this.name = 'SchemaViolationError'
+  }
+}
+
+/**
+ * Hash a string into a short, stable version token
+ */
+export function hashContent(content: string): string {
+  return crypto.createHash('sha1').update(content).digest('hex').slice(0, 16)
+}
+
+/**
+ * Version of a single microtext value (undefined values share one version)
+ */
+export function versionOf(value: unknown): string {
+  return hashContent(JSON.stringify(value ?? null))
+}
+
+// Helper to get a nested value by dot-notation path
+export function getNestedValue(obj: any, pathStr: string): any {
+  if (!pathStr) return obj
+  return pathStr.split('.').reduce((current, key) => {
+    if (current === undefined || current === null) return undefined
+    const index = parseInt(key, 10)
+    if (!isNaN(index) && Array.isArray(current)) {
+      return current[index]
+    }
+    return current[key]
+  }, obj)
+}
+
+// Keep arrays dense: setting past the end (e.g. translating only the third
+// item of a list) fills the gap with nulls
+function padArray(current: any, key: string): void {
+  const index = parseInt(key, 10)
+  if (!Array.isArray(current) || isNaN(index)) return
+  while (current.length < index) current.push(null)
+}
+
+// Helper to set a nested value by dot-notation path
+export function setNestedValue(obj: any, pathStr: string, value: any): void {
+  const parts = pathStr.split('.')
+  let current = obj
+
+  for (let i = 0; i < parts.length - 1; i++) {
+    const key = parts[i]
+    const nextKey = parts[i + 1]
+    const nextIsIndex = !isNaN(parseInt(nextKey, 10))
+
+    if (current[key] === undefined || current[key] === null) {
+      padArray(current, key)
+      current[key] = nextIsIndex ? [] : {}
+    }
+    current = current[key]
+  }
+
+  const lastKey = parts[parts.length - 1]
+  const index = parseInt(lastKey, 10)
+  if (!isNaN(index) && Array.isArray(current)) {
+    padArray(current, lastKey)
+    current[index] = value
+  } else {
+    current[lastKey] = value
+  }
+}
+
+// Helper to remove a nested value by dot-notation path (array items are spliced out)
+export function unsetNestedValue(obj: any, pathStr: string): void {
+  const parts = pathStr.split('.')
+  const parent = parts.length > 1 ? getNestedValue(obj, parts.slice(0, -1).join('.')) : obj
+  if (parent === undefined || parent === null || typeof parent !== 'object') return
+
+  const lastKey = parts[parts.length - 1]
+  const index = parseInt(lastKey, 10)
+  if (!isNaN(index) && Array.isArray(parent)) {
+    parent.splice(index, 1)
+  } else {
+    delete parent[lastKey]
+  }
+}
+
+// Flatten nested microtext into id -> value map. Of an image only the alt
+// text is listed, of a link only the label: what AI edits and find & replace
+// may change without breaking sources and URLs.
+export function flattenMicrotext(obj: any, prefix = ''): Record<string, string> {
+  const result: Record<string, string> = {}
+
+  for (const [key, value] of Object.entries(obj)) {
+    const fullKey = prefix ? `${prefix}.${key}` : key
+
+    if (typeof value === 'string') {
+      result[fullKey] = value
+    } else if (isImageValue(value)) {
+      if (typeof value.alt === 'string') result[`${fullKey}.alt`] = value.alt
+    } else if (isLinkValue(value)) {
+      if (typeof value.label === 'string') result[`${fullKey}.label`] = value.label
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => {
+        if (typeof item === 'string') {
+          result[`${fullKey}.${index}`] = item
+        } else if (item !== null && typeof item === 'object') {
+          Object.assign(result, flattenMicrotext({ [index]: item }, fullKey))
+        }
+      })
+    } else if (typeof value === 'object' && value !== null) {
+      Object.assign(result, flattenMicrotext(value, fullKey))
+    }
+  }
+
+  return result
+}
+
+/**
+ * Field versions for every flattened microtext id
+ */
+export function getFieldVersions(microtext: Record<string, any>): Record<string, string> {
+  const versions: Record<string, string> = {}
+  for (const [id, value] of Object.entries(flattenMicrotext(microtext))) {
+    versions[id] = versionOf(value)
+  }
+  return versions
+}
+
+/**
+ * Normalize a page slug (empty means index)
+ */
+export function normalizeSlug(pageSlug?: string | null): string {
+  return !pageSlug || pageSlug === '' ? 'index' : pageSlug
+}
+
+/**
+ * Resolve a page slug to its MDX file, or null if missing / outside src/pages
+ */
+export async function resolvePagePath(pageSlug?: string | null): Promise<string | null> {
+  const slug = normalizeSlug(pageSlug)
+
+  // Prevent path traversal attacks
+  const safePath = path.normalize(slug).replace(/^(\.\.(\/|\\|$))+/, '')
+
+  const candidates = [
+    path.join(PAGES_DIR, `${safePath}.mdx`),
+    // Directory with index.mdx
+    path.join(PAGES_DIR, safePath, 'index.mdx'),
+  ]
+
+  for (const filePath of candidates) {
+    try {
+      const realPath = await fs.realpath(filePath)
+      return realPath.startsWith(PAGES_DIR) ? filePath : null
+    } catch {
+      // Try next candidate
+    }
+  }
+  return null
+}
+
+/**
+ * Every MDX page under src/pages, by slug ("about", "blog" for blog/index.mdx)
+ */
+export async function listPages(): Promise<{ slug: string; filePath: string }[]> {
+  const entries = await fs.readdir(PAGES_DIR, { recursive: true, withFileTypes: true })
+  return entries
+    .filter(entry => entry.isFile() && entry.name.endsWith('.mdx'))
+    .map((entry) => {
+      const filePath = path.join(entry.parentPath, entry.name)
+      const relative = path.relative(PAGES_DIR, filePath).split(path.sep).join('/').replace(/\.mdx$/, '')
+      return { slug: relative.replace(/\/index$/, '') || 'index', filePath }
+    })
+    .sort((a, b) => a.slug.localeCompare(b.slug))
+}
+
+/**
+ * Parse raw MDX source into a PageFile
+ */
+export function parsePage(slug: string, filePath: string, raw: string): PageFile {
+  // Passing options disables gray-matter's cache, which would otherwise hand
+  // back the same (possibly mutated) data object for identical input
+  const { data, content } = matter(raw, {})
+  return {
+    slug,
+    filePath,
+    raw,
+    frontmatter: data,
+    body: content,
+    version: hashContent(raw),
+  }
+}
+
+/**
+ * Read and parse an MDX page
+ */
+export async function readPage(slug: string, filePath: string): Promise<PageFile> {
+  const raw = await fs.readFile(filePath, 'utf-8')
+  return parsePage(slug, filePath, raw)
+}
+
+/**
+ * Serialize the page's (mutated) frontmatter back to MDX source. Only the
+ * changed YAML is rewritten (see frontmatter-writer); pages whose
+ * frontmatter can't be patched are re-serialized whole.
+ */
+export function serializePage(page: PageFile): string {
+  const { data: original } = matter(page.raw, {})
+  return patchFrontmatter(page.raw, original, page.frontmatter)
+    ?? matter.stringify(page.body, page.frontmatter)
+}
+
+/**
+ * Serialize the page's (mutated) frontmatter and write it back.
+ * Returns the new page version.
+ */
+export async function writePage(page: PageFile): Promise<string> {
+  const updated = serializePage(page)
+  await fs.writeFile(page.filePath, updated, 'utf-8')
+  return hashContent(updated)
+}
+
+/**
+ * Check that a dot-notation id can be set without clobbering a scalar
+ * on the way (e.g. "hero-headline.0" when hero-headline is a string).
+ * Returns an error message, or null if the path is writable.
+ */
+export function validatePath(microtext: Record<string, any>, id: string): string | null {
+  if (typeof id !== 'string' || !id.trim()) return 'id must be a non-empty string'
+
+  const parts = id.split('.')
+  if (parts.some(part => part === '')) return `Invalid path: ${id}`
+
+  let current: any = microtext
+  for (let i = 0; i < parts.length - 1; i++) {
+    const next = getNestedValue(current, parts[i])
+    if (next === undefined || next === null) return null
+    if (typeof next !== 'object') {
+      return `Cannot set ${id}: ${parts.slice(0, i + 1).join('.')} is not an object or array`
+    }
+    current = next
+  }
+  return null
+}
+
+const pageLocks = new Map<string, Promise<unknown>>()
+
+/**
+ * Run a read-modify-write cycle with exclusive access to a page file,
+ * so concurrent requests in this process can't interleave.
+ */
+export async function withPageLock<T>(filePath: string, fn: () => Promise<T>): Promise<T> {
+  const previous = pageLocks.get(filePath) || Promise.resolve()
+  const run = previous.catch(() => {}).then(fn)
+  pageLocks.set(filePath, run)
+
+  try {
+    return await run
+  } finally {
+    if (pageLocks.get(filePath) === run) {
+      pageLocks.delete(filePath)
+    }
+  }
+}
+
+/**
+ * Lock several page files at once. Locks are taken in a fixed order so two
+ * batches touching the same files can't deadlock.
+ */
+export async function withPageLocks<T>(filePaths: string[], fn: () => Promise<T>): Promise<T> {
+  const [first, ...rest] = [...new Set(filePaths)].sort()
+  if (!first) return fn()
+  return withPageLock(first, () => withPageLocks(rest, fn))
+}
+
+/**
+ * Read the base version a client wrote against: If-Match header or body.baseVersion
+ */
+export function getBaseVersion(request: Request, body: { baseVersion?: string }): string | null {
+  const ifMatch = request.headers.get('If-Match')
+  if (ifMatch) return ifMatch.replace(/^W\//, '').replace(/"/g, '').trim()
+  return body.baseVersion || null
+}
+
+/**
+ * Throw a VersionConflictError if the base version is stale.
+ * A base matches either the field's own version or the whole page version.
+ * Field ids are looked up in the given locale's microtext.
+ */
+export function assertFresh(
+  page: PageFile,
+  id: string | null,
+  baseVersion: string | null,
+  locale: string = DEFAULT_LOCALE
+): void {
+  if (!baseVersion) return
+  if (baseVersion === page.version) return
+
+  const microtext = page.frontmatter[microtextKey(locale)] || {}
+  const currentValue = id ? getNestedValue(microtext, id) : microtext
+  const currentVersion = id ? versionOf(currentValue) : page.version
+
+  if (baseVersion !== currentVersion) {
+    throw new VersionConflictError(id, baseVersion, currentVersion, currentValue)
+  }
+}
+
+/**
+ * Build the 409 response for a version conflict
+ */
+export function conflictResponse(error: VersionConflictError): Response {
+  return new Response(
+    JSON.stringify({
+      error: error.message,
+      conflict: {
+        id: error.id,
+        baseVersion: error.baseVersion,
+        currentVersion: error.currentVersion,
+        currentValue: error.currentValue,
+      },
+    }),
+    { status: 409, headers: { 'Content-Type': 'application/json' } }
+  )
+}
+
+/**
+ * Load a page's microtext schema: inline in frontmatter.microtextSchema,
+ * or the name of a shared schema in src/schemas/{name}.json
+ */
+export async function loadPageSchema(frontmatter: Record<string, any>): Promise<MicrotextSchema | null> {
+  const declared = frontmatter.microtextSchema
+  if (!declared) return null
+  if (typeof declared === 'object') return declared as MicrotextSchema
+
+  const name = String(declared).replace(/[^a-zA-Z0-9_-]/g, '')
+  try {
+    const content = await fs.readFile(path.join(SCHEMAS_DIR, `${name}.json`), 'utf-8')
+    return JSON.parse(content) as MicrotextSchema
+  } catch (error) {
+    throw new Error(`Microtext schema not found or invalid: ${name}`)
+  }
+}
+
+/**
+ * Build the 422 response for schema violations
+ */
+export function violationResponse(violations: Violation[]): Response {
+  return new Response(
+    JSON.stringify({ error: 'Validation failed', violations }),
+    { status: 422, headers: { 'Content-Type': 'application/json' } }
+  )
+}
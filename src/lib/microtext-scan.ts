@@ -0,0 +1,367 @@
+/**
+ * Microtext Scanner
+ *
+ * Compares the microtext ids a page's MDX body uses with the keys in its
+ * frontmatter:
+ *
+ *   missing        used by a component, absent from frontmatter (the page
+ *                  shows "[missing: id]")
+ *   orphaned       in frontmatter (any locale), used by nothing
+ *   type-mismatch  used as text but holds a list or object, or declared as
+ *                  a list in the schema; used as an image or link but holds
+ *                  something else
+ *
+ * Usages are `<MicroText id=...>`, `<MicroImage id=...>` and
+ * `<MicroLink id=...>` tags and `data-microtext="..."` attributes. Template ids such as {`features.${i}.title`} become patterns
+ * (`features.*.title`) matched against every item of the list. Ids built
+ * any other way can't be resolved and are listed as dynamic.
+ */
+
+import path from 'path'
+import YAML, { LineCounter } from 'yaml'
+import {
+  flattenMicrotext,
+  getNestedValue,
+  listPages,
+  loadPageSchema,
+  readPage,
+  unsetNestedValue,
+  type PageFile,
+} from './microtext-file'
+import { getFieldSchema, isImageValue, isLinkValue } from './microtext-schema'
+import { DEFAULT_LOCALE, LOCALES, microtextKey } from './locales'
+
+export interface MicrotextUsage {
+  /** Literal id, or pattern with `*` for template parts */
+  id: string
+  /** 1-based line in the MDX file */
+  line: number
+  /** Rendered by MicroImage or MicroLink (text otherwise) */
+  renders?: 'image' | 'link'
+}
+
+export type ScanIssueKind = 'missing' | 'orphaned' | 'type-mismatch'
+
+export interface ScanIssue {
+  kind: ScanIssueKind
+  id: string
+  message: string
+  /** Set for translations */
+  locale?: string
+  /** Line of the usage (missing, type-mismatch) or of the key (orphaned) */
+  line?: number
+}
+
+export interface PageScan {
+  pageSlug: string
+  filePath: string
+  usages: MicrotextUsage[]
+  /** Ids computed at render time, which can't be checked */
+  dynamic: { expression: string; line: number }[]
+  issues: ScanIssue[]
+  /** Fields without a translation, per locale */
+  untranslated: Record<string, number>
+}
+
+const ID_ATTR = /(?<![\w-])id\s*=\s*(?:"([^"]*)"|'([^']*)'|\{\s*(?:`([^`]*)`|"([^"]*)"|'([^']*)')\s*\})/
+const DYNAMIC_ID_ATTR = /(?<![\w-])id\s*=\s*\{([^}]*)\}/
+const DATA_ATTR = /(?<![\w-])data-microtext\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+function lineAt(source: string, index: number): number {
+  let line = 1
+  for (let i = 0; i < index; i++) {
+    if (source.charCodeAt(i) === 10) line++
+  }
+  return line
+}
+
+/**
+ * End of a JSX tag starting at `start`, skipping `>` inside quotes and
+ * {expressions}
+ */
+function tagEnd(source: string, start: number): number {
+  let depth = 0
+  let quote: string | null = null
+
+  for (let i = start; i < source.length; i++) {
+    const ch = source[i]
+    if (quote) {
+      if (ch === quote) quote = null
+    } else if (ch === '"' || ch === "'" || ch === '`') {
+      quote = ch
+    } else if (ch === '{') {
+      depth++
+    } else if (ch === '}') {
+      depth--
+    } else if (ch === '>' && depth <= 0) {
+      return i
+    }
+  }
+  return source.length
+}
+
+/**
+ * Find the microtext ids used in an MDX file
+ */
+export function findUsages(raw: string): { usages: MicrotextUsage[]; dynamic: PageScan['dynamic'] } {
+  const usages: MicrotextUsage[] = []
+  const dynamic: PageScan['dynamic'] = []
+
+  for (const match of raw.matchAll(/<Micro(Text|Image|Link)\b/g)) {
+    const start = match.index!
+    const tag = raw.slice(start, tagEnd(raw, start) + 1)
+    const line = lineAt(raw, start)
+    const renders = match[1] === 'Image' ? 'image' : match[1] === 'Link' ? 'link' : undefined
+
+    const literal = tag.match(ID_ATTR)
+    if (literal) {
+      const id = literal.slice(1).find(group => group !== undefined)!
+      usages.push({ id: id.replace(/\$\{[^}]*\}/g, '*'), line, ...(renders ? { renders } : {}) })
+      continue
+    }
+
+    const expression = tag.match(DYNAMIC_ID_ATTR)
+    if (expression) {
+      dynamic.push({ expression: expression[1].trim(), line })
+    }
+  }
+
+  for (const match of raw.matchAll(DATA_ATTR)) {
+    usages.push({ id: match[1] ?? match[2], line: lineAt(raw, match.index!) })
+  }
+
+  return { usages, dynamic }
+}
+
+/**
+ * Whether a usage (literal or pattern) covers a frontmatter key. A usage
+ * of "features" also covers "features.0.title".
+ */
+function covers(usage: string, key: string): boolean {
+  const pattern = usage.split('.')
+  const parts = key.split('.')
+  if (pattern.length > parts.length) return false
+  return pattern.every((segment, i) => segment === '*' || segment === parts[i])
+}
+
+/**
+ * Concrete ids for a usage pattern, or the path where expansion failed
+ * because a `*` didn't land on a list
+ */
+function expand(microtext: Record<string, any>, pattern: string): { ids: string[]; notAList?: string } {
+  let ids = ['']
+  for (const segment of pattern.split('.')) {
+    if (segment !== '*') {
+      ids = ids.map(id => (id ? `${id}.${segment}` : segment))
+      continue
+    }
+
+    const next: string[] = []
+    for (const id of ids) {
+      const list = getNestedValue(microtext, id)
+      if (!Array.isArray(list)) return { ids: [], notAList: id }
+      list.forEach((_, index) => next.push(`${id}.${index}`))
+    }
+    ids = next
+  }
+  return { ids }
+}
+
+/**
+ * Locate microtext keys in the file's YAML frontmatter. Returns a lookup of
+ * the 1-based file line of a key, if found.
+ */
+export function frontmatterLines(raw: string): (id: string, locale?: string) => number | undefined {
+  const match = raw.match(/^---\r?\n([\s\S]*?)\r?\n---/)
+  if (!match) return () => undefined
+
+  const lineCounter = new LineCounter()
+  const doc = YAML.parseDocument(match[1], { lineCounter })
+
+  return (id, locale = DEFAULT_LOCALE) => {
+    const keys = [microtextKey(locale), ...id.split('.').map(part => (/^\d+$/.test(part) ? Number(part) : part))]
+    const node = doc.getIn(keys, true) as { range?: [number, number, number] } | undefined
+    // +1 for the opening "---"
+    return node?.range ? lineCounter.linePos(node.range[0]).line + 1 : undefined
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (Array.isArray(value)) return 'a list'
+  if (isImageValue(value)) return 'an image'
+  if (isLinkValue(value)) return 'a link'
+  return typeof value === 'object' ? 'an object' : 'text'
+}
+
+/**
+ * Why a value can't be rendered by the usage, if it can't
+ */
+function typeMismatch(usage: MicrotextUsage, id: string, value: unknown): string | null {
+  if (usage.renders === 'image') {
+    return isImageValue(value) ? null : `${id} is ${describeValue(value)}, not an image`
+  }
+  if (usage.renders === 'link') {
+    return isLinkValue(value) ? null : `${id} is ${describeValue(value)}, not a link`
+  }
+  return typeof value === 'object' ? `${id} is ${describeValue(value)}, not text` : null
+}
+
+/**
+ * Scan one page
+ */
+export async function scanPage(page: PageFile): Promise<PageScan> {
+  const { usages, dynamic } = findUsages(page.raw)
+  const frontmatter = page.frontmatter
+  const microtext = frontmatter.microtext || {}
+  const schema = await loadPageSchema(frontmatter)
+  const issues: ScanIssue[] = []
+  const reported = new Set<string>()
+
+  const report = (issue: ScanIssue) => {
+    const key = `${issue.kind}:${issue.locale ?? ''}:${issue.id}`
+    if (reported.has(key)) return
+    reported.add(key)
+    issues.push(issue)
+  }
+
+  // Every used id must exist and hold text, in every locale that has it
+  const usedIds = new Set<string>()
+  for (const usage of usages) {
+    const { ids, notAList } = expand(microtext, usage.id)
+    if (notAList !== undefined) {
+      report({ kind: 'missing', id: usage.id, line: usage.line, message: `${notAList || 'microtext'} is not a list` })
+      continue
+    }
+
+    for (const id of ids) {
+      usedIds.add(id)
+      const value = getNestedValue(microtext, id)
+      if (value === undefined || value === null) {
+        report({ kind: 'missing', id, line: usage.line, message: `No value for ${id}` })
+        continue
+      }
+      const mismatch = typeMismatch(usage, id, value)
+      if (mismatch) {
+        report({ kind: 'type-mismatch', id, line: usage.line, message: mismatch })
+      } else if (getFieldSchema(schema, id)?.type === 'array') {
+        report({ kind: 'type-mismatch', id, line: usage.line, message: `${id} is declared as a list in the schema` })
+      }
+
+      for (const locale of LOCALES.filter(l => l !== DEFAULT_LOCALE)) {
+        const translated = getNestedValue(frontmatter[microtextKey(locale)] || {}, id)
+        if (translated === undefined || translated === null) continue
+        // Translations of images and links may override single parts, such as the label
+        const merged = usage.renders && typeof value === 'object' && typeof translated === 'object' && !Array.isArray(translated)
+          ? { ...value, ...translated }
+          : translated
+        const translatedMismatch = typeMismatch(usage, `${id} (${locale})`, merged)
+        if (translatedMismatch) {
+          report({ kind: 'type-mismatch', id, locale, line: usage.line, message: translatedMismatch })
+        }
+      }
+    }
+  }
+
+  // Keys nothing uses (ids computed at render time could use anything)
+  if (dynamic.length === 0) {
+    const keyLine = frontmatterLines(page.raw)
+    for (const locale of LOCALES) {
+      for (const key of Object.keys(flattenMicrotext(frontmatter[microtextKey(locale)] || {}))) {
+        if (usages.some(usage => covers(usage.id, key))) continue
+        report({
+          kind: 'orphaned',
+          id: key,
+          message: `${key} is not used on the page`,
+          line: keyLine(key, locale),
+          ...(locale !== DEFAULT_LOCALE ? { locale } : {}),
+        })
+      }
+    }
+  }
+
+  const untranslated: Record<string, number> = {}
+  for (const locale of LOCALES.filter(l => l !== DEFAULT_LOCALE)) {
+    const translation = frontmatter[microtextKey(locale)] || {}
+    untranslated[locale] = [...usedIds].filter(id => {
+      const value = getNestedValue(translation, id)
+      return value === undefined || value === null
+    }).length
+  }
+
+  return { pageSlug: page.slug, filePath: page.filePath, usages, dynamic, issues, untranslated }
+}
+
+/**
+ * Scan every page, or the one given
+ */
+export async function scanPages(pageSlug?: string): Promise<PageScan[]> {
+  const pages = (await listPages()).filter(page => !pageSlug || page.slug === pageSlug)
+  return Promise.all(pages.map(async ({ slug, filePath }) => scanPage(await readPage(slug, filePath))))
+}
+
+export function hasMissing(scan: PageScan): boolean {
+  return scan.issues.some(issue => issue.kind === 'missing')
+}
+
+/**
+ * Remove a page's orphaned keys from its frontmatter (in memory).
+ *
+ * List items are never removed: that would shift the indexes of the items
+ * after them. Orphaned fields inside list items are removed. Returns the
+ * removed keys with their old values.
+ *
+ * Pages with missing ids are left alone (see hasMissing): an orphan may be
+ * the key a misspelled id was meant to use.
+ */
+export function pruneOrphans(page: PageFile, scan: PageScan): { id: string; locale: string; value: unknown }[] {
+  const pruned: { id: string; locale: string; value: unknown }[] = []
+  if (hasMissing(scan)) return pruned
+
+  for (const locale of LOCALES) {
+    const microtext = page.frontmatter[microtextKey(locale)]
+    if (!microtext) continue
+
+    const orphans = scan.issues
+      .filter(issue => issue.kind === 'orphaned' && (issue.locale ?? DEFAULT_LOCALE) === locale)
+      .map(issue => issue.id)
+    const isOrphan = (key: string) => orphans.includes(key)
+
+    // Remove the highest path whose keys are all orphaned
+    const roots = new Set<string>()
+    for (const key of orphans) {
+      const parts = key.split('.')
+      let root = key
+      for (let depth = parts.length - 1; depth >= 1; depth--) {
+        const parent = parts.slice(0, depth).join('.')
+        const leaves = Object.keys(flattenMicrotext({ [parent]: getNestedValue(microtext, parent) }))
+        if (leaves.length === 0 || !leaves.every(isOrphan)) break
+        root = parent
+      }
+      roots.add(root)
+    }
+
+    for (const root of roots) {
+      if (/^\d+$/.test(root.split('.').pop()!)) continue
+      pruned.push({ id: root, locale, value: getNestedValue(microtext, root) })
+      unsetNestedValue(microtext, root)
+    }
+
+    if (locale !== DEFAULT_LOCALE && Object.keys(microtext).length === 0) {
+      delete page.frontmatter[microtextKey(locale)]
+    }
+  }
+
+  return pruned
+}
+
+/**
+ * One line per issue, `file:line  kind  message`, for terminals and build logs
+ */
+export function formatIssues(scan: PageScan, root: string = process.cwd()): string[] {
+  const file = path.relative(root, scan.filePath)
+  return scan.issues.map((issue) => {
+    const location = issue.line ? `${file}:${issue.line}` : file
+    const locale = issue.locale ? ` [${issue.locale}]` : ''
+    return `${location}  ${issue.kind}${locale}  ${issue.message}`
+  })
+}
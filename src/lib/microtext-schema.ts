@@ -0,0 +1,469 @@
+/**
+ * Microtext Schema
+ *
+ * Declares what each microtext field may contain and validates values.
+ * Pure functions only, so the editor can share the server's rules.
+ *
+ * Declared in page frontmatter, inline or by name (src/schemas/{name}.json):
+ *
+ *   microtextSchema:
+ *     hero-headline: { type: text, required: true, maxLength: 80 }
+ *     contact-phone: { type: phone }
+ *     features:
+ *       type: array
+ *       maxItems: 6
+ *       items:
+ *         title: { type: text, required: true, maxLength: 40 }
+ *         desc: { type: markdown, maxLength: 160 }
+ *     bio: { type: markdown, block: true }   # paragraphs and lists
+ *
+ *   microtextSchema: therapist
+ *
+ * Arrays of strings use a single field spec for items: `items: { type: text }`.
+ *
+ * Image fields hold an object rather than text (see ImageValue):
+ *
+ *     hero-image: { type: image, required: true, maxLength: 120 }
+ *
+ * `maxLength` applies to the alt text, which is required unless the image is
+ * declared `decorative: true`.
+ *
+ * Link fields hold { label, href, target?, rel? } (see LinkValue);
+ * `maxLength` applies to the label:
+ *
+ *     cta-primary: { type: link, maxLength: 30 }
+ *
+ * Parts of image and link fields can be written on their own ("cta.label",
+ * "hero-image.alt") and are checked by the rules for that part.
+ *
+ * Link URLs are checked whether or not the page declares them: any `href`
+ * in a value, or written on its own ("cta.href"), must be a URL.
+ */
+
+export type FieldType = 'text' | 'markdown' | 'url' | 'email' | 'phone' | 'number' | 'enum' | 'image' | 'link'
+
+export interface FieldSchema {
+  type: FieldType
+  required?: boolean
+  minLength?: number
+  maxLength?: number
+  /** number: inclusive bounds */
+  min?: number
+  max?: number
+  /** enum: allowed values */
+  values?: string[]
+  /** Regular expression the whole value must match */
+  pattern?: string
+  /** image: may have empty alt text */
+  decorative?: boolean
+  /** markdown: paragraphs and lists (rendered with markdown="block") */
+  block?: boolean
+  /** Shown to editors alongside the constraints */
+  description?: string
+}
+
+export interface ArraySchema {
+  type: 'array'
+  required?: boolean
+  minItems?: number
+  maxItems?: number
+  items?: FieldSchema | Record<string, FieldSchema>
+  description?: string
+}
+
+export type SchemaEntry = FieldSchema | ArraySchema
+
+/**
+ * Value of an image field. Uploads (see lib/media-upload.ts) fill in the
+ * size and the responsive variants; `focal` is the point to keep in view
+ * when the image is cropped, as fractions of width and height.
+ */
+export interface ImageValue {
+  src: string
+  alt: string
+  width?: number
+  height?: number
+  focal?: { x: number; y: number }
+  variants?: { src: string; width: number }[]
+}
+
+/**
+ * Value of a link field. An empty `target` opens in the same tab.
+ */
+export interface LinkValue {
+  label: string
+  href: string
+  target?: string
+  rel?: string
+}
+
+export const LINK_PARTS = ['label', 'href', 'target', 'rel'] as const
+
+export const LINK_TARGETS = ['_self', '_blank']
+
+export type MicrotextSchema = Record<string, SchemaEntry>
+
+export interface Violation {
+  id: string
+  rule: string
+  message: string
+}
+
+export const FIELD_TYPES: FieldType[] = ['text', 'markdown', 'url', 'email', 'phone', 'number', 'enum', 'image', 'link']
+
+const TYPE_LABELS: Record<FieldType, string> = {
+  text: 'Plain text',
+  markdown: 'Text with **bold**, *italic*, [links](url)',
+  url: 'URL',
+  email: 'Email address',
+  phone: 'Phone number',
+  number: 'Number',
+  enum: 'One of a fixed set',
+  image: 'Image',
+  link: 'Link',
+}
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const PHONE_RE = /^\+?[\d\s().-]+$/
+// Paths, but not "//host" or "/\host", which browsers treat as another site
+const URL_RE = /^(https?:\/\/[^\s]+|\/(?![/\\])[^\s]*|#[^\s]*|mailto:[^\s]+|tel:[^\s]+)$/
+const SAFE_SCHEMES = ['http', 'https', 'mailto', 'tel']
+const MARKDOWN_RE = /(\*\*|__|`|\[[^\]]*\]\([^)]*\)|(^|\s)[*_]\S)/
+const REL_PATTERN = '[a-z]+( [a-z]+)*'
+
+function isArraySchema(entry: SchemaEntry | undefined): entry is ArraySchema {
+  return entry?.type === 'array'
+}
+
+// A declared field or array (as opposed to a map of nested fields)
+function isFieldSchema(entry: unknown): entry is SchemaEntry {
+  return typeof entry === 'object' && entry !== null && typeof (entry as SchemaEntry).type === 'string'
+}
+
+/**
+ * Rules for one part of an image or link field, written on its own
+ */
+function partSchema(spec: FieldSchema, part: string): FieldSchema | undefined {
+  if (spec.type === 'link') {
+    if (part === 'label') return { type: 'text', required: true, maxLength: spec.maxLength }
+    if (part === 'href') return { type: 'url', required: true }
+    if (part === 'target') return { type: 'enum', values: LINK_TARGETS }
+    if (part === 'rel') return { type: 'text', pattern: REL_PATTERN }
+  }
+  if (spec.type === 'image' && part === 'alt') {
+    return { type: 'text', required: !spec.decorative, maxLength: spec.maxLength }
+  }
+  return undefined
+}
+
+/**
+ * Find the schema entry for a microtext id.
+ *
+ *   "hero-headline"     -> field schema
+ *   "features"          -> array schema
+ *   "features.0"        -> item schema (field, or map of fields)
+ *   "features.0.title"  -> item field schema
+ *   "cta.href"          -> rules for that part of a link (see partSchema)
+ */
+export function getFieldSchema(
+  schema: MicrotextSchema | null | undefined,
+  id: string
+): SchemaEntry | Record<string, FieldSchema> | undefined {
+  if (!schema) return undefined
+  if (schema[id]) return schema[id]
+
+  const parts = id.split('.')
+  let current: any = schema[parts[0]]
+
+  for (const part of parts.slice(1)) {
+    if (!current) return undefined
+    if (isArraySchema(current) && !isNaN(parseInt(part, 10))) {
+      current = current.items
+    } else if (!isFieldSchema(current) || isArraySchema(current)) {
+      current = current[part]
+    } else {
+      current = partSchema(current as FieldSchema, part)
+    }
+  }
+
+  return current
+}
+
+/**
+ * Whether a value has the shape of an image field (an object with a src)
+ */
+export function isImageValue(value: unknown): value is ImageValue {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && typeof (value as ImageValue).src === 'string'
+}
+
+const isPositiveInteger = (n: unknown) => typeof n === 'number' && Number.isInteger(n) && n > 0
+const isFraction = (n: unknown) => typeof n === 'number' && n >= 0 && n <= 1
+
+/**
+ * Whether a value has the shape of a link field (an object with an href)
+ */
+export function isLinkValue(value: unknown): value is LinkValue {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && typeof (value as LinkValue).href === 'string'
+}
+
+/**
+ * Whether a link's href is safe to render: relative, or http(s), mailto or
+ * tel. Browsers ignore whitespace and control characters in a scheme
+ * ("java\tscript:"), so they are dropped before it is read.
+ */
+export function isSafeHref(href: string): boolean {
+  const scheme = href.replace(/[\u0000-\u0020]/g, '').match(/^([a-z][a-z\d+.-]*):/i)?.[1]
+  return !scheme || SAFE_SCHEMES.includes(scheme.toLowerCase())
+}
+
+/**
+ * Check every `href` in a value written to `id`, declared or not
+ */
+export function validateHrefs(id: string, value: unknown): Violation[] {
+  if (id.split('.').pop() === 'href') return validateField({ type: 'url' }, value, id)
+  if (typeof value !== 'object' || value === null) return []
+  return Object.entries(value).flatMap(([key, item]) => validateHrefs(`${id}.${key}`, item))
+}
+
+/**
+ * Validate a link field's value, part by part
+ */
+function validateLink(spec: FieldSchema, value: unknown, id: string): Violation[] {
+  if (!isLinkValue(value)) return [{ id, rule: 'type', message: 'Expected a link with a label and URL' }]
+  return LINK_PARTS.flatMap(part => validateField(partSchema(spec, part)!, value[part], `${id}.${part}`))
+}
+
+/**
+ * Validate an image field's value
+ */
+function validateImage(spec: FieldSchema, value: unknown, id: string): Violation[] {
+  const violations: Violation[] = []
+  const fail = (rule: string, message: string) => violations.push({ id, rule, message })
+
+  if (!isImageValue(value)) {
+    fail('type', 'Expected an image')
+    return violations
+  }
+
+  if (!URL_RE.test(value.src)) fail('type', 'Image source must be a URL (https://… or /path)')
+
+  const alt = typeof value.alt === 'string' ? value.alt : ''
+  if (value.alt !== undefined && typeof value.alt !== 'string') {
+    fail('type', 'Alt text must be text')
+  } else if (!alt.trim() && !spec.decorative) {
+    fail('alt', 'Alt text is required')
+  }
+  if (/[\r\n]/.test(alt)) fail('type', 'Line breaks are not allowed in alt text')
+  if (spec.maxLength !== undefined && alt.length > spec.maxLength) {
+    fail('maxLength', `Alt text must be at most ${spec.maxLength} characters (currently ${alt.length})`)
+  }
+
+  if (value.width !== undefined && !isPositiveInteger(value.width)) fail('type', 'Width must be a whole number of pixels')
+  if (value.height !== undefined && !isPositiveInteger(value.height)) fail('type', 'Height must be a whole number of pixels')
+  if (value.focal !== undefined && !(isFraction(value.focal?.x) && isFraction(value.focal?.y))) {
+    fail('type', 'Focal point must have x and y between 0 and 1')
+  }
+  if (value.variants !== undefined) {
+    const valid = Array.isArray(value.variants) && value.variants.every(v =>
+      typeof v?.src === 'string' && URL_RE.test(v.src) && isPositiveInteger(v.width))
+    if (!valid) fail('type', 'Variants must be a list of { src, width }')
+  }
+
+  return violations
+}
+
+/**
+ * Validate one scalar value against a field schema
+ */
+export function validateField(spec: FieldSchema, value: unknown, id: string): Violation[] {
+  const violations: Violation[] = []
+  const fail = (rule: string, message: string) => violations.push({ id, rule, message })
+
+  const empty = value === undefined || value === null || String(value).trim() === ''
+  if (empty) {
+    if (spec.required) fail('required', 'This field is required')
+    return violations
+  }
+
+  if (spec.type === 'image') return validateImage(spec, value, id)
+  if (spec.type === 'link') return validateLink(spec, value, id)
+
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    fail('type', `Expected ${TYPE_LABELS[spec.type].toLowerCase()}`)
+    return violations
+  }
+
+  const text = String(value)
+
+  if (spec.type !== 'number' && !(spec.type === 'markdown' && spec.block) && /[\r\n]/.test(text)) {
+    fail('type', 'Line breaks are not allowed')
+  }
+
+  switch (spec.type) {
+    case 'text':
+      if (MARKDOWN_RE.test(text)) fail('type', 'Formatting is not allowed in plain text')
+      break
+    case 'url':
+      if (!URL_RE.test(text)) fail('type', 'Must be a URL (https://…, /path, #anchor, mailto: or tel:)')
+      break
+    case 'email':
+      if (!EMAIL_RE.test(text)) fail('type', 'Must be an email address')
+      break
+    case 'phone':
+      if (!PHONE_RE.test(text) || text.replace(/\D/g, '').length < 7) fail('type', 'Must be a phone number')
+      break
+    case 'number': {
+      const n = Number(text)
+      if (text.trim() === '' || isNaN(n)) {
+        fail('type', 'Must be a number')
+      } else {
+        if (spec.min !== undefined && n < spec.min) fail('min', `Must be at least ${spec.min}`)
+        if (spec.max !== undefined && n > spec.max) fail('max', `Must be at most ${spec.max}`)
+      }
+      break
+    }
+    case 'enum':
+      if (spec.values && !spec.values.includes(text)) fail('enum', `Must be one of: ${spec.values.join(', ')}`)
+      break
+  }
+
+  if (spec.minLength !== undefined && text.length < spec.minLength) {
+    fail('minLength', `Must be at least ${spec.minLength} characters (currently ${text.length})`)
+  }
+  if (spec.maxLength !== undefined && text.length > spec.maxLength) {
+    fail('maxLength', `Must be at most ${spec.maxLength} characters (currently ${text.length})`)
+  }
+  if (spec.pattern && !new RegExp(`^(?:${spec.pattern})$`).test(text)) {
+    fail('pattern', 'Does not match the required format')
+  }
+
+  return violations
+}
+
+/**
+ * Validate an array item: a single field, or an object of fields
+ */
+function validateItem(items: ArraySchema['items'], value: unknown, id: string): Violation[] {
+  if (!items) return []
+  if (isFieldSchema(items)) return validateField(items as FieldSchema, value, id)
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [{ id, rule: 'type', message: 'Expected an item with fields' }]
+  }
+
+  const violations: Violation[] = []
+  for (const [key, spec] of Object.entries(items)) {
+    violations.push(...validateField(spec, (value as Record<string, unknown>)[key], `${id}.${key}`))
+  }
+  return violations
+}
+
+/**
+ * Validate an array against its schema (item count and, optionally, items)
+ */
+export function validateArray(
+  spec: ArraySchema,
+  value: unknown,
+  id: string,
+  itemIndexes?: number[]
+): Violation[] {
+  if (value === undefined || value === null) {
+    return spec.required ? [{ id, rule: 'required', message: 'This list is required' }] : []
+  }
+  if (!Array.isArray(value)) {
+    return [{ id, rule: 'type', message: 'Expected a list' }]
+  }
+
+  const violations: Violation[] = []
+  if (spec.minItems !== undefined && value.length < spec.minItems) {
+    violations.push({ id, rule: 'minItems', message: `Needs at least ${spec.minItems} item(s)` })
+  }
+  if (spec.maxItems !== undefined && value.length > spec.maxItems) {
+    violations.push({ id, rule: 'maxItems', message: `Allows at most ${spec.maxItems} item(s)` })
+  }
+
+  const indexes = itemIndexes ?? value.map((_, i) => i)
+  for (const i of indexes) {
+    violations.push(...validateItem(spec.items, value[i], `${id}.${i}`))
+  }
+
+  return violations
+}
+
+/**
+ * Validate a value written to a microtext id. Ids without a schema entry
+ * pass, apart from their link URLs (see validateHrefs).
+ */
+export function validateValue(schema: MicrotextSchema | null | undefined, id: string, value: unknown): Violation[] {
+  const entry = getFieldSchema(schema, id)
+  const violations = !entry ? []
+    : isArraySchema(entry as SchemaEntry) ? validateArray(entry as ArraySchema, value, id)
+    : isFieldSchema(entry) ? validateField(entry as FieldSchema, value, id)
+    : validateItem(entry as Record<string, FieldSchema>, value, id)
+  // Declared links have had theirs checked already
+  const reported = new Set(violations.map(v => v.id))
+  return [...violations, ...validateHrefs(id, value).filter(v => !reported.has(v.id))]
+}
+
+/**
+ * Validate every declared field of a page's microtext
+ */
+export function validateMicrotext(schema: MicrotextSchema | null | undefined, microtext: Record<string, any>): Violation[] {
+  if (!schema) return []
+  const violations: Violation[] = []
+  for (const id of Object.keys(schema)) {
+    violations.push(...validateValue(schema, id, microtext?.[id]))
+  }
+  return violations
+}
+
+/**
+ * Max length of a scalar field, if declared
+ */
+export function getMaxLength(entry: SchemaEntry | Record<string, FieldSchema> | undefined): number | undefined {
+  if (!entry || !isFieldSchema(entry) || isArraySchema(entry)) return undefined
+  return entry.maxLength
+}
+
+/**
+ * Whether a field holds inline markdown (declared markdown, or undeclared)
+ */
+export function allowsFormatting(entry: SchemaEntry | Record<string, FieldSchema> | undefined): boolean {
+  if (!entry) return true
+  return isFieldSchema(entry) && entry.type === 'markdown'
+}
+
+/**
+ * Whether empty alt text is allowed for an image field
+ */
+export function isDecorative(entry: SchemaEntry | Record<string, FieldSchema> | undefined): boolean {
+  return !!entry && isFieldSchema(entry) && !isArraySchema(entry) && !!entry.decorative
+}
+
+/**
+ * Human-readable constraints for a field, for display in the editor
+ */
+export function describeConstraints(entry: SchemaEntry | Record<string, FieldSchema> | undefined): string[] {
+  if (!entry || !isFieldSchema(entry)) return []
+
+  const parts: string[] = []
+  if (isArraySchema(entry)) {
+    parts.push('List')
+    if (entry.minItems !== undefined) parts.push(`min ${entry.minItems} items`)
+    if (entry.maxItems !== undefined) parts.push(`max ${entry.maxItems} items`)
+  } else {
+    parts.push(TYPE_LABELS[entry.type] || entry.type)
+    if (entry.type === 'markdown' && entry.block) parts.push('paragraphs and lists')
+    if (entry.type === 'enum' && entry.values) parts.push(entry.values.join(' / '))
+    if (entry.min !== undefined) parts.push(`≥ ${entry.min}`)
+    if (entry.max !== undefined) parts.push(`≤ ${entry.max}`)
+    if (entry.minLength !== undefined) parts.push(`min ${entry.minLength} chars`)
+    const of = entry.type === 'image' ? ' alt text' : entry.type === 'link' ? ' label' : ''
+    if (entry.maxLength !== undefined) parts.push(`max ${entry.maxLength} chars${of}`)
+    if (entry.decorative) parts.push('alt text optional')
+  }
+  if (entry.required) parts.push('required')
+  return parts
+}
@@ -0,0 +1,126 @@
+/**
+ * Microtext Search
+ *
+ * Finds text across every page's flattened microtext (the same id -> value
+ * map AI edit works from), in every locale, by literal text or regular expression, and
+ * previews what a replacement would produce. Applying a replacement is a
+ * regular batch write, so results carry each field's version for the
+ * conflict check.
+ */
+
+import { flattenMicrotext, listPages, readPage, versionOf } from './microtext-file'
+import { LOCALES, microtextKey } from './locales'
+
+export interface SearchOptions {
+  query: string
+  /** Treat the query as a regular expression */
+  regex?: boolean
+  caseSensitive?: boolean
+  /** Preview this replacement ($1 etc. work in regex mode) */
+  replacement?: string
+}
+
+export interface SearchMatch {
+  start: number
+  end: number
+}
+
+export interface SearchResult {
+  pageSlug: string
+  locale: string
+  id: string
+  value: string
+  version: string
+  matches: SearchMatch[]
+  /** Value after replacement, when a replacement was given */
+  newValue?: string
+}
+
+/**
+ * Thrown for an empty, oversized or unparseable query
+ */
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SearchQueryError'
+  }
+}
+
+const MAX_QUERY_LENGTH = 500
+const MAX_RESULTS = 1000
+
+/**
+ * Compile the query into a global RegExp
+ */
+export function buildMatcher({ query, regex, caseSensitive }: SearchOptions): RegExp {
+  if (!query) {
+    throw new SearchQueryError('Missing query')
+  }
+  if (query.length > MAX_QUERY_LENGTH) {
+    throw new SearchQueryError(`Query is longer than ${MAX_QUERY_LENGTH} characters`)
+  }
+
+  const source = regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  let matcher: RegExp
+  try {
+    matcher = new RegExp(source, caseSensitive ? 'g' : 'gi')
+  } catch (error) {
+    throw new SearchQueryError((error as Error).message)
+  }
+
+  if (matcher.test('')) {
+    throw new SearchQueryError('Query matches empty text')
+  }
+  matcher.lastIndex = 0
+  return matcher
+}
+
+export function findMatches(value: string, matcher: RegExp): SearchMatch[] {
+  return [...value.matchAll(matcher)].map(match => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }))
+}
+
+/**
+ * Replace every match. Literal replacements are inserted as-is; regex
+ * replacements may reference groups ($1, $<name>).
+ */
+export function replaceMatches(value: string, matcher: RegExp, replacement: string, regex = false): string {
+  return regex
+    ? value.replace(matcher, replacement)
+    : value.replace(matcher, () => replacement)
+}
+
+/**
+ * Search every page's microtext
+ */
+export async function searchPages(options: SearchOptions): Promise<{ results: SearchResult[]; truncated: boolean }> {
+  const matcher = buildMatcher(options)
+  const results: SearchResult[] = []
+
+  for (const { slug, filePath } of await listPages()) {
+    const page = await readPage(slug, filePath)
+
+    for (const locale of LOCALES) {
+      const flat = flattenMicrotext(page.frontmatter[microtextKey(locale)] || {})
+
+      for (const [id, value] of Object.entries(flat)) {
+        const matches = findMatches(value, matcher)
+        if (matches.length === 0) continue
+
+        const result: SearchResult = { pageSlug: slug, locale, id, value, version: versionOf(value), matches }
+        if (options.replacement !== undefined) {
+          result.newValue = replaceMatches(value, matcher, options.replacement, options.regex)
+        }
+        results.push(result)
+
+        if (results.length >= MAX_RESULTS) {
+          return { results, truncated: true }
+        }
+      }
+    }
+  }
+
+  return { results, truncated: false }
+}
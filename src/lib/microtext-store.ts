@@ -1,86 +1,300 @@
 /**
- * Microtext LocalStorage Store
+ * Microtext Draft Store
  *
  * Manages client-side draft edits before they're synced to server.
  *
- * Storage format:
- *   Key: `vibe:${pageSlug}:${microtextId}`
- *   Value: { value: string, timestamp: number }
+ * Storage format (IndexedDB database "vibe-drafts", object store "drafts"):
+ *   Key: `${pageSlug}:${microtextId}`
+ *   Value: { value: string, timestamp: number, baseVersion?: string, baseValue?: string }
+ *
+ * Drafts for a translation live under `${pageSlug}@${locale}` (see
+ * draftScope); pass that wherever these functions take a pageSlug.
+ *
+ * `baseVersion` and `baseValue` are the server version and value of the
+ * field the draft started from. Syncing sends the version along so the
+ * server can reject the draft (409) if someone else changed the field in the
+ * meantime; checkDrafts asks the server the same before any sync. The value
+ * lets a stale draft be merged with the server's (see mergeDraft).
+ *
+ * Reads come from an in-memory copy, so call loadDrafts() once before the
+ * first one. Writes update the copy at once and reach IndexedDB in the
+ * background. Where IndexedDB is unavailable (some private windows), drafts
+ * are kept in localStorage under `vibe:${pageSlug}:${microtextId}`, the
+ * format older versions used; drafts found there are moved into IndexedDB
+ * on load.
+ *
+ * Changes are broadcast to other tabs (BroadcastChannel, or storage events
+ * where that's missing). Each tab dispatches `microtext-draft-saved` and
+ * `microtext-draft-cleared` for its own changes and, with `remote: true`
+ * in the detail, for those made in other tabs.
  */
 
+import { DEFAULT_LOCALE } from './locales'
+import { mergeText, type MergeResult } from './text-merge'
+
 const PREFIX = 'vibe:'
+const DB_NAME = 'vibe-drafts'
+const STORE_NAME = 'drafts'
+const CHANNEL_NAME = 'vibe-drafts'
+// Carries changes to other tabs where BroadcastChannel is missing
+const SIGNAL_KEY = `${PREFIX}drafts-signal`
 
 export interface DraftEdit {
   value: string
   timestamp: number
+  baseVersion?: string
+  baseValue?: string
+}
+
+export interface SyncConflict {
+  id: string
+  draftValue: string
+  serverValue: unknown
+  serverVersion: string
+}
+
+export interface SyncResult {
+  success: boolean
+  synced: number
+  errors: string[]
+  conflicts: SyncConflict[]
 }
 
 export interface PendingEdits {
   [key: string]: DraftEdit
 }
 
+/** A field as it currently is on the server */
+export interface ServerField {
+  value: unknown
+  version: string
+}
+
+// A change to one draft (null when cleared), as sent to other tabs
+interface DraftMessage {
+  key: string
+  draft: DraftEdit | null
+}
+
+const cache = new Map<string, DraftEdit>()
+let db: IDBDatabase | null = null
+let loading: Promise<void> | null = null
+let channel: BroadcastChannel | null = null
+let listening = false
+
 /**
- * Get the storage key for a microtext item
+ * The "page" a locale's drafts are stored under
  */
-function getKey(pageSlug: string, id: string): string {
-  return `${PREFIX}${pageSlug}:${id}`
+export function draftScope(pageSlug: string, locale: string = DEFAULT_LOCALE): string {
+  return locale === DEFAULT_LOCALE ? pageSlug : `${pageSlug}@${locale}`
+}
+
+function splitScope(scope: string): { pageSlug: string; locale: string } {
+  const [pageSlug, locale = DEFAULT_LOCALE] = scope.split('@')
+  return { pageSlug, locale }
 }
 
 /**
- * Save a draft edit to localStorage
+ * Get the storage key for a microtext item
  */
-export function saveDraft(pageSlug: string, id: string, value: string): void {
-  const key = getKey(pageSlug, id)
-  const draft: DraftEdit = {
-    value,
-    timestamp: Date.now()
+function getKey(pageSlug: string, id: string): string {
+  return `${pageSlug}:${id}`
+}
+
+function splitKey(key: string): { pageSlug: string; id: string } {
+  const colon = key.indexOf(':')
+  return { pageSlug: key.slice(0, colon), id: key.slice(colon + 1) }
+}
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function complete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'))
+  }
+  const request = indexedDB.open(DB_NAME, 1)
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME)
   }
-  localStorage.setItem(key, JSON.stringify(draft))
+  return settle(request)
+}
 
-  // Dispatch event for other components to react
-  window.dispatchEvent(new CustomEvent('microtext-draft-saved', {
-    detail: { pageSlug, id, value }
-  }))
+// Drafts kept in localStorage, by key
+function readLocalDrafts(): Map<string, DraftEdit> {
+  const found = new Map<string, DraftEdit>()
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    if (!key?.startsWith(PREFIX) || key === SIGNAL_KEY) continue
+    try {
+      const draft = JSON.parse(localStorage.getItem(key) || '')
+      if (typeof draft?.value === 'string') found.set(key.slice(PREFIX.length), draft)
+    } catch {
+      // Skip invalid entries
+    }
+  }
+  return found
 }
 
 /**
- * Get a draft edit from localStorage
+ * Load stored drafts into memory and start listening to other tabs.
+ * Safe to call more than once; later calls share the first load.
  */
-export function getDraft(pageSlug: string, id: string): DraftEdit | null {
-  const key = getKey(pageSlug, id)
-  const stored = localStorage.getItem(key)
-  if (!stored) return null
+export function loadDrafts(): Promise<void> {
+  loading ??= (async () => {
+    listenToOtherTabs()
+    const local = readLocalDrafts()
+
+    try {
+      db = await openDatabase()
+      const transaction = db.transaction(STORE_NAME, 'readwrite')
+      const store = transaction.objectStore(STORE_NAME)
+      const [keys, values] = await Promise.all([settle(store.getAllKeys()), settle(store.getAll())])
+      keys.forEach((key, i) => {
+        // Drafts saved while loading are newer
+        if (!cache.has(String(key))) cache.set(String(key), values[i])
+      })
+
+      for (const [key, draft] of local) {
+        const stored = cache.get(key)
+        if (!stored || stored.timestamp < draft.timestamp) {
+          cache.set(key, draft)
+          store.put(draft, key)
+        }
+        localStorage.removeItem(PREFIX + key)
+      }
+      await complete(transaction)
+    } catch (error) {
+      console.warn('[drafts] IndexedDB unavailable, keeping drafts in localStorage:', error)
+      db = null
+      for (const [key, draft] of local) {
+        if (!cache.has(key)) cache.set(key, draft)
+      }
+    }
+  })()
+  return loading
+}
 
+// Write a change through to storage (after the initial load)
+async function persist(key: string, draft: DraftEdit | null): Promise<void> {
+  await loadDrafts()
   try {
-    return JSON.parse(stored) as DraftEdit
-  } catch {
-    return null
+    if (db) {
+      const transaction = db.transaction(STORE_NAME, 'readwrite')
+      const store = transaction.objectStore(STORE_NAME)
+      if (draft) store.put(draft, key)
+      else store.delete(key)
+      await complete(transaction)
+    } else if (draft) {
+      localStorage.setItem(PREFIX + key, JSON.stringify(draft))
+    } else {
+      localStorage.removeItem(PREFIX + key)
+    }
+  } catch (error) {
+    console.error('[drafts] Failed to store draft:', error)
+  }
+}
+
+// Update the in-memory copy and tell this tab's components
+function apply(key: string, draft: DraftEdit | null, remote: boolean): void {
+  const existed = cache.has(key)
+  if (draft) cache.set(key, draft)
+  else cache.delete(key)
+
+  const { pageSlug, id } = splitKey(key)
+  if (draft) {
+    window.dispatchEvent(new CustomEvent('microtext-draft-saved', {
+      detail: { pageSlug, id, value: draft.value, remote }
+    }))
+  } else if (existed) {
+    window.dispatchEvent(new CustomEvent('microtext-draft-cleared', {
+      detail: { pageSlug, id, remote }
+    }))
   }
 }
 
+function listenToOtherTabs(): void {
+  if (listening) return
+  listening = true
+
+  const receive = (message: DraftMessage) => apply(message.key, message.draft, true)
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME)
+    channel.onmessage = (e) => receive(e.data)
+  } else {
+    window.addEventListener('storage', (e) => {
+      if (e.key !== SIGNAL_KEY || !e.newValue) return
+      try {
+        receive(JSON.parse(e.newValue))
+      } catch {
+        // Ignore malformed signals
+      }
+    })
+  }
+}
+
+function broadcast(message: DraftMessage): void {
+  listenToOtherTabs()
+  if (channel) {
+    channel.postMessage(message)
+  } else {
+    // The timestamp makes repeated identical changes still fire storage events
+    localStorage.setItem(SIGNAL_KEY, JSON.stringify({ ...message, sentAt: Date.now() }))
+  }
+}
+
+// Change a draft here, in storage and in the other tabs
+function commit(key: string, draft: DraftEdit | null): void {
+  apply(key, draft, false)
+  void persist(key, draft)
+  broadcast({ key, draft })
+}
+
+/**
+ * Save a draft edit
+ *
+ * An existing draft keeps its original base, so repeated edits are still
+ * checked against the server value the first edit was based on.
+ */
+export function saveDraft(pageSlug: string, id: string, value: string, baseVersion?: string, baseValue?: string): void {
+  const existing = getDraft(pageSlug, id)
+  commit(getKey(pageSlug, id), {
+    value,
+    timestamp: Date.now(),
+    baseVersion: existing ? existing.baseVersion : baseVersion,
+    baseValue: existing ? existing.baseValue : baseValue,
+  })
+}
+
+/**
+ * Get a draft edit
+ */
+export function getDraft(pageSlug: string, id: string): DraftEdit | null {
+  return cache.get(getKey(pageSlug, id)) || null
+}
+
 /**
  * Get all pending drafts for a page
  */
 export function getPageDrafts(pageSlug: string): PendingEdits {
-  const drafts: PendingEdits = {}
-  const prefix = `${PREFIX}${pageSlug}:`
-
-  for (let i = 0; i < localStorage.length; i++) {
-    const key = localStorage.key(i)
-    if (key?.startsWith(prefix)) {
-      const id = key.slice(prefix.length)
-      const stored = localStorage.getItem(key)
-      if (stored) {
-        try {
-          drafts[id] = JSON.parse(stored)
-        } catch {
-          // Skip invalid entries
-        }
-      }
-    }
+  const pending: PendingEdits = {}
+  for (const [key, draft] of cache) {
+    const { pageSlug: scope, id } = splitKey(key)
+    if (scope === pageSlug) pending[id] = draft
   }
-
-  return drafts
+  return pending
 }
 
 /**
@@ -88,24 +302,14 @@ export function getPageDrafts(pageSlug: string): PendingEdits {
  */
 export function clearDraft(pageSlug: string, id: string): void {
   const key = getKey(pageSlug, id)
-  localStorage.removeItem(key)
+  if (cache.has(key)) commit(key, null)
 }
 
 /**
  * Clear all drafts for a page
  */
 export function clearPageDrafts(pageSlug: string): void {
-  const prefix = `${PREFIX}${pageSlug}:`
-  const keysToRemove: string[] = []
-
-  for (let i = 0; i < localStorage.length; i++) {
-    const key = localStorage.key(i)
-    if (key?.startsWith(prefix)) {
-      keysToRemove.push(key)
-    }
-  }
-
-  keysToRemove.forEach(key => localStorage.removeItem(key))
+  Object.keys(getPageDrafts(pageSlug)).forEach(id => clearDraft(pageSlug, id))
 }
 
 /**
@@ -116,46 +320,253 @@ export function getDraftCount(pageSlug: string): number {
 }
 
 /**
- * Sync all drafts to server
+ * Sync all drafts to server, or only those listed in `only`
+ *
+ * Sends the page's drafts to /api/microtext-batch in one request, so
+ * the sync is all-or-nothing: drafts are only cleared once all of them are
+ * written. Drafts whose base is stale come back as conflicts and a
+ * `microtext-sync-conflict` event is dispatched for each.
  */
-export async function syncDraftsToServer(pageSlug: string): Promise<{ success: boolean; synced: number; errors: string[] }> {
+export async function syncDraftsToServer(pageSlug: string, only?: string[]): Promise<SyncResult> {
+  await loadDrafts()
   const drafts = getPageDrafts(pageSlug)
-  const ids = Object.keys(drafts)
+  const target = splitScope(pageSlug)
+  const ids = Object.keys(drafts).filter(id => !only || only.includes(id))
 
   if (ids.length === 0) {
-    return { success: true, synced: 0, errors: [] }
+    return { success: true, synced: 0, errors: [], conflicts: [] }
+  }
+
+  let res: Response
+  let data: any
+  try {
+    res = await fetch('/api/microtext-batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        pageSlug: target.pageSlug,
+        locale: target.locale,
+        edits: ids.map(id => ({
+          id,
+          value: drafts[id].value,
+          baseVersion: drafts[id].baseVersion
+        }))
+      })
+    })
+    data = await res.json()
+  } catch (err) {
+    return { success: false, synced: 0, errors: ['Network error'], conflicts: [] }
+  }
+
+  const results: { id: string; status: string; version?: string; error?: string; currentValue?: unknown; currentVersion?: string }[] =
+    data.results || []
+
+  if (res.ok) {
+    for (const result of results) {
+      window.dispatchEvent(new CustomEvent('microtext-saved', {
+        detail: { pageSlug, id: result.id, value: drafts[result.id].value, version: result.version }
+      }))
+      clearDraft(pageSlug, result.id)
+    }
+    return { success: true, synced: results.length, errors: [], conflicts: [] }
   }
 
   const errors: string[] = []
-  let synced = 0
+  const conflicts: SyncConflict[] = []
 
-  for (const id of ids) {
-    try {
-      const res = await fetch('/api/microtext', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          pageSlug,
+  for (const result of results) {
+    if (result.status === 'conflict') {
+      const conflict: SyncConflict = {
+        id: result.id,
+        draftValue: drafts[result.id].value,
+        serverValue: result.currentValue,
+        serverVersion: result.currentVersion || ''
+      }
+      conflicts.push(conflict)
+      errors.push(`${result.id}: changed on server`)
+      window.dispatchEvent(new CustomEvent('microtext-sync-conflict', {
+        detail: { pageSlug, ...conflict }
+      }))
+    } else if (result.status === 'invalid') {
+      errors.push(`${result.id}: ${result.error || 'Invalid'}`)
+    }
+  }
+
+  if (errors.length === 0) {
+    errors.push(data.error || 'Failed')
+  }
+
+  return { success: false, synced: 0, errors, conflicts }
+}
+
+/**
+ * Hand drafts to the server to publish at a time (see
+ * /api/publish-schedule). They stop being drafts once scheduled; a
+ * `publish-schedule-changed` event is dispatched.
+ */
+export async function scheduleDrafts(
+  pageSlug: string,
+  ids: string[],
+  publishAt: Date,
+  message?: string
+): Promise<{ success: boolean; error?: string }> {
+  await loadDrafts()
+  const drafts = getPageDrafts(pageSlug)
+  const target = splitScope(pageSlug)
+  const scheduled = ids.filter(id => drafts[id])
+
+  try {
+    const res = await fetch('/api/publish-schedule', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        action: 'create',
+        publishAt: publishAt.toISOString(),
+        message,
+        changes: scheduled.map(id => ({
+          pageSlug: target.pageSlug,
+          locale: target.locale,
+          id,
+          value: drafts[id].value,
+          baseVersion: drafts[id].baseVersion
+        }))
+      })
+    })
+    const data = await res.json()
+    if (!res.ok) return { success: false, error: data.error || 'Scheduling failed' }
+  } catch (err) {
+    return { success: false, error: 'Network error' }
+  }
+
+  scheduled.forEach(id => clearDraft(pageSlug, id))
+  window.dispatchEvent(new CustomEvent('publish-schedule-changed'))
+  return { success: true }
+}
+
+/**
+ * Share drafts as a named draft set with a read-only preview link (see
+ * /api/draft-sets). The drafts stay drafts. Returns the link's URL.
+ */
+export async function shareDrafts(
+  pageSlug: string,
+  ids: string[],
+  name: string
+): Promise<{ success: boolean; url?: string; expiresAt?: string; error?: string }> {
+  await loadDrafts()
+  const drafts = getPageDrafts(pageSlug)
+  const target = splitScope(pageSlug)
+
+  try {
+    const created = await fetch('/api/draft-sets', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        action: 'create',
+        name,
+        changes: ids.filter(id => drafts[id]).map(id => ({
+          pageSlug: target.pageSlug,
+          locale: target.locale,
           id,
           value: drafts[id].value
-        })
+        }))
       })
+    })
+    const set = await created.json()
+    if (!created.ok) return { success: false, error: set.error || 'Sharing failed' }
 
-      if (res.ok) {
-        clearDraft(pageSlug, id)
-        synced++
-      } else {
-        const data = await res.json()
-        errors.push(`${id}: ${data.error || 'Failed'}`)
-      }
-    } catch (err) {
-      errors.push(`${id}: Network error`)
-    }
+    const shared = await fetch('/api/draft-sets', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'share', id: set.draftSet.id })
+    })
+    const data = await shared.json()
+    if (!shared.ok) return { success: false, error: data.error || 'Sharing failed' }
+    return { success: true, url: data.url, expiresAt: data.link.expiresAt }
+  } catch (err) {
+    return { success: false, error: 'Network error' }
   }
+}
 
-  return {
-    success: errors.length === 0,
-    synced,
-    errors
+/**
+ * Fetch the current server value and version of some fields
+ */
+export async function fetchServerFields(pageSlug: string, ids: string[]): Promise<Record<string, ServerField>> {
+  const target = splitScope(pageSlug)
+  const params = new URLSearchParams({ pageSlug: target.pageSlug, locale: target.locale, ids: ids.join(',') })
+  const res = await fetch(`/api/microtext?${params}`)
+  if (!res.ok) throw new Error(`Failed to fetch fields (${res.status})`)
+  const data = await res.json()
+  return data.fields || {}
+}
+
+/**
+ * Find drafts whose base changed on the server since they were started
+ *
+ * Like a rejected sync, dispatches `microtext-sync-conflict` for each, so
+ * they can be resolved before anything is sent.
+ */
+export async function checkDrafts(pageSlug: string): Promise<SyncConflict[]> {
+  const pending = getPageDrafts(pageSlug)
+  const ids = Object.keys(pending).filter(id => pending[id].baseVersion)
+  if (ids.length === 0) return []
+
+  const fields = await fetchServerFields(pageSlug, ids)
+  const conflicts: SyncConflict[] = []
+
+  for (const id of ids) {
+    const field = fields[id]
+    // The draft may have been synced or cleared while fetching
+    const draft = getDraft(pageSlug, id)
+    if (!field || !draft || field.version === draft.baseVersion) continue
+
+    const conflict: SyncConflict = {
+      id,
+      draftValue: draft.value,
+      serverValue: field.value,
+      serverVersion: field.version
+    }
+    conflicts.push(conflict)
+    window.dispatchEvent(new CustomEvent('microtext-sync-conflict', {
+      detail: { pageSlug, ...conflict }
+    }))
   }
+
+  return conflicts
+}
+
+/**
+ * Resolve a conflict by rebasing the draft onto the server version.
+ * The draft value is kept; the next sync will overwrite the server value.
+ */
+export function rebaseDraft(pageSlug: string, id: string, serverVersion: string, serverValue?: string): void {
+  const draft = getDraft(pageSlug, id)
+  if (!draft) return
+  commit(getKey(pageSlug, id), {
+    ...draft,
+    baseVersion: serverVersion,
+    baseValue: serverValue ?? draft.baseValue
+  })
+}
+
+/**
+ * Resolve a conflict by merging the draft with the server value (see
+ * lib/text-merge) and rebasing it onto the server version. Drafts saved
+ * before their base value was recorded can't be merged: they are rebased
+ * unchanged and reported as not clean.
+ */
+export function mergeDraft(pageSlug: string, id: string, serverValue: string, serverVersion: string): MergeResult | null {
+  const draft = getDraft(pageSlug, id)
+  if (!draft) return null
+
+  const result = draft.baseValue === undefined
+    ? { merged: draft.value, clean: false }
+    : mergeText(draft.baseValue, draft.value, serverValue)
+
+  commit(getKey(pageSlug, id), {
+    value: result.merged,
+    timestamp: Date.now(),
+    baseVersion: serverVersion,
+    baseValue: serverValue
+  })
+  return result
 }
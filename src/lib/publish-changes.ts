@@ -0,0 +1,323 @@
+/**
+ * Unpublished Changes
+ *
+ * Describes what publishing would commit, in microtext terms rather than as
+ * YAML lines: for each page changed since the last commit, which fields
+ * changed in which locale, from what to what. Changes outside microtext
+ * (other frontmatter keys, the MDX body) and other files (uploads) are
+ * listed per file.
+ *
+ * stageChanges stages all of it, or a selection: whole pages, single fields
+ * (the file is staged as last committed plus just those fields, leaving the
+ * rest unpublished in the working tree), and the uploads the selection
+ * refers to. publishChanges stages and commits it.
+ *
+ * Every publish (this, scheduled ones, rollbacks) stages through the one git
+ * index, so each holds withPublishLock (lib/git.ts) until it has committed.
+ */
+
+import fs from 'fs/promises'
+import path from 'path'
+import matter from 'gray-matter'
+import { patchFrontmatter } from './frontmatter-writer'
+import { assertOnBranch, commitStaged, git, withPublishLock, type GitIdentity } from './git'
+import { UPLOADS_DIR, UPLOADS_URL } from './media-upload'
+import { PAGES_DIR, setNestedValue, unsetNestedValue } from './microtext-file'
+import { isImageValue, isLinkValue } from './microtext-schema'
+import { DEFAULT_LOCALE, LOCALES, microtextKey } from './locales'
+
+// Uploads, from the repository root ("public/uploads/")
+const UPLOADS_PATH = `${path.relative(process.cwd(), UPLOADS_DIR)}/`
+
+/** Content edited through the site: pages, and uploads; not the rest of public/ */
+export const CONTENT_PATHS = ['src/pages/', UPLOADS_PATH]
+
+export interface FieldChange {
+  page: string
+  locale: string
+  id: string
+  /** null when the field is new */
+  old: unknown
+  /** null when the field was removed */
+  new: unknown
+}
+
+export interface FileChange {
+  /** Path from the repository root */
+  file: string
+  status: 'added' | 'modified' | 'deleted'
+  /** Slug, for MDX pages */
+  page?: string
+  /** What changed besides microtext ("body", "frontmatter: title"); publishes only with the whole page */
+  other?: string[]
+}
+
+export interface UnpublishedChanges {
+  files: FileChange[]
+  fields: FieldChange[]
+}
+
+/** What to publish; everything when both are omitted */
+export interface PublishSelection {
+  /** Pages (slugs) to publish whole */
+  pages?: string[]
+  /** Single fields, published without the rest of their page */
+  fields?: { page: string; locale?: string; id: string }[]
+}
+
+/**
+ * Thrown for selections that can't be published as asked
+ */
+export class PublishSelectionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PublishSelectionError'
+  }
+}
+
+/**
+ * A file's content at a commit, or null if it didn't exist there
+ */
+export async function contentAt(rev: string, file: string): Promise<string | null> {
+  try {
+    return await git(['show', `${rev}:./${file}`])
+  } catch {
+    return null
+  }
+}
+
+// The file as last committed, or null if it is new
+function committedContent(file: string): Promise<string | null> {
+  return contentAt('HEAD', file)
+}
+
+/**
+ * Page slug of a file (path from the repository root), or null if it isn't an MDX page
+ */
+export function slugOf(file: string): string | null {
+  const absolute = path.join(process.cwd(), file)
+  if (!file.endsWith('.mdx') || !absolute.startsWith(PAGES_DIR + path.sep)) return null
+  const relative = path.relative(PAGES_DIR, absolute).split(path.sep).join('/').replace(/\.mdx$/, '')
+  return relative.replace(/\/index$/, '') || 'index'
+}
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    && !isImageValue(value) && !isLinkValue(value)
+}
+
+// Changed fields between two microtext values. Images, links and lists that
+// changed length are one field each: their parts only make sense together.
+function diffFields(before: unknown, after: unknown, prefix: string, out: { id: string; old: unknown; new: unknown }[]): void {
+  if (isEqual(before, after)) return
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      diffFields(before[key], after[key], prefix ? `${prefix}.${key}` : key, out)
+    }
+  } else if (Array.isArray(before) && Array.isArray(after) && before.length === after.length) {
+    before.forEach((item, i) => diffFields(item, after[i], `${prefix}.${i}`, out))
+  } else {
+    out.push({ id: prefix, old: before ?? null, new: after ?? null })
+  }
+}
+
+/**
+ * Changed content files, from `git status`
+ */
+async function changedFiles(): Promise<{ file: string; status: FileChange['status'] }[]> {
+  const output = await git(['status', '--porcelain', '-z', '--untracked-files=all', '--', ...CONTENT_PATHS])
+  const entries = output.split('\0')
+  const files: { file: string; status: FileChange['status'] }[] = []
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i]
+    if (entry.length < 4) continue
+    const code = entry.slice(0, 2)
+    const file = entry.slice(3)
+    // Renames are followed by their source path
+    if (code.includes('R') || code.includes('C')) {
+      const source = entries[++i]
+      if (code.includes('R') && source) files.push({ file: source, status: 'deleted' })
+    }
+    const status = code.includes('D') ? 'deleted' : code === '??' || code.includes('A') || code.includes('R') || code.includes('C') ? 'added' : 'modified'
+    files.push({ file, status })
+  }
+
+  return files.sort((a, b) => a.file.localeCompare(b.file))
+}
+
+/**
+ * A page's microtext changes between two versions of its source (null for
+ * a missing file), and anything else that changed in it
+ */
+export function diffPageContent(page: string, before: string | null, after: string | null): { fields: FieldChange[]; other: string[] } {
+  const committed = matter(before ?? '', {})
+  const current = matter(after ?? '', {})
+
+  const fields: FieldChange[] = []
+  for (const locale of LOCALES) {
+    const key = microtextKey(locale)
+    const changes: { id: string; old: unknown; new: unknown }[] = []
+    diffFields(committed.data[key] ?? {}, current.data[key] ?? {}, '', changes)
+    fields.push(...changes.map(change => ({ page, locale, ...change })))
+  }
+
+  const microtextKeys = new Set(LOCALES.map(microtextKey))
+  const other = [...new Set([...Object.keys(committed.data), ...Object.keys(current.data)])]
+    .filter(key => !microtextKeys.has(key) && !isEqual(committed.data[key], current.data[key]))
+    .map(key => `frontmatter: ${key}`)
+  if (committed.content !== current.content) other.push('body')
+
+  return { fields, other }
+}
+
+/**
+ * Everything publishing would commit
+ */
+export async function getUnpublishedChanges(): Promise<UnpublishedChanges> {
+  const files: FileChange[] = []
+  const fields: FieldChange[] = []
+
+  for (const { file, status } of await changedFiles()) {
+    const page = slugOf(file) ?? undefined
+    if (page && status === 'modified') {
+      const diff = diffPageContent(page, await committedContent(file), await fs.readFile(path.join(process.cwd(), file), 'utf-8'))
+      fields.push(...diff.fields)
+      files.push({ file, status, page, ...(diff.other.length > 0 && { other: diff.other }) })
+    } else {
+      files.push({ file, status, ...(page && { page }) })
+    }
+  }
+
+  return { files, fields }
+}
+
+// Uploads whose URL appears in any of the texts
+function referencedUploads(files: FileChange[], texts: string[]): string[] {
+  return files
+    .filter(({ file }) => file.startsWith(UPLOADS_PATH))
+    .filter(({ file }) => {
+      const url = `${UPLOADS_URL}/${file.slice(UPLOADS_PATH.length)}`
+      return texts.some(text => text.includes(url))
+    })
+    .map(({ file }) => file)
+}
+
+/**
+ * Page source with field changes applied (each field set to its `new`
+ * value, or removed when that is null), or null if its frontmatter can't
+ * be patched
+ */
+export function applyFieldChanges(raw: string, changes: FieldChange[]): string | null {
+  const { data: before } = matter(raw, {})
+  const after = structuredClone(before)
+  for (const change of changes) {
+    const key = microtextKey(change.locale)
+    after[key] ??= {}
+    if (change.new === null) unsetNestedValue(after[key], change.id)
+    else setNestedValue(after[key], change.id, structuredClone(change.new))
+  }
+  return patchFrontmatter(raw, before, after)
+}
+
+// The committed page plus only the selected field changes
+async function partialPage(file: string, changes: FieldChange[]): Promise<string> {
+  const committed = await committedContent(file)
+  if (committed === null) throw new PublishSelectionError(`${file} is new; publish the whole page`)
+
+  const patched = applyFieldChanges(committed, changes)
+  if (patched === null) throw new PublishSelectionError(`Could not apply fields to ${file}; publish the whole page`)
+  return patched
+}
+
+/**
+ * Stage what to publish. Returns the staged files, to commit with
+ * commitStaged. A PublishSelectionError can leave part of the selection
+ * staged: unstageChanges.
+ */
+export async function stageChanges(selection: PublishSelection = {}): Promise<string[]> {
+  if (!selection.pages && !selection.fields) {
+    // git add refuses a path that matches nothing (no uploads yet)
+    const changed: string[] = []
+    for (const dir of CONTENT_PATHS) {
+      if (await git(['status', '--porcelain', '--untracked-files=all', '--', dir])) changed.push(dir)
+    }
+    if (changed.length > 0) await git(['add', '-A', '--', ...changed])
+    return (await git(['diff', '--cached', '--name-only', '-z', '--', ...CONTENT_PATHS])).split('\0').filter(Boolean)
+  }
+
+  const { files, fields } = await getUnpublishedChanges()
+  const pages = new Set(selection.pages || [])
+  for (const page of pages) {
+    if (!files.some(f => f.page === page)) throw new PublishSelectionError(`No unpublished changes on page "${page}"`)
+  }
+
+  // Selected fields on pages not published whole, grouped by file
+  const partial = new Map<string, FieldChange[]>()
+  for (const wanted of selection.fields || []) {
+    if (pages.has(wanted.page)) continue
+    const change = fields.find(f => f.page === wanted.page && f.id === wanted.id && f.locale === (wanted.locale || DEFAULT_LOCALE))
+    if (!change) {
+      throw new PublishSelectionError(`No unpublished change to "${wanted.id}" on page "${wanted.page}"`)
+    }
+    const file = files.find(f => f.page === change.page)!.file
+    partial.set(file, [...(partial.get(file) || []), change])
+  }
+
+  const whole = files.filter(f => f.page && pages.has(f.page)).map(f => f.file)
+  const wholeTexts = await Promise.all(whole.map(file =>
+    fs.readFile(path.join(process.cwd(), file), 'utf-8').catch(() => '')
+  ))
+  const partialTexts = [...partial.values()].flat().map(change => JSON.stringify(change.new))
+  const uploads = referencedUploads(files, [...wholeTexts, ...partialTexts])
+
+  // Start from a clean index, so only the selection is committed
+  await unstageChanges()
+
+  const staged = [...whole, ...uploads]
+  if (staged.length > 0) await git(['add', '-A', '--', ...staged])
+
+  for (const [file, changes] of partial) {
+    const blob = (await git(['hash-object', '-w', '--stdin'], { input: await partialPage(file, changes) })).trim()
+    const mode = (await git(['ls-files', '-s', '--', file])).split(' ')[0] || '100644'
+    await git(['update-index', '--cacheinfo', `${mode},${blob},${file}`])
+    staged.push(file)
+  }
+
+  return staged
+}
+
+/**
+ * Unstage content changes (after a failed commit); the working tree keeps them
+ */
+export async function unstageChanges(): Promise<void> {
+  await git(['reset', '-q', '--', ...CONTENT_PATHS])
+}
+
+/**
+ * Publish a selection (everything by default) as one commit, holding the
+ * publish lock from the branch check to the commit. Returns the commit and
+ * its files, or null when there is nothing to publish. A refused selection
+ * (PublishSelectionError) or failed commit leaves nothing staged.
+ */
+export function publishChanges(
+  selection: PublishSelection,
+  message: string,
+  author: GitIdentity | null
+): Promise<{ branch: string; commit: string; files: string[] } | null> {
+  return withPublishLock(async () => {
+    // Before staging, so a refused publish leaves the index alone
+    const branch = await assertOnBranch()
+    try {
+      const files = await stageChanges(selection)
+      if (files.length === 0) return null
+      return { branch, commit: await commitStaged(message, author, files), files }
+    } catch (error) {
+      await unstageChanges().catch(() => {})
+      throw error
+    }
+  })
+}
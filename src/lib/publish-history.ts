@@ -0,0 +1,309 @@
+/**
+ * Publish History
+ *
+ * Lists past publishes (commits touching content, see CONTENT_PATHS) with
+ * the pages and microtext fields each one changed, and rolls them back:
+ *
+ *   revertPublish - undo one publish's content changes
+ *   restorePage   - put a page back the way it was at a commit
+ *
+ * Both land as a new commit, so rollbacks are themselves in the history
+ * and can be undone the same way. Only content paths are touched, even
+ * when the publish also changed code. Reverts go field by field where they
+ * can, so a later publish of a neighbouring field doesn't block them.
+ *
+ * A rollback is refused while the files it would change have unpublished
+ * edits, rather than mixing the two: publish or undo those first.
+ */
+
+import fs from 'fs/promises'
+import path from 'path'
+import matter from 'gray-matter'
+import { patchFrontmatter } from './frontmatter-writer'
+import { GitError, assertOnBranch, commitStaged, git, withPublishLock, type GitIdentity } from './git'
+import { getNestedValue, hashContent, withPageLocks } from './microtext-file'
+import { LOCALES, microtextKey } from './locales'
+import { CONTENT_PATHS, applyFieldChanges, contentAt, diffPageContent, slugOf, type FieldChange } from './publish-changes'
+
+export interface PublishedPage {
+  page: string
+  /** Path from the repository root */
+  file: string
+  fields: { locale: string; id: string }[]
+  /** Other changes to the page ("body", "frontmatter: title") */
+  other?: string[]
+}
+
+export interface PublishRecord {
+  commit: string
+  author: string
+  email: string
+  /** ISO 8601 */
+  time: string
+  /** Subject line of the commit message */
+  message: string
+  pages: PublishedPage[]
+  /** Other content files (uploads) */
+  files: string[]
+}
+
+export interface RollbackResult {
+  /** The new commit */
+  commit: string
+  message: string
+  /** Microtext changed by the rollback, per page still on disk */
+  pages: { page: string; version: string; fields: FieldChange[] }[]
+}
+
+/**
+ * Thrown for rollbacks that can't be done; `status` is the HTTP status to answer with
+ */
+export class RollbackError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'RollbackError'
+  }
+}
+
+const FIELD_SEPARATOR = '\x1f'
+
+// Commit, author, email, time, subject for git log
+const LOG_FORMAT = ['%H', '%an', '%ae', '%aI', '%s'].join('%x1f')
+
+// The commit's first parent, or the empty tree for a root commit
+async function parentOf(commit: string): Promise<string> {
+  try {
+    return (await git(['rev-parse', '--verify', '-q', `${commit}^`])).trim()
+  } catch {
+    return (await git(['hash-object', '-t', 'tree', '/dev/null'])).trim()
+  }
+}
+
+// Content files that differ between two commits
+async function changedBetween(from: string, to: string, paths: string[] = CONTENT_PATHS): Promise<string[]> {
+  const output = await git(['diff', '--name-only', '--no-renames', '-z', from, to, '--', ...paths])
+  return output.split('\0').filter(Boolean)
+}
+
+async function describe(commit: string, author: string, email: string, time: string, message: string): Promise<PublishRecord> {
+  const parent = await parentOf(commit)
+  const pages: PublishedPage[] = []
+  const files: string[] = []
+
+  for (const file of await changedBetween(parent, commit)) {
+    const page = slugOf(file)
+    if (!page) {
+      files.push(file)
+      continue
+    }
+    const diff = diffPageContent(page, await contentAt(parent, file), await contentAt(commit, file))
+    pages.push({
+      page,
+      file,
+      fields: diff.fields.map(({ locale, id }) => ({ locale, id })),
+      ...(diff.other.length > 0 && { other: diff.other }),
+    })
+  }
+
+  return { commit, author, email, time, message, pages, files }
+}
+
+/**
+ * The latest publishes on the current branch, newest first
+ */
+export async function listPublishes(limit = 20): Promise<PublishRecord[]> {
+  const output = await git(['log', `--max-count=${limit}`, `--format=${LOG_FORMAT}`, '--', ...CONTENT_PATHS])
+    .catch(() => '') // No commits yet
+
+  const records: PublishRecord[] = []
+  for (const line of output.split('\n').filter(Boolean)) {
+    const [commit, author, email, time, message] = line.split(FIELD_SEPARATOR)
+    records.push(await describe(commit, author, email, time, message))
+  }
+  return records
+}
+
+/**
+ * One publish, by commit
+ */
+export async function getPublish(commit: string): Promise<PublishRecord> {
+  const output = await git(['log', '-1', `--format=${LOG_FORMAT}`, commit])
+  const [hash, author, email, time, message] = output.trim().split(FIELD_SEPARATOR)
+  return describe(hash, author, email, time, message)
+}
+
+// A full commit hash on the current branch
+async function resolveCommit(commit: string): Promise<string> {
+  if (!/^[0-9a-f]{4,64}$/i.test(commit)) throw new RollbackError(`Not a commit: ${commit}`, 400)
+  try {
+    const full = (await git(['rev-parse', '--verify', '-q', `${commit}^{commit}`])).trim()
+    await git(['merge-base', '--is-ancestor', full, 'HEAD'])
+    return full
+  } catch {
+    throw new RollbackError(`Commit not found in this branch's history: ${commit}`, 404)
+  }
+}
+
+// Put files back as they are at HEAD (they had no unpublished changes)
+async function discardStaged(files: string[]): Promise<void> {
+  await git(['reset', '-q', '--', ...files]).catch(() => {})
+  for (const file of files) {
+    const committed = await contentAt('HEAD', file)
+    const absolute = path.join(process.cwd(), file)
+    if (committed === null) await fs.rm(absolute, { force: true })
+    else await fs.writeFile(absolute, committed)
+  }
+}
+
+/**
+ * Stage a rollback of `files` (via `stage`, which updates the working tree
+ * and index) and commit it. Undone again if staging or the commit fails.
+ */
+async function commitRollback(
+  files: string[],
+  stage: () => Promise<void>,
+  message: string,
+  author: GitIdentity | null
+): Promise<RollbackResult> {
+  if (files.length === 0) throw new RollbackError('Nothing to roll back: the content is already like that', 409)
+
+  const pageFiles = files.filter(file => slugOf(file)).map(file => path.join(process.cwd(), file))
+
+  // The publish lock first, then the pages', as every publish takes them
+  return withPublishLock(async () => {
+    await assertOnBranch()
+    return withPageLocks(pageFiles, async () => {
+      const pending = await git(['status', '--porcelain', '-z', '--untracked-files=all', '--', ...files])
+      if (pending) {
+        const names = pending.split('\0').filter(Boolean).map(entry => entry.slice(3))
+        throw new RollbackError(`Unpublished changes to ${names.join(', ')}; publish or undo them first`, 409)
+      }
+
+      const head = (await git(['rev-parse', 'HEAD'])).trim()
+      let commit: string
+      try {
+        await stage()
+        commit = await commitStaged(message, author, files)
+      } catch (error) {
+        await discardStaged(files)
+        throw error
+      }
+
+      const pages: RollbackResult['pages'] = []
+      for (const file of files) {
+        const page = slugOf(file)
+        const after = page && await contentAt(commit, file)
+        if (!page || after === null) continue
+        const { fields } = diffPageContent(page, await contentAt(head, file), after)
+        pages.push({ page, version: hashContent(after), fields })
+      }
+
+      return { commit, message, pages }
+    })
+  })
+}
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+
+// Undo a publish's changes to a page on top of its current content: each
+// microtext field, other frontmatter key and the body goes back to how it
+// was before, if it still is as published
+async function revertPage(file: string, page: string, before: string, published: string): Promise<void> {
+  const current = await contentAt('HEAD', file)
+  if (current === null) throw new RollbackError(`Page "${page}" has been removed since`, 409)
+
+  const was = matter(before, {})
+  const then = matter(published, {})
+  const now = matter(current, {})
+  const changedSince = (what: string) => new RollbackError(`${what} on ${page} has changed since; restore the page instead`, 409)
+
+  const { fields } = diffPageContent(page, before, published)
+  for (const change of fields) {
+    if (!isEqual(getNestedValue(now.data[microtextKey(change.locale)] ?? {}, change.id), change.new)) {
+      throw changedSince(`"${change.id}"`)
+    }
+  }
+  let reverted = applyFieldChanges(current, fields.map(change => ({ ...change, old: change.new, new: change.old })))
+
+  const microtextKeys = new Set(LOCALES.map(microtextKey))
+  const keys = [...new Set([...Object.keys(was.data), ...Object.keys(then.data)])]
+    .filter(key => !microtextKeys.has(key) && !isEqual(was.data[key], then.data[key]))
+  if (reverted !== null && keys.length > 0) {
+    const { data } = matter(reverted, {})
+    const target = { ...data }
+    for (const key of keys) {
+      if (!isEqual(now.data[key], then.data[key])) throw changedSince(`"${key}"`)
+      if (was.data[key] === undefined) delete target[key]
+      else target[key] = was.data[key]
+    }
+    reverted = patchFrontmatter(reverted, data, target)
+  }
+
+  if (reverted !== null && was.content !== then.content) {
+    if (now.content !== then.content) throw changedSince('The body')
+    reverted = reverted.endsWith(now.content) ? reverted.slice(0, reverted.length - now.content.length) + was.content : null
+  }
+
+  if (reverted === null) throw new RollbackError(`Could not revert ${page}; restore the page instead`, 409)
+  await fs.writeFile(path.join(process.cwd(), file), reverted, 'utf-8')
+  await git(['add', '--', file])
+}
+
+/**
+ * Undo a publish's content changes as a new commit. Pages are reverted
+ * field by field (see revertPage), so later edits to other fields stay;
+ * other files are reverted as a patch.
+ */
+export async function revertPublish(commit: string, author: GitIdentity | null): Promise<RollbackResult> {
+  const target = await resolveCommit(commit)
+  const parent = await parentOf(target)
+  const subject = (await git(['log', '-1', '--format=%s', target])).trim()
+  const message = `Revert "${subject}"\n\nThis reverts the content of commit ${target}.`
+
+  const files = await changedBetween(parent, target)
+  const pages = new Map<string, { page: string; before: string; published: string }>()
+  for (const file of files) {
+    const page = slugOf(file)
+    if (!page) continue
+    const before = await contentAt(parent, file)
+    const published = await contentAt(target, file)
+    if (before !== null && published !== null) pages.set(file, { page, before, published })
+  }
+  // Uploads, and pages the publish added or removed
+  const patched = files.filter(file => !pages.has(file))
+
+  return commitRollback(files, async () => {
+    for (const [file, { page, before, published }] of pages) await revertPage(file, page, before, published)
+    if (patched.length === 0) return
+
+    const patch = await git(['diff', '--binary', '--no-renames', target, parent, '--', ...patched])
+    try {
+      await git(['apply', '--index', '--whitespace=nowarn'], { input: patch })
+    } catch (error) {
+      if (error instanceof GitError && error.code === 'lock-held') throw error
+      // Later publishes changed the same lines; apply changes nothing then
+      throw new RollbackError(
+        'Later publishes changed the same files, so this one can\'t be undone on its own.',
+        409
+      )
+    }
+  }, message, author)
+}
+
+/**
+ * Put a page back the way it was at a commit, as a new commit
+ */
+export async function restorePage(commit: string, page: string, author: GitIdentity | null): Promise<RollbackResult> {
+  const target = await resolveCommit(commit)
+  const listed = await git(['ls-tree', '-r', '--name-only', '-z', target, '--', 'src/pages/'])
+  const file = listed.split('\0').find(f => slugOf(f) === page)
+  if (!file) throw new RollbackError(`Page "${page}" didn't exist at ${target.slice(0, 7)}`, 404)
+
+  // The page may have moved since (about.mdx -> about/index.mdx)
+  const moved = (await git(['ls-files', '-z', '--', 'src/pages/'])).split('\0').find(f => f !== file && slugOf(f) === page)
+  if (moved) throw new RollbackError(`Page "${page}" has moved to ${moved}; restore it by hand`, 409)
+
+  const message = `Restore ${page} to ${target.slice(0, 7)}\n\nRestores ${file} as it was in commit ${target}.`
+  const files = await changedBetween('HEAD', target, [file])
+  return commitRollback(files, () => git(['checkout', target, '--', file]).then(() => {}), message, author)
+}
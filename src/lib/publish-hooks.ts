@@ -0,0 +1,291 @@
+/**
+ * Post-publish Hooks
+ *
+ * What happens after a publish commit (from /api/publish, a rollback or a
+ * scheduled publish), configured with environment variables:
+ *
+ *   VIBE_PUBLISH_REMOTE          push the commit to this remote ("origin")
+ *   VIBE_PUBLISH_BRANCH          ...to this branch (default: the branch published on)
+ *   VIBE_PUBLISH_BUILD           then run this command, through the shell
+ *   VIBE_PUBLISH_WEBHOOK         then POST the publish as JSON to this URL
+ *   VIBE_PUBLISH_WEBHOOK_SECRET  ...signed: X-Vibe-Signature-256: sha256=<HMAC of the body>
+ *
+ * Hooks run in that order, in the background, one publish at a time; when
+ * one fails the rest are skipped. The build command gets the publish in
+ * VIBE_PUBLISH_COMMIT and VIBE_PUBLISH_BRANCH. The webhook body is the
+ * publish as listed by /api/publish-history, plus `event` and `branch`.
+ *
+ * A run the server stopped in the middle of (a restart, a crash) reads as
+ * failed, so it can be retried.
+ *
+ * Each publish's run is kept in `.vibe/publish-hooks.json`:
+ *   [{ commit, branch, status, startedAt, finishedAt?, hooks: [{ name, target, status, startedAt?, finishedAt?, output? }] }]
+ */
+
+import { exec } from 'child_process'
+import crypto from 'crypto'
+import { GitError, assertOnBranch, git } from './git'
+import { jsonStore } from './json-store'
+import { getPublish } from './publish-history'
+
+export type HookName = 'push' | 'build' | 'webhook'
+
+export type HookStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped'
+
+export interface HookResult {
+  name: HookName
+  /** What it does: "origin/main", the command, the webhook's address */
+  target: string
+  status: HookStatus
+  startedAt?: string
+  finishedAt?: string
+  /** End of the hook's output, or why it failed */
+  output?: string
+}
+
+export interface HookRun {
+  commit: string
+  branch: string
+  status: 'running' | 'succeeded' | 'failed'
+  startedAt: string
+  finishedAt?: string
+  hooks: HookResult[]
+}
+
+/**
+ * Thrown for runs that can't be started as asked
+ */
+export class PublishHookError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'PublishHookError'
+  }
+}
+
+interface Hook {
+  name: HookName
+  target: string
+  /** Resolves with the hook's output */
+  run: (run: HookRun) => Promise<string>
+}
+
+/** Longest a build may take */
+const BUILD_TIMEOUT = 15 * 60 * 1000
+
+/** Longest to wait for the webhook to answer */
+const WEBHOOK_TIMEOUT = 30 * 1000
+
+/** Output kept per hook, from the end */
+const MAX_OUTPUT = 4000
+
+/** Runs kept for the record */
+const KEEP_RUNS = 50
+
+const store = jsonStore<HookRun[]>('publish-hooks.json', { empty: () => [], beforeWrite: runs => runs.slice(0, KEEP_RUNS) })
+
+// Hook runs, one after another
+let pipeline: Promise<void> = Promise.resolve()
+// Commits whose runs this process has queued or is running. A run stored
+// as running that isn't here was cut off by a restart or crash.
+const active = new Set<string>()
+
+const tail = (text: string) => text.length > MAX_OUTPUT ? `…${text.slice(-MAX_OUTPUT)}` : text
+
+// Store a run, replacing an earlier one for the same commit
+function saveRun(run: HookRun): Promise<void> {
+  return store.update((runs) => {
+    const earlier = runs.findIndex(r => r.commit === run.commit)
+    if (earlier !== -1) runs.splice(earlier, 1)
+    runs.unshift(structuredClone(run))
+  })
+}
+
+// A run as it stands: one left running by another process is over
+function current(run: HookRun): HookRun {
+  if (run.status !== 'running' || active.has(run.commit)) return run
+  return {
+    ...run,
+    status: 'failed',
+    hooks: run.hooks.map(hook =>
+      hook.status === 'running' ? { ...hook, status: 'failed', output: `${hook.output ?? ''}\nInterrupted: the server stopped`.trim() }
+        : hook.status === 'pending' ? { ...hook, status: 'skipped' }
+        : hook
+    ),
+  }
+}
+
+function push(remote: string, branch: string | undefined): Hook {
+  return {
+    name: 'push',
+    target: `${remote}/${branch || '<branch>'}`,
+    run: async (run) => {
+      const target = branch || run.branch
+      // Never wait for credentials nobody can type
+      const output = await git(['push', '--porcelain', remote, `${run.commit}:refs/heads/${target}`], { env: { GIT_TERMINAL_PROMPT: '0' } })
+      return output.trim()
+    },
+  }
+}
+
+function build(command: string): Hook {
+  return {
+    name: 'build',
+    target: command,
+    run: run => new Promise((resolve, reject) => {
+      exec(
+        command,
+        {
+          cwd: process.cwd(),
+          env: { ...process.env, VIBE_PUBLISH_COMMIT: run.commit, VIBE_PUBLISH_BRANCH: run.branch },
+          timeout: BUILD_TIMEOUT,
+          maxBuffer: 64 * 1024 * 1024,
+        },
+        (error, stdout, stderr) => {
+          const output = `${stdout}${stderr}`.trim()
+          if (!error) resolve(output)
+          else if (error.killed) reject(new Error(`Timed out after ${BUILD_TIMEOUT / 60000} minutes\n${output}`))
+          else reject(new Error(`Exited with code ${error.code}\n${output}`))
+        }
+      )
+    }),
+  }
+}
+
+function webhook(url: string, secret: string | undefined): Hook {
+  const { origin, pathname } = new URL(url)
+  return {
+    name: 'webhook',
+    // Not the query string, which may hold a key
+    target: origin + pathname,
+    run: async (run) => {
+      const body = JSON.stringify({ event: 'publish', branch: run.branch, ...(await getPublish(run.commit)) })
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'User-Agent': 'vibe-editor',
+        'X-Vibe-Event': 'publish',
+        'X-Vibe-Delivery': crypto.randomUUID(),
+      }
+      if (secret) {
+        headers['X-Vibe-Signature-256'] = `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`
+      }
+
+      const response = await fetch(url, { method: 'POST', headers, body, signal: AbortSignal.timeout(WEBHOOK_TIMEOUT) })
+        .catch((error) => {
+          // "fetch failed" says little; the cause says why (ECONNREFUSED...)
+          throw new Error(error.cause?.message ? `${error.message}: ${error.cause.message}` : error.message)
+        })
+      const answer = (await response.text().catch(() => '')).trim()
+      if (!response.ok) throw new Error(`Answered ${response.status} ${response.statusText}\n${answer}`)
+      return `${response.status} ${response.statusText}${answer ? `\n${answer}` : ''}`
+    },
+  }
+}
+
+// The hooks configured, in the order they run
+function configuredHooks(): Hook[] {
+  const hooks: Hook[] = []
+  const { VIBE_PUBLISH_REMOTE, VIBE_PUBLISH_BRANCH, VIBE_PUBLISH_BUILD, VIBE_PUBLISH_WEBHOOK } = process.env
+  if (VIBE_PUBLISH_REMOTE) hooks.push(push(VIBE_PUBLISH_REMOTE, VIBE_PUBLISH_BRANCH))
+  if (VIBE_PUBLISH_BUILD) hooks.push(build(VIBE_PUBLISH_BUILD))
+  if (VIBE_PUBLISH_WEBHOOK) hooks.push(webhook(VIBE_PUBLISH_WEBHOOK, process.env.VIBE_PUBLISH_WEBHOOK_SECRET))
+  return hooks
+}
+
+/**
+ * The hooks configured, in the order they run
+ */
+export function listHooks(): Pick<HookResult, 'name' | 'target'>[] {
+  return configuredHooks().map(({ name, target }) => ({ name, target }))
+}
+
+async function execute(run: HookRun, hooks: Hook[]): Promise<void> {
+  for (const [i, hook] of hooks.entries()) {
+    const result = run.hooks[i]
+    if (run.status === 'failed') {
+      result.status = 'skipped'
+      continue
+    }
+
+    result.status = 'running'
+    result.startedAt = new Date().toISOString()
+    await saveRun(run)
+
+    try {
+      result.output = tail(await hook.run(run))
+      result.status = 'succeeded'
+      console.log(`[publish-hooks] ${run.commit.slice(0, 7)}: ${hook.name} succeeded`)
+    } catch (error) {
+      result.output = tail(error instanceof GitError ? error.detail || error.message : error instanceof Error ? error.message : String(error))
+      result.status = 'failed'
+      run.status = 'failed'
+      console.error(`[publish-hooks] ${run.commit.slice(0, 7)}: ${hook.name} failed:`, result.output.split('\n')[0])
+    }
+    result.finishedAt = new Date().toISOString()
+  }
+
+  if (run.status === 'running') run.status = 'succeeded'
+  run.finishedAt = new Date().toISOString()
+  await saveRun(run)
+}
+
+/**
+ * Run the hooks for a commit just published, in the background. Returns
+ * the run as started, or null when there are no hooks. Never throws: the
+ * publish itself has succeeded either way.
+ */
+export async function startPostPublish(commit: string): Promise<HookRun | null> {
+  try {
+    const hooks = configuredHooks()
+    if (hooks.length === 0) return null
+    active.add(commit)
+
+    const run: HookRun = {
+      commit,
+      branch: await assertOnBranch(),
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      hooks: hooks.map(({ name, target }) => ({ name, target, status: 'pending' })),
+    }
+    await saveRun(run)
+
+    pipeline = pipeline.then(() => execute(run, hooks)).catch((error) => {
+      console.error('[publish-hooks] Error:', error)
+    }).finally(() => {
+      active.delete(commit)
+    })
+    return run
+  } catch (error) {
+    active.delete(commit)
+    console.error('[publish-hooks] Could not start hooks:', error)
+    return null
+  }
+}
+
+/**
+ * Run a publish's hooks again, after a failure
+ */
+export async function retryPostPublish(commit: string): Promise<HookRun> {
+  const previous = await getRun(commit)
+  if (!previous) throw new PublishHookError(`No hook run for ${commit}`, 404)
+  if (active.has(previous.commit)) throw new PublishHookError('The hooks are still running', 409)
+
+  if (configuredHooks().length === 0) throw new PublishHookError('No post-publish hooks are configured', 409)
+  const run = await startPostPublish(previous.commit)
+  if (!run) throw new PublishHookError('Could not start the hooks; see the server log', 500)
+  return run
+}
+
+/**
+ * The latest runs, newest first
+ */
+export async function listRuns(limit = 20): Promise<HookRun[]> {
+  return (await store.read()).slice(0, limit).map(current)
+}
+
+/**
+ * The run for a commit (a full hash, or the start of one)
+ */
+export async function getRun(commit: string): Promise<HookRun | null> {
+  const run = (await store.read()).find(r => commit.length >= 4 && r.commit.startsWith(commit))
+  return run ? current(run) : null
+}
@@ -0,0 +1,416 @@
+/**
+ * Scheduled Publishing
+ *
+ * Drafts can be set to go live at a given time. They are handed to the
+ * server with a publish-at time and kept in `.vibe/schedules.json`; when
+ * due, their values are written to the pages and just those fields are
+ * committed (see stageChanges), authored as whoever scheduled them.
+ *
+ * Storage format:
+ *   [{ id, publishAt, createdBy, createdAt, message?, status, changes: [{ pageSlug, locale, id, value, baseVersion? }],
+ *      error?, commit?, publishedAt? }]
+ *
+ * The scheduler is a timer in the server process, started with the server
+ * (see src/integrations/publish-scheduler.ts; set VIBE_SCHEDULER=off to
+ * leave it to another instance). It wakes when the next schedule is due,
+ * and at least once a minute, and catches up on anything that fell due
+ * while the server was down.
+ *
+ * Scheduled commits run the post-publish hooks like any other publish
+ * (see publish-hooks.ts).
+ *
+ * A field edited after it was scheduled fails its schedule rather than
+ * being overwritten. Rescheduling a failed schedule takes the fields as
+ * they are now as its base, so the scheduled values win next time. One moved
+ * or cancelled while it was being published is recorded as published all
+ * the same, once its commit has gone through.
+ */
+
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import { readUsers } from './auth'
+import { publishSaves } from './event-bus'
+import { assertOnBranch, authorFor, commitStaged, withPublishLock } from './git'
+import { jsonStore } from './json-store'
+import { localeMicrotext, microtextKey, resolveLocale } from './locales'
+import {
+  getNestedValue,
+  hashContent,
+  loadPageSchema,
+  normalizeSlug,
+  readPage,
+  resolvePagePath,
+  serializePage,
+  setNestedValue,
+  validatePath,
+  versionOf,
+  withPageLocks,
+  type PageFile,
+} from './microtext-file'
+import { validateValue } from './microtext-schema'
+import { getUnpublishedChanges, stageChanges, unstageChanges } from './publish-changes'
+import { startPostPublish } from './publish-hooks'
+import { recordRevisions } from './revision-log'
+
+export interface ScheduledChange {
+  pageSlug: string
+  locale: string
+  id: string
+  value: string
+  /** Version of the field the value was written against */
+  baseVersion?: string
+}
+
+export interface Schedule {
+  id: string
+  /** ISO 8601 */
+  publishAt: string
+  /** Username */
+  createdBy: string
+  createdAt: string
+  /** Commit message; a default one is used when omitted */
+  message?: string
+  status: 'pending' | 'published' | 'failed'
+  changes: ScheduledChange[]
+  error?: string
+  commit?: string
+  publishedAt?: string
+}
+
+/**
+ * Thrown for schedules that can't be created, changed or published as asked
+ */
+export class ScheduleError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'ScheduleError'
+  }
+}
+
+/** Longest the scheduler sleeps between checks */
+const MAX_WAIT = 60 * 1000
+
+/**
+ * How long it waits to retry a schedule still due after a run (its outcome
+ * couldn't be stored), rather than running it again straight away
+ */
+const RETRY_WAIT = 10 * 1000
+
+/** Finished schedules kept for the record */
+const KEEP_FINISHED = 50
+
+let timer: ReturnType<typeof setTimeout> | null = null
+let running: Promise<void> | null = null
+
+const store = jsonStore<Schedule[]>('schedules.json', {
+  empty: () => [],
+  // Open schedules, and the latest published
+  beforeWrite: (schedules) => {
+    const open = schedules.filter(s => s.status !== 'published')
+    const published = schedules.filter(s => s.status === 'published')
+      .sort((a, b) => (b.publishedAt || '').localeCompare(a.publishedAt || ''))
+      .slice(0, KEEP_FINISHED)
+    return [...open, ...published]
+  },
+})
+
+function parsePublishAt(value: unknown): string {
+  const time = typeof value === 'string' ? Date.parse(value) : NaN
+  if (isNaN(time)) throw new ScheduleError('publishAt must be a date and time (ISO 8601)')
+  return new Date(time).toISOString()
+}
+
+/**
+ * Check scheduled changes against the pages as they are now. Returns the
+ * changes with their locale filled in.
+ */
+async function checkChanges(changes: unknown): Promise<ScheduledChange[]> {
+  if (!Array.isArray(changes) || changes.length === 0) {
+    throw new ScheduleError('changes must be a non-empty list of { pageSlug, locale?, id, value, baseVersion? }')
+  }
+
+  const checked: ScheduledChange[] = []
+  for (const change of changes) {
+    if (typeof change?.id !== 'string' || typeof change?.value !== 'string') {
+      throw new ScheduleError('Each change needs a string id and value')
+    }
+    const pageSlug = normalizeSlug(change.pageSlug)
+    const locale = resolveLocale(change.locale)
+    const filePath = await resolvePagePath(pageSlug)
+    if (!filePath) throw new ScheduleError(`Page not found: ${pageSlug}`)
+    if (!locale) throw new ScheduleError(`Unknown locale: ${change.locale}`)
+
+    const page = await readPage(pageSlug, filePath)
+    const pathError = validatePath(page.frontmatter[microtextKey(locale)] || {}, change.id)
+    if (pathError) throw new ScheduleError(`${change.id}: ${pathError}`)
+    const violations = validateValue(await loadPageSchema(page.frontmatter), change.id, change.value)
+    if (violations.length > 0) throw new ScheduleError(violations.map(v => v.message).join('; '), 422)
+
+    checked.push({
+      pageSlug,
+      locale,
+      id: change.id,
+      value: change.value,
+      ...(typeof change.baseVersion === 'string' && { baseVersion: change.baseVersion }),
+    })
+  }
+  return checked
+}
+
+/**
+ * All schedules: pending and failed ones by publish time, then the latest published
+ */
+export async function listSchedules(): Promise<Schedule[]> {
+  const schedules = await store.read()
+  const open = schedules.filter(s => s.status !== 'published').sort((a, b) => a.publishAt.localeCompare(b.publishAt))
+  const done = schedules.filter(s => s.status === 'published')
+    .sort((a, b) => (b.publishedAt || '').localeCompare(a.publishedAt || ''))
+  return [...open, ...done]
+}
+
+/**
+ * Schedule changes to be published at a time
+ */
+export async function createSchedule(
+  input: { publishAt: unknown; changes: unknown; message?: unknown },
+  createdBy: string
+): Promise<Schedule> {
+  const schedule: Schedule = {
+    id: crypto.randomUUID(),
+    publishAt: parsePublishAt(input.publishAt),
+    createdBy,
+    createdAt: new Date().toISOString(),
+    ...(typeof input.message === 'string' && input.message.trim() && { message: input.message.trim() }),
+    status: 'pending',
+    changes: await checkChanges(input.changes),
+  }
+
+  await store.update(schedules => { schedules.push(schedule) })
+  wakeScheduler()
+  return schedule
+}
+
+/**
+ * Move a schedule to another time. A failed one is retried, against the
+ * fields as they are now.
+ */
+export async function reschedule(id: string, publishAt: unknown): Promise<Schedule> {
+  const time = parsePublishAt(publishAt)
+
+  const schedule = await store.update(async (schedules) => {
+    const found = schedules.find(s => s.id === id)
+    if (!found) throw new ScheduleError(`Schedule not found: ${id}`, 404)
+    if (found.status === 'published') throw new ScheduleError('Already published', 409)
+
+    if (found.status === 'failed') {
+      for (const change of found.changes) {
+        const filePath = await resolvePagePath(change.pageSlug)
+        if (!filePath) continue
+        const page = await readPage(change.pageSlug, filePath)
+        change.baseVersion = versionOf(getNestedValue(page.frontmatter[microtextKey(change.locale)] || {}, change.id))
+      }
+    }
+
+    found.publishAt = time
+    found.status = 'pending'
+    delete found.error
+    return found
+  })
+
+  wakeScheduler()
+  return schedule
+}
+
+/**
+ * Drop a schedule that hasn't been published. Returns it, so its changes
+ * can go back to being drafts.
+ */
+export async function cancelSchedule(id: string): Promise<Schedule> {
+  const schedule = await store.update((schedules) => {
+    const index = schedules.findIndex(s => s.id === id)
+    if (index === -1) throw new ScheduleError(`Schedule not found: ${id}`, 404)
+    if (schedules[index].status === 'published') throw new ScheduleError('Already published', 409)
+    return schedules.splice(index, 1)[0]
+  })
+
+  wakeScheduler()
+  return schedule
+}
+
+// Write a schedule's values to their pages, all or nothing
+async function applyChanges(schedule: Schedule): Promise<void> {
+  const byFile = new Map<string, { slug: string; changes: ScheduledChange[] }>()
+  for (const change of schedule.changes) {
+    const filePath = await resolvePagePath(change.pageSlug)
+    if (!filePath) throw new ScheduleError(`Page not found: ${change.pageSlug}`)
+    const entry = byFile.get(filePath) || { slug: change.pageSlug, changes: [] }
+    entry.changes.push(change)
+    byFile.set(filePath, entry)
+  }
+
+  await withPageLocks([...byFile.keys()], async () => {
+    const pages: { page: PageFile; changes: ScheduledChange[]; previous: unknown[] }[] = []
+
+    for (const [filePath, { slug, changes }] of byFile) {
+      const page = await readPage(slug, filePath)
+      const schema = await loadPageSchema(page.frontmatter)
+
+      for (const change of changes) {
+        const microtext = page.frontmatter[microtextKey(change.locale)] || {}
+        const pathError = validatePath(microtext, change.id)
+        if (pathError) throw new ScheduleError(`${change.id}: ${pathError}`)
+        const violations = validateValue(schema, change.id, change.value)
+        if (violations.length > 0) throw new ScheduleError(violations.map(v => v.message).join('; '))
+
+        // Already applied (a retry after a failed commit) counts as fresh
+        const current = getNestedValue(microtext, change.id)
+        if (change.baseVersion && current !== change.value && versionOf(current) !== change.baseVersion) {
+          throw new ScheduleError(`"${change.id}" on ${slug} was changed after it was scheduled`, 409)
+        }
+      }
+      pages.push({ page, changes, previous: [] })
+    }
+
+    const writes = pages.map(({ page, changes, previous }) => {
+      for (const change of changes) {
+        const microtext = localeMicrotext(page.frontmatter, change.locale)
+        previous.push(getNestedValue(microtext, change.id))
+        setNestedValue(microtext, change.id, change.value)
+      }
+      return serializePage(page)
+    })
+
+    const written: PageFile[] = []
+    try {
+      for (const [i, { page }] of pages.entries()) {
+        await fs.writeFile(page.filePath, writes[i], 'utf-8')
+        written.push(page)
+      }
+    } catch (error) {
+      await Promise.all(written.map(page => fs.writeFile(page.filePath, page.raw, 'utf-8')))
+      throw error
+    }
+
+    for (const [i, { page, changes, previous }] of pages.entries()) {
+      await recordRevisions(
+        page.slug,
+        changes.map((change, j) => ({ fieldId: change.id, locale: change.locale, oldValue: previous[j], newValue: change.value })),
+        { author: schedule.createdBy, source: 'scheduled' }
+      )
+      publishSaves(
+        page.slug,
+        changes.map(change => ({ id: change.id, value: change.value, version: versionOf(change.value), locale: change.locale })),
+        hashContent(writes[i]),
+        schedule.createdBy
+      )
+    }
+  })
+}
+
+/**
+ * Publish one schedule: write its values, then commit just those fields.
+ * Returns the commit, or null if the values were already published.
+ */
+function publishSchedule(schedule: Schedule): Promise<string | null> {
+  // Shares the git index with manual publishes and rollbacks
+  return withPublishLock(async () => {
+    await assertOnBranch()
+    await applyChanges(schedule)
+
+    // Links and images publish as a whole (see getUnpublishedChanges)
+    const { fields } = await getUnpublishedChanges()
+    const selected = fields.filter(field => schedule.changes.some(change =>
+      change.pageSlug === field.page && change.locale === field.locale
+        && (change.id === field.id || change.id.startsWith(`${field.id}.`))
+    ))
+    if (selected.length === 0) return null
+
+    const user = (await readUsers()).find(u => u.username === schedule.createdBy)
+    const message = schedule.message
+      || `Scheduled update: ${schedule.changes.length} edit(s) for ${new Date(schedule.publishAt).toISOString()}`
+    try {
+      const staged = await stageChanges({ fields: selected.map(({ page, locale, id }) => ({ page, locale, id })) })
+      return await commitStaged(message, authorFor(user), staged)
+    } catch (error) {
+      await unstageChanges().catch(() => {})
+      throw error
+    }
+  })
+}
+
+/**
+ * Publish every schedule that is due, oldest first
+ */
+export function runDueSchedules(now: Date = new Date()): Promise<void> {
+  // One run at a time; a second caller waits for the current run
+  if (running) return running
+
+  running = (async () => {
+    const due = (await listSchedules())
+      .filter(s => s.status === 'pending' && Date.parse(s.publishAt) <= now.getTime())
+
+    for (const schedule of due) {
+      let outcome: Partial<Schedule>
+      try {
+        const commit = await publishSchedule(schedule)
+        outcome = { status: 'published', publishedAt: new Date().toISOString(), ...(commit && { commit }) }
+        console.log(`[publish-schedule] Published ${schedule.id} (${schedule.changes.length} change(s))${commit ? ` as ${commit.slice(0, 7)}` : ''}`)
+        if (commit) await startPostPublish(commit)
+      } catch (error) {
+        outcome = { status: 'failed', error: error instanceof Error ? error.message : String(error) }
+        console.error(`[publish-schedule] ${schedule.id} failed:`, outcome.error)
+      }
+
+      await store.update((schedules) => {
+        const stored = schedules.find(s => s.id === schedule.id)
+        // A commit that went through is recorded even if the schedule was
+        // moved or cancelled meanwhile; a failure leaves those be
+        if (outcome.status === 'published' && !stored) schedules.push({ ...schedule, ...outcome })
+        else if (stored && (outcome.status === 'published' || stored.publishAt === schedule.publishAt)) Object.assign(stored, outcome)
+      })
+    }
+  })().finally(() => {
+    running = null
+  })
+
+  return running
+}
+
+let started = false
+
+// Run what's due, then sleep until the next schedule or MAX_WAIT
+async function tick(): Promise<void> {
+  try {
+    await runDueSchedules()
+  } catch (error) {
+    console.error('[publish-schedule] Scheduler error:', error)
+  }
+
+  const next = (await listSchedules().catch(() => []))
+    .filter(s => s.status === 'pending')
+    .map(s => Date.parse(s.publishAt))[0]
+  const wait = next === undefined ? MAX_WAIT : next - Date.now()
+  const delay = wait <= 0 ? RETRY_WAIT : Math.min(wait, MAX_WAIT)
+
+  if (timer) clearTimeout(timer)
+  timer = setTimeout(tick, delay)
+  // Don't keep the process alive just for this
+  timer.unref?.()
+}
+
+// Re-plan after schedules change
+function wakeScheduler(): void {
+  if (!started) return
+  if (timer) clearTimeout(timer)
+  timer = setTimeout(tick, 0)
+  timer.unref?.()
+}
+
+/**
+ * Start the scheduler in this process (once)
+ */
+export function startScheduler(): void {
+  if (started || process.env.VIBE_SCHEDULER === 'off') return
+  started = true
+  wakeScheduler()
+}
@@ -0,0 +1,139 @@
+/**
+ * Microtext Revision Log
+ *
+ * Append-only history of every microtext write, one JSON line per change.
+ *
+ * Storage format:
+ *   File: `.vibe/history/${pageSlug}.jsonl` ("/" in slugs becomes "__")
+ *   Line: { id, pageSlug, fieldId, oldValue, newValue, author, source, timestamp, locale? }
+ *
+ * `locale` is only set for translations; entries without one belong to the
+ * default locale.
+ */
+
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import type { SessionUser } from './auth'
+import { dataPath } from './data-dir'
+import { DEFAULT_LOCALE } from './locales'
+
+export type RevisionSource = 'inline-editor' | 'ai-edit' | 'array-op' | 'mcp' | 'revert' | 'search-replace' | 'prune' | 'rollback' | 'scheduled'
+
+export const REVISION_SOURCES: RevisionSource[] = ['inline-editor', 'ai-edit', 'array-op', 'mcp', 'revert', 'search-replace', 'prune', 'rollback', 'scheduled']
+
+export interface Revision {
+  id: string
+  pageSlug: string
+  fieldId: string
+  oldValue: unknown
+  newValue: unknown
+  author: string
+  source: RevisionSource
+  timestamp: string
+  /** For reverts: the revision that was restored */
+  revertOf?: string
+  /** Translation the field belongs to (absent for the default locale) */
+  locale?: string
+}
+
+export type RevisionInput = Pick<Revision, 'fieldId' | 'oldValue' | 'newValue' | 'locale'>
+
+function historyFile(pageSlug: string): Promise<string> {
+  return dataPath('history', `${pageSlug.replace(/\//g, '__')}.jsonl`)
+}
+
+/**
+ * Who made the change: the signed-in user (see src/middleware.ts)
+ */
+export function getAuthor(user: SessionUser | null | undefined): string {
+  return user?.username || 'anonymous'
+}
+
+/**
+ * The source a route records its writes under. A client may name another
+ * only from `allowed`: the sources the server records itself ("revert",
+ * "rollback"...) are never taken from a request.
+ */
+export function getSource(body: { source?: string }, fallback: RevisionSource, allowed: RevisionSource[] = []): RevisionSource {
+  return allowed.includes(body.source as RevisionSource)
+    ? (body.source as RevisionSource)
+    : fallback
+}
+
+/**
+ * Append revisions for a page. Logging never fails the write it describes:
+ * errors are reported and swallowed.
+ */
+export async function recordRevisions(
+  pageSlug: string,
+  changes: RevisionInput[],
+  meta: { author: string; source: RevisionSource; revertOf?: string }
+): Promise<Revision[]> {
+  const timestamp = new Date().toISOString()
+  const revisions: Revision[] = changes
+    .filter(change => JSON.stringify(change.oldValue) !== JSON.stringify(change.newValue))
+    .map(({ locale, ...change }) => ({
+      id: crypto.randomUUID(),
+      pageSlug,
+      ...change,
+      ...meta,
+      timestamp,
+      ...(locale && locale !== DEFAULT_LOCALE ? { locale } : {}),
+    }))
+
+  if (revisions.length === 0) return revisions
+
+  try {
+    const lines = revisions.map(r => JSON.stringify(r)).join('\n') + '\n'
+    await fs.appendFile(await historyFile(pageSlug), lines, 'utf-8')
+  } catch (error) {
+    console.error('[revision-log] Failed to record revisions:', error)
+  }
+
+  return revisions
+}
+
+/**
+ * List revisions for a page (optionally one field of one locale), newest first
+ */
+export async function listRevisions(pageSlug: string, fieldId?: string, locale?: string): Promise<Revision[]> {
+  let content: string
+  try {
+    content = await fs.readFile(await historyFile(pageSlug), 'utf-8')
+  } catch {
+    return []
+  }
+
+  const revisions: Revision[] = []
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue
+    try {
+      const revision = JSON.parse(line) as Revision
+      const inLocale = !locale || (revision.locale || DEFAULT_LOCALE) === locale
+      if ((!fieldId || revision.fieldId === fieldId) && inLocale) {
+        revisions.push(revision)
+      }
+    } catch {
+      // Skip corrupt lines
+    }
+  }
+
+  return revisions.reverse()
+}
+
+/**
+ * Revisions to undo to put a page back to how it was right after a revision.
+ *
+ * Returned newest first: applying each step's oldValue in order unwinds
+ * later changes, including array ops interleaved with item edits.
+ */
+export async function getUndoSteps(
+  pageSlug: string,
+  revisionId: string
+): Promise<{ revision: Revision; steps: Revision[] } | null> {
+  const newestFirst = await listRevisions(pageSlug)
+  const index = newestFirst.findIndex(r => r.id === revisionId)
+  if (index === -1) return null
+
+  return { revision: newestFirst[index], steps: newestFirst.slice(0, index) }
+}
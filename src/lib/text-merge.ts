@@ -0,0 +1,158 @@
+/**
+ * Word Diff and Three-Way Text Merge
+ *
+ * diffWords shows what a draft changes, for reviewing drafts before sync.
+ *
+ * mergeText combines a draft with a server value that changed since the
+ * draft was started, given the value both began from:
+ *
+ *   base:   "Build sites fast"
+ *   mine:   "Build beautiful sites fast"
+ *   theirs: "Build sites fast, together"
+ *   merged: "Build beautiful sites fast, together"
+ *
+ * Both work on words (whitespace kept as its own token), so edits to
+ * different words merge cleanly. Where both sides changed the same words
+ * differently the merge is not clean; the merged text then keeps the
+ * draft's words there.
+ */
+
+/** A run of words kept, added or removed */
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+export interface MergeResult {
+  merged: string
+  /** False if both sides changed the same words */
+  clean: boolean
+}
+
+// Beyond this many token pairs the fields are too long to diff in the browser
+const MAX_CELLS = 1_000_000
+
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(token => token !== '')
+}
+
+/**
+ * Longest common subsequence of a and b, as the index in b matched by each
+ * index in a (-1 if unmatched)
+ */
+function matchTokens(a: string[], b: string[]): number[] {
+  const rows = a.length + 1
+  const cols = b.length + 1
+  const lengths = new Uint32Array(rows * cols)
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] = a[i] === b[j]
+        ? lengths[(i + 1) * cols + j + 1] + 1
+        : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1])
+    }
+  }
+
+  const matches = new Array<number>(a.length).fill(-1)
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      matches[i++] = j++
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+  return matches
+}
+
+/**
+ * Word-level changes from `before` to `after`. Removed words come before
+ * the words that replace them.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  if (before === after) return before ? [{ type: 'same', text: before }] : []
+
+  const beforeTokens = tokenize(before)
+  const afterTokens = tokenize(after)
+  if (beforeTokens.length * afterTokens.length > MAX_CELLS) {
+    return [
+      ...(before ? [{ type: 'removed' as const, text: before }] : []),
+      ...(after ? [{ type: 'added' as const, text: after }] : []),
+    ]
+  }
+
+  const parts: DiffPart[] = []
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1]
+    if (last?.type === type) last.text += text
+    else parts.push({ type, text })
+  }
+
+  const matches = matchTokens(beforeTokens, afterTokens)
+  let j = 0
+  beforeTokens.forEach((token, i) => {
+    if (matches[i] < 0) {
+      push('removed', token)
+      return
+    }
+    while (j < matches[i]) push('added', afterTokens[j++])
+    push('same', token)
+    j++
+  })
+  while (j < afterTokens.length) push('added', afterTokens[j++])
+
+  return parts
+}
+
+const same = (a: string[], b: string[]) => a.length === b.length && a.every((token, i) => token === b[i])
+
+/**
+ * Merge `mine` and `theirs`, both edited from `base`
+ */
+export function mergeText(base: string, mine: string, theirs: string): MergeResult {
+  if (mine === theirs || theirs === base) return { merged: mine, clean: true }
+  if (mine === base) return { merged: theirs, clean: true }
+
+  const baseTokens = tokenize(base)
+  const mineTokens = tokenize(mine)
+  const theirTokens = tokenize(theirs)
+  if (baseTokens.length * Math.max(mineTokens.length, theirTokens.length) > MAX_CELLS) {
+    return { merged: mine, clean: false }
+  }
+
+  const toMine = matchTokens(baseTokens, mineTokens)
+  const toTheirs = matchTokens(baseTokens, theirTokens)
+
+  // Base tokens kept by both sides anchor the merge; the stretches between
+  // anchors are where either side made changes
+  const anchors: [number, number, number][] = [[-1, -1, -1]]
+  baseTokens.forEach((_, i) => {
+    if (toMine[i] >= 0 && toTheirs[i] >= 0) anchors.push([i, toMine[i], toTheirs[i]])
+  })
+  anchors.push([baseTokens.length, mineTokens.length, theirTokens.length])
+
+  const merged: string[] = []
+  let clean = true
+  for (let k = 1; k < anchors.length; k++) {
+    const [b0, m0, t0] = anchors[k - 1]
+    const [b1, m1, t1] = anchors[k]
+    const baseChunk = baseTokens.slice(b0 + 1, b1)
+    const mineChunk = mineTokens.slice(m0 + 1, m1)
+    const theirChunk = theirTokens.slice(t0 + 1, t1)
+
+    if (same(mineChunk, baseChunk)) {
+      merged.push(...theirChunk)
+    } else if (same(theirChunk, baseChunk) || same(mineChunk, theirChunk)) {
+      merged.push(...mineChunk)
+    } else {
+      merged.push(...mineChunk)
+      clean = false
+    }
+    if (b1 < baseTokens.length) merged.push(baseTokens[b1])
+  }
+
+  return { merged: merged.join(''), clean }
+}
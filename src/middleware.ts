@@ -0,0 +1,137 @@
+/**
+ * Middleware
+ *
+ * Resolves the signed-in user (session cookie, or `Authorization: Bearer`
+ * API token) into Astro.locals.user and enforces roles:
+ *
+ * - /api/* routes need the role listed in ROUTE_ROLES. Unlisted writes need
+ *   editor; unlisted reads are public. /api/auth/* is always open.
+ * - Pages with ?edit, and /admin pages, redirect to /login unless signed in.
+ *
+ * Locale-prefixed pages (/es/about) are rewritten to the unprefixed route
+ * with Astro.locals.locale set, so each MDX page serves every locale. The
+ * rewrite skips this middleware, so /api and /admin aren't served that way.
+ *
+ * Pages with ?preview=<token> resolve the preview link into
+ * Astro.locals.preview (lib/draft-sets.ts), no sign-in needed; unknown,
+ * expired or revoked links get an error page. Previews aren't cached or
+ * indexed, and don't pass the token on as a referrer.
+ */
+
+import { defineMiddleware } from 'astro:middleware'
+import { authenticateToken, hasRole, readSession, SESSION_COOKIE, type Role } from './lib/auth'
+import { DraftSetError, resolvePreview } from './lib/draft-sets'
+import { DEFAULT_LOCALE, localeFromPath } from './lib/locales'
+
+interface RouteRule {
+  path: string
+  /** Methods the rule applies to; all when omitted */
+  methods?: string[]
+  role: Role
+}
+
+const ROUTE_ROLES: RouteRule[] = [
+  { path: '/api/publish', role: 'publisher' },
+  { path: '/api/publish-rollback', role: 'publisher' },
+  { path: '/api/publish-history', role: 'reviewer' },
+  { path: '/api/publish-hooks', methods: ['GET'], role: 'reviewer' },
+  { path: '/api/publish-hooks', role: 'publisher' },
+  { path: '/api/publish-schedule', methods: ['GET'], role: 'reviewer' },
+  { path: '/api/publish-schedule', role: 'publisher' },
+  { path: '/api/draft-sets', methods: ['GET'], role: 'reviewer' },
+  { path: '/api/draft-sets', role: 'editor' },
+  { path: '/api/microtext-history', role: 'reviewer' },
+  { path: '/api/events', role: 'reviewer' },
+  { path: '/api/microtext-search', role: 'reviewer' },
+  { path: '/api/microtext-scan', methods: ['GET'], role: 'reviewer' },
+  { path: '/api/presence', role: 'editor' },
+  { path: '/api/microtext', methods: ['POST'], role: 'editor' },
+  { path: '/api/microtext-batch', role: 'editor' },
+  { path: '/api/microtext-array', methods: ['POST'], role: 'editor' },
+  { path: '/api/microtext-revert', role: 'editor' },
+  { path: '/api/ai-edit', role: 'editor' },
+]
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS']
+
+function requiredRole(pathname: string, method: string): Role | null {
+  const path = pathname.replace(/\/$/, '')
+  if (path.startsWith('/api/auth/')) return null
+
+  const rule = ROUTE_ROLES.find(r => r.path === path && (!r.methods || r.methods.includes(method)))
+  if (rule) return rule.role
+
+  return path.startsWith('/api/') && !READ_METHODS.includes(method) ? 'editor' : null
+}
+
+function jsonError(error: string, status: number): Response {
+  return new Response(
+    JSON.stringify({ error }),
+    { status, headers: { 'Content-Type': 'application/json' } }
+  )
+}
+
+// A preview link that can't be shown
+function previewError(error: DraftSetError): Response {
+  return new Response(
+    `<!doctype html><html lang="en"><head><meta charset="utf-8"><meta name="robots" content="noindex"><title>Preview unavailable</title></head>`
+      + `<body style="font-family: system-ui, sans-serif; padding: 4rem; text-align: center; color: #374151">`
+      + `<p>${error.message}</p><p>Ask whoever shared it for a new link.</p></body></html>`,
+    { status: error.status, headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' } }
+  )
+}
+
+export const onRequest = defineMiddleware(async (context, next) => {
+  const { request, url, cookies, locals } = context
+
+  const authorization = request.headers.get('Authorization')
+  locals.apiToken = !!authorization?.startsWith('Bearer ')
+  locals.user = locals.apiToken
+    ? await authenticateToken(authorization!.slice('Bearer '.length).trim())
+    : await readSession(cookies.get(SESSION_COOKIE)?.value)
+
+  const { locale, pathname } = localeFromPath(url.pathname)
+  locals.locale = locale
+
+  // Only pages are served per locale; /es/api/... would skip these checks
+  if (locale !== DEFAULT_LOCALE && /^\/(api|admin)(\/|$)/.test(pathname)) {
+    return new Response('Not found', { status: 404 })
+  }
+
+  const role = requiredRole(pathname, request.method)
+  if (role) {
+    if (!locals.user) {
+      return jsonError('Sign in required', 401)
+    }
+    if (!hasRole(locals.user, role)) {
+      console.log(`[auth] ${locals.user.username} (${locals.user.role}) denied ${request.method} ${url.pathname}`)
+      return jsonError(`Requires ${role} role`, 403)
+    }
+  }
+
+  locals.preview = null
+  const previewToken = url.searchParams.get('preview')
+  if (previewToken && !pathname.startsWith('/api/')) {
+    try {
+      // Loaded here: the layout can't wait for it before rendering the page
+      locals.preview = await resolvePreview(previewToken, pathname.replace(/^\/|\/$/g, '') || 'index')
+    } catch (error) {
+      if (error instanceof DraftSetError) return previewError(error)
+      throw error
+    }
+  }
+
+  const wantsEditor = url.searchParams.has('edit') || pathname.startsWith('/admin')
+  if (wantsEditor && !locals.user && !pathname.startsWith('/api/')) {
+    return context.redirect(`/login?next=${encodeURIComponent(url.pathname + url.search)}`)
+  }
+
+  const response = locale !== DEFAULT_LOCALE ? await next(new URL(pathname + url.search, url)) : await next()
+
+  if (locals.preview) {
+    response.headers.set('Cache-Control', 'private, no-store')
+    response.headers.set('X-Robots-Tag', 'noindex')
+    response.headers.set('Referrer-Policy', 'no-referrer')
+  }
+  return response
+})
@@ -7,19 +7,52 @@
  * {
  *   "instruction": "Make the headline more urgent",
  *   "pageSlug": "index",
- *   "apply": false  // true to apply, false for preview
+ *   "apply": false,  // true to apply, false for preview
+ *   "baseVersion": "…" // optional page version from the preview response
  * }
+ *
+ * Applying re-checks every change against the file: if the page moved past
+ * `baseVersion` (or an `If-Match` header) or a change's oldValue no longer
+ * matches, nothing is written and a 409 with the current value is returned.
+ *
+ * Proposed values are checked against the page's microtext schema. Previews
+ * list any `violations`; applying a change set with violations returns 422.
  */
 
 import type { APIRoute } from 'astro'
-import fs from 'fs/promises'
-import path from 'path'
-import matter from 'gray-matter'
+import {
+  SchemaViolationError,
+  VersionConflictError,
+  assertFresh,
+  conflictResponse,
+  flattenMicrotext,
+  getBaseVersion,
+  getNestedValue,
+  loadPageSchema,
+  normalizeSlug,
+  readPage,
+  resolvePagePath,
+  setNestedValue,
+  versionOf,
+  violationResponse,
+  withPageLock,
+  writePage,
+} from '../../lib/microtext-file'
+import {
+  describeConstraints,
+  getFieldSchema,
+  validateValue,
+  type MicrotextSchema,
+  type Violation,
+} from '../../lib/microtext-schema'
+import { publishSaves } from '../../lib/event-bus'
+import { getAuthor, recordRevisions } from '../../lib/revision-log'
 
 interface AiEditRequest {
   instruction: string
   pageSlug: string
   apply?: boolean
+  baseVersion?: string
 }
 
 interface MicrotextChange {
@@ -34,37 +67,15 @@ interface AiEditResponse {
   changes?: MicrotextChange[]
   error?: string
   applied?: boolean
-}
-
-// Flatten nested microtext into id -> value map
-function flattenMicrotext(obj: any, prefix = ''): Record<string, string> {
-  const result: Record<string, string> = {}
-
-  for (const [key, value] of Object.entries(obj)) {
-    const fullKey = prefix ? `${prefix}.${key}` : key
-
-    if (typeof value === 'string') {
-      result[fullKey] = value
-    } else if (Array.isArray(value)) {
-      value.forEach((item, index) => {
-        if (typeof item === 'string') {
-          result[`${fullKey}.${index}`] = item
-        } else if (typeof item === 'object') {
-          Object.assign(result, flattenMicrotext(item, `${fullKey}.${index}`))
-        }
-      })
-    } else if (typeof value === 'object' && value !== null) {
-      Object.assign(result, flattenMicrotext(value, fullKey))
-    }
-  }
-
-  return result
+  version?: string
+  violations?: Violation[]
 }
 
 // Call Claude to interpret the instruction
 async function interpretInstruction(
   instruction: string,
-  microtext: Record<string, string>
+  microtext: Record<string, string>,
+  schema: MicrotextSchema | null
 ): Promise<MicrotextChange[]> {
   const anthropicKey = process.env.ANTHROPIC_API_KEY
 
@@ -73,7 +84,10 @@ async function interpretInstruction(
   }
 
   const microtextList = Object.entries(microtext)
-    .map(([id, value]) => `- ${id}: "${value}"`)
+    .map(([id, value]) => {
+      const constraints = describeConstraints(getFieldSchema(schema, id))
+      return `- ${id}: "${value}"${constraints.length ? ` (${constraints.join(', ')})` : ''}`
+    })
     .join('\n')
 
   const prompt = `You are a content editor. Given the current microtext values and an instruction, determine what changes to make.
@@ -89,7 +103,7 @@ Respond with a JSON array of changes. Each change should have:
 - newValue: the new value
 - reasoning: brief explanation
 
-Only include changes that are needed. If the instruction is unclear or no changes are needed, return an empty array.
+Only include changes that are needed. New values must respect any constraints listed in parentheses. If the instruction is unclear or no changes are needed, return an empty array.
 
 Respond ONLY with valid JSON array, no other text. Example:
 [{"id": "hero-headline", "oldValue": "Old text", "newValue": "New text", "reasoning": "Made it shorter"}]`
@@ -127,63 +141,71 @@ Respond ONLY with valid JSON array, no other text. Example:
   }
 }
 
-// Apply changes to the MDX file
+// Check proposed values against the page schema
+function validateChanges(schema: MicrotextSchema | null, changes: MicrotextChange[]): Violation[] {
+  return changes.flatMap(change => validateValue(schema, change.id, change.newValue))
+}
+
+// Apply changes to the MDX file, returning the new page version
 async function applyChanges(
   pageSlug: string,
-  changes: MicrotextChange[]
-): Promise<void> {
-  const pagesDir = path.join(process.cwd(), 'src', 'pages')
-  const filePath = path.join(pagesDir, `${pageSlug}.mdx`)
-
-  const content = await fs.readFile(filePath, 'utf-8')
-  const { data, content: mdxBody } = matter(content)
-
-  if (!data.microtext) {
-    throw new Error('No microtext found in frontmatter')
-  }
-
-  // Apply each change
-  for (const change of changes) {
-    setNestedValue(data.microtext, change.id, change.newValue)
-  }
-
-  // Write back
-  const newContent = matter.stringify(mdxBody, data)
-  await fs.writeFile(filePath, newContent, 'utf-8')
-}
+  filePath: string,
+  changes: MicrotextChange[],
+  baseVersion: string | null,
+  author: string
+): Promise<string> {
+  return withPageLock(filePath, async () => {
+    const page = await readPage(pageSlug, filePath)
+    const microtext = page.frontmatter.microtext
+
+    if (!microtext) {
+      throw new Error('No microtext found in frontmatter')
+    }
 
-// Helper to set nested values
-function setNestedValue(obj: any, pathStr: string, value: any): void {
-  const parts = pathStr.split('.')
-  let current = obj
+    assertFresh(page, null, baseVersion)
 
-  for (let i = 0; i < parts.length - 1; i++) {
-    const key = parts[i]
-    const nextKey = parts[i + 1]
-    const nextIsIndex = !isNaN(parseInt(nextKey, 10))
+    const violations = validateChanges(await loadPageSchema(page.frontmatter), changes)
+    if (violations.length > 0) {
+      throw new SchemaViolationError(violations)
+    }
 
-    if (current[key] === undefined) {
-      current[key] = nextIsIndex ? [] : {}
+    // The model's oldValue must still be what's on disk
+    for (const change of changes) {
+      const current = getNestedValue(microtext, change.id)
+      if (current !== undefined && current !== change.oldValue) {
+        throw new VersionConflictError(change.id, versionOf(change.oldValue), versionOf(current), current)
+      }
     }
-    current = current[key]
-  }
 
-  const lastKey = parts[parts.length - 1]
-  const index = parseInt(lastKey, 10)
+    // Apply each change
+    const revisions = changes.map(change => ({
+      fieldId: change.id,
+      oldValue: getNestedValue(microtext, change.id),
+      newValue: change.newValue,
+    }))
+    for (const change of changes) {
+      setNestedValue(microtext, change.id, change.newValue)
+    }
 
-  if (!isNaN(index) && Array.isArray(current)) {
-    current[index] = value
-  } else {
-    current[lastKey] = value
-  }
+    const version = await writePage(page)
+    await recordRevisions(pageSlug, revisions, { author, source: 'ai-edit' })
+    publishSaves(
+      pageSlug,
+      changes.map(change => ({ id: change.id, value: change.newValue, version: versionOf(change.newValue) })),
+      version,
+      author
+    )
+    return version
+  })
 }
 
-export const POST: APIRoute = async ({ request }) => {
+export const POST: APIRoute = async ({ request, locals }) => {
   try {
     const body: AiEditRequest = await request.json()
-    const { instruction, pageSlug, apply = false } = body
+    const { instruction, apply = false } = body
+    const pageSlug = normalizeSlug(body.pageSlug)
 
-    if (!instruction || !pageSlug) {
+    if (!instruction) {
       return new Response(
         JSON.stringify({ success: false, error: 'Missing instruction or pageSlug' }),
         { status: 400, headers: { 'Content-Type': 'application/json' } }
@@ -191,20 +213,16 @@ export const POST: APIRoute = async ({ request }) => {
     }
 
     // Read current microtext
-    const pagesDir = path.join(process.cwd(), 'src', 'pages')
-    const filePath = path.join(pagesDir, `${pageSlug}.mdx`)
-
-    let fileContent: string
-    try {
-      fileContent = await fs.readFile(filePath, 'utf-8')
-    } catch {
+    const filePath = await resolvePagePath(pageSlug)
+    if (!filePath) {
       return new Response(
         JSON.stringify({ success: false, error: `Page not found: ${pageSlug}` }),
         { status: 404, headers: { 'Content-Type': 'application/json' } }
       )
     }
 
-    const { data } = matter(fileContent)
+    const page = await readPage(pageSlug, filePath)
+    const data = page.frontmatter
 
     if (!data.microtext) {
       return new Response(
@@ -215,9 +233,10 @@ export const POST: APIRoute = async ({ request }) => {
 
     // Flatten microtext for AI
     const flatMicrotext = flattenMicrotext(data.microtext)
+    const schema = await loadPageSchema(data)
 
     // Get AI interpretation
-    const changes = await interpretInstruction(instruction, flatMicrotext)
+    const changes = await interpretInstruction(instruction, flatMicrotext, schema)
 
     if (changes.length === 0) {
       return new Response(
@@ -225,21 +244,29 @@ export const POST: APIRoute = async ({ request }) => {
           success: true,
           changes: [],
           applied: false,
+          version: page.version,
           message: 'No changes needed'
         }),
         { headers: { 'Content-Type': 'application/json' } }
       )
     }
 
-    // Apply if requested
+    // Apply if requested, against the version the caller previewed (or
+    // the version the instruction was just interpreted against)
+    let version = page.version
     if (apply) {
-      await applyChanges(pageSlug, changes)
+      const baseVersion = getBaseVersion(request, body) || page.version
+      version = await applyChanges(pageSlug, filePath, changes, baseVersion, getAuthor(locals.user))
     }
 
+    const violations = validateChanges(schema, changes)
+
     const response: AiEditResponse = {
       success: true,
       changes,
-      applied: apply
+      applied: apply,
+      version,
+      ...(violations.length > 0 && { violations })
     }
 
     return new Response(
@@ -248,6 +275,13 @@ export const POST: APIRoute = async ({ request }) => {
     )
 
   } catch (error) {
+    if (error instanceof VersionConflictError) {
+      return conflictResponse(error)
+    }
+    if (error instanceof SchemaViolationError) {
+      return violationResponse(error.violations)
+    }
+
     console.error('AI edit error:', error)
     return new Response(
       JSON.stringify({
@@ -0,0 +1,69 @@
+/**
+ * API Route: /api/auth/login
+ *
+ * POST - Sign in and set the session cookie
+ *
+ * Accepts JSON ({ username, password }) or the login page's form post
+ * (username, password, next). Forms are redirected back: to `next` on
+ * success, to the login page with an error otherwise.
+ */
+
+import type { APIRoute } from 'astro'
+import { authenticate, createSession, safeRedirect, SESSION_COOKIE, SESSION_MAX_AGE } from '../../../lib/auth'
+
+export const POST: APIRoute = async ({ request, cookies, url, redirect }) => {
+  const isForm = (request.headers.get('Content-Type') || '').includes('form')
+
+  let username = ''
+  let password = ''
+  let next = '/'
+
+  try {
+    if (isForm) {
+      const form = await request.formData()
+      username = String(form.get('username') || '')
+      password = String(form.get('password') || '')
+      next = safeRedirect(String(form.get('next') || ''))
+    } else {
+      const body = await request.json()
+      username = String(body.username || '')
+      password = String(body.password || '')
+    }
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid request body' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+
+  const user = username && password ? await authenticate(username, password) : null
+
+  if (!user) {
+    console.log(`[auth] Failed sign-in for "${username}"`)
+    if (isForm) {
+      return redirect(`/login?error=1&next=${encodeURIComponent(next)}`, 303)
+    }
+    return new Response(
+      JSON.stringify({ error: 'Invalid username or password' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+
+  cookies.set(SESSION_COOKIE, await createSession(user), {
+    path: '/',
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: url.protocol === 'https:',
+    maxAge: SESSION_MAX_AGE,
+  })
+
+  console.log(`[auth] ${user.username} signed in (${user.role})`)
+
+  if (isForm) {
+    return redirect(next, 303)
+  }
+  return new Response(
+    JSON.stringify({ success: true, user }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  )
+}
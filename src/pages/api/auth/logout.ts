@@ -0,0 +1,20 @@
+/**
+ * API Route: /api/auth/logout
+ *
+ * POST - Clear the session cookie. Form posts are redirected home.
+ */
+
+import type { APIRoute } from 'astro'
+import { SESSION_COOKIE } from '../../../lib/auth'
+
+export const POST: APIRoute = async ({ request, cookies, redirect }) => {
+  cookies.delete(SESSION_COOKIE, { path: '/' })
+
+  if ((request.headers.get('Content-Type') || '').includes('form')) {
+    return redirect('/', 303)
+  }
+  return new Response(
+    JSON.stringify({ success: true }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  )
+}
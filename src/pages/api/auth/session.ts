@@ -0,0 +1,14 @@
+/**
+ * API Route: /api/auth/session
+ *
+ * GET - The signed-in user ({ user: { username, name, role } | null })
+ */
+
+import type { APIRoute } from 'astro'
+
+export const GET: APIRoute = async ({ locals }) => {
+  return new Response(
+    JSON.stringify({ user: locals.user }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  )
+}
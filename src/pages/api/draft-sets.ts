@@ -0,0 +1,125 @@
+/**
+ * API Route: /api/draft-sets
+ *
+ * GET - Draft sets with their preview links, most recently changed first
+ *   { draftSets: DraftSet[] }  (see lib/draft-sets.ts)
+ *
+ * POST - Create or change a draft set, or its preview links
+ *
+ * Request body:
+ *   { action: 'create', name: string, changes: [{ pageSlug, locale?, id, value }] }
+ *   { action: 'update', id: string, name?: string, changes?: [...] }   changes replace the set's
+ *   { action: 'delete', id: string }
+ *   { action: 'share', id: string, expiresInDays?: number }            default 7, at most 30
+ *   { action: 'revoke', id: string, linkId: string }
+ *
+ * Schema rules aren't enforced on a set's changes, but link URLs are: an
+ * `href` that isn't one is a 422, as with saves.
+ *
+ * Share answers with the link's token and a URL previewing the set's first
+ * page; the token can't be fetched again later. Anyone with the URL sees
+ * the set's values over the published pages, read-only, until the link
+ * expires or is revoked.
+ */
+
+import type { APIRoute } from 'astro'
+import {
+  createDraftSet,
+  createPreviewLink,
+  deleteDraftSet,
+  DraftSetError,
+  listDraftSets,
+  previewPath,
+  revokePreviewLink,
+  updateDraftSet,
+  type DraftSet,
+} from '../../lib/draft-sets'
+import { SchemaViolationError, violationResponse } from '../../lib/microtext-file'
+import { getAuthor } from '../../lib/revision-log'
+
+export const GET: APIRoute = async () => {
+  try {
+    return new Response(
+      JSON.stringify({ draftSets: await listDraftSets() }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('[draft-sets] Error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Failed to read draft sets' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
+
+export const POST: APIRoute = async ({ request, locals, url }) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { action } = body
+    const author = getAuthor(locals.user)
+
+    if (action !== 'create' && typeof body.id !== 'string') {
+      return new Response(
+        JSON.stringify({ error: 'Missing required field: id' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    let result: { draftSet: DraftSet } & Record<string, unknown>
+    switch (action) {
+      case 'create':
+        result = { draftSet: await createDraftSet(body, author) }
+        break
+      case 'update':
+        result = { draftSet: await updateDraftSet(body.id, body) }
+        break
+      case 'delete':
+        result = { draftSet: await deleteDraftSet(body.id) }
+        break
+      case 'share': {
+        const { draftSet, link, token } = await createPreviewLink(body.id, body.expiresInDays, author)
+        const [first] = draftSet.changes
+        result = { draftSet, link, token, url: new URL(previewPath(first.pageSlug, first.locale, token), url).toString() }
+        break
+      }
+      case 'revoke':
+        if (typeof body.linkId !== 'string') {
+          return new Response(
+            JSON.stringify({ error: 'Missing required field: linkId' }),
+            { status: 400, headers: { 'Content-Type': 'application/json' } }
+          )
+        }
+        result = { draftSet: await revokePreviewLink(body.id, body.linkId) }
+        break
+      default:
+        return new Response(
+          JSON.stringify({ error: 'action must be "create", "update", "delete", "share" or "revoke"' }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        )
+    }
+
+    console.log(`[draft-sets] ${author}: ${action} ${result.draftSet.id}`)
+
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    if (error instanceof SchemaViolationError) {
+      return violationResponse(error.violations)
+    }
+    if (error instanceof DraftSetError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: error.status, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    console.error('[draft-sets] Error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Failed to update draft set' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
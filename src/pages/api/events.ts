@@ -0,0 +1,85 @@
+/**
+ * API Route: /api/events
+ *
+ * GET - Server-sent event stream of live edits for a page
+ *
+ * Query: ?pageSlug=index&sessionId=<per-tab id>
+ *
+ * Events (each `data:` is JSON, see LiveEvent in lib/event-bus):
+ *   presence      - everyone on the page and the field they're editing
+ *   field-saved   - a value was written: { id, value, version, pageVersion, author }
+ *   array-changed - a list was changed: { arrayPath, action, version, pageVersion, author }
+ *
+ * The session counts as present while the stream is open.
+ */
+
+import type { APIRoute } from 'astro'
+import { getPresence, joinPage, leavePage, subscribe, type LiveEvent } from '../../lib/event-bus'
+import { normalizeSlug } from '../../lib/microtext-file'
+
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_MS = 25_000
+
+export const GET: APIRoute = async ({ url, request, locals }) => {
+  const pageSlug = normalizeSlug(url.searchParams.get('pageSlug'))
+  const sessionId = url.searchParams.get('sessionId')
+
+  if (!sessionId || !/^[\w-]{8,64}$/.test(sessionId)) {
+    return new Response(
+      JSON.stringify({ error: 'Missing or invalid sessionId' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+
+  const user = locals.user!
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (event: LiveEvent) => {
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`))
+      }
+
+      // Join first: others hear about us, we get the snapshot below
+      joinPage(pageSlug, sessionId, user)
+      const unsubscribe = subscribe(pageSlug, send)
+      send({ type: 'presence', sessions: getPresence(pageSlug) })
+
+      const heartbeat = setInterval(() => {
+        controller.enqueue(encoder.encode(': ping\n\n'))
+      }, HEARTBEAT_MS)
+
+      let closed = false
+      cleanup = () => {
+        if (closed) return
+        closed = true
+        clearInterval(heartbeat)
+        unsubscribe()
+        leavePage(pageSlug, sessionId)
+        console.log(`[events] ${user.username} left ${pageSlug}`)
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the client
+        }
+      }
+
+      request.signal.addEventListener('abort', () => cleanup())
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  console.log(`[events] ${user.username} joined ${pageSlug}`)
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
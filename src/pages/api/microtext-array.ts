@@ -1,80 +1,168 @@
 /**
  * API Route: /api/microtext-array
  *
- * Manage array-based microtext (add/remove items)
+ * Manage array-based microtext (add, remove, reorder, copy items)
  *
- * POST - Add or remove items from a microtext array
+ * POST - Change a microtext array
  *
  * Request body:
- *   { pageSlug: string, arrayPath: string, action: 'add' | 'remove', index?: number, template?: object }
+ *   { pageSlug: string, arrayPath: string, action: ArrayAction, baseVersion?: string, ...action fields }
+ *
+ * Actions:
+ *   add        { template?: object }                              append an item
+ *   insert     { index: number, template?: object }               insert before index
+ *   remove     { index: number }                                  remove an item
+ *   move       { from: number, to: number }                       reorder within the array
+ *   duplicate  { index: number }                                  copy an item, placed after it
+ *   transfer   { index: number, toArrayPath: string, toIndex?: number, toBaseVersion?: string }
+ *                                                                 move an item into another array
  *
  * Examples:
  *   Add: { pageSlug: "index", arrayPath: "features", action: "add", template: { title: "New Feature", desc: "Description" } }
  *   Remove: { pageSlug: "index", arrayPath: "features", action: "remove", index: 2 }
+ *   Move: { pageSlug: "index", arrayPath: "features", action: "move", from: 2, to: 0 }
+ *
+ * `baseVersion` (or an `If-Match` header) is the version of the array the
+ * client last saw; a stale base is rejected with 409 so indexes can't drift.
+ * For transfers, `toBaseVersion` guards the target array the same way.
+ *
+ * The resulting list size and any new or moved item are checked against the
+ * page's microtext schema, and new items' link URLs whether or not it
+ * declares them; violations are rejected with 422.
+ *
+ * Each change is recorded in the revision log against the array path(s).
+ *
+ * Lists belong to the default locale. Translated copies of a list follow it
+ * by index, so each action is mirrored onto them (see lib/locales.ts).
  */
 
 import type { APIRoute } from 'astro'
-import fs from 'fs/promises'
-import path from 'path'
-import matter from 'gray-matter'
-
-const PAGES_DIR = path.join(process.cwd(), 'src/pages')
-
-// Helper to get a nested value by dot-notation path
-function getNestedValue(obj: any, pathStr: string): any {
-  if (!pathStr) return obj
-  return pathStr.split('.').reduce((current, key) => {
-    if (current === undefined || current === null) return undefined
-    const index = parseInt(key, 10)
-    if (!isNaN(index) && Array.isArray(current)) {
-      return current[index]
-    }
-    return current[key]
-  }, obj)
-}
+import {
+  SchemaViolationError,
+  VersionConflictError,
+  assertFresh,
+  conflictResponse,
+  getBaseVersion,
+  getNestedValue,
+  loadPageSchema,
+  normalizeSlug,
+  readPage,
+  resolvePagePath,
+  setNestedValue,
+  versionOf,
+  violationResponse,
+  withPageLock,
+  writePage,
+} from '../../lib/microtext-file'
+import { getFieldSchema, validateArray, validateHrefs, type ArraySchema, type Violation } from '../../lib/microtext-schema'
+import { publish } from '../../lib/event-bus'
+import { getAuthor, recordRevisions, type RevisionInput } from '../../lib/revision-log'
+import { DEFAULT_LOCALE, LOCALES, microtextKey } from '../../lib/locales'
 
-// Helper to set a nested value by dot-notation path
-function setNestedValue(obj: any, pathStr: string, value: any): void {
-  const parts = pathStr.split('.')
-  let current = obj
+const ACTIONS = ['add', 'insert', 'remove', 'move', 'duplicate', 'transfer'] as const
+type ArrayAction = typeof ACTIONS[number]
 
-  for (let i = 0; i < parts.length - 1; i++) {
-    const key = parts[i]
-    const nextKey = parts[i + 1]
-    const nextIsIndex = !isNaN(parseInt(nextKey, 10))
+const DEFAULT_ITEM = { title: 'New Item', desc: 'Description' }
 
-    if (current[key] === undefined) {
-      current[key] = nextIsIndex ? [] : {}
-    }
-    current = current[key]
+function isIndex(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value)
+}
+
+// Check the fields each action needs, returning an error message if missing
+function validateAction(action: ArrayAction, body: any): string | null {
+  switch (action) {
+    case 'insert':
+    case 'remove':
+    case 'duplicate':
+      return isIndex(body.index) ? null : `index is required for ${action} action`
+    case 'move':
+      return isIndex(body.from) && isIndex(body.to) ? null : 'from and to are required for move action'
+    case 'transfer':
+      if (!isIndex(body.index)) return 'index is required for transfer action'
+      if (!body.toArrayPath) return 'toArrayPath is required for transfer action'
+      if (body.toArrayPath === body.arrayPath) return 'toArrayPath must differ from arrayPath (use move)'
+      if (body.toIndex !== undefined && !isIndex(body.toIndex)) return 'toIndex must be an integer'
+      return null
+    default:
+      return null
   }
+}
 
-  const lastKey = parts[parts.length - 1]
-  current[lastKey] = value
+function outOfBounds(index: number, length: number): string {
+  return `Index ${index} out of bounds (array length: ${length})`
 }
 
-async function getFilePath(pageSlug: string): Promise<string | null> {
-  const slug = !pageSlug || pageSlug === '' ? 'index' : pageSlug
-  const safePath = path.normalize(slug).replace(/^(\.\.(\/|\\|$))+/, '')
+// Make index reachable in a translated list (untranslated items are null)
+function padTo(list: any[], length: number): void {
+  while (list.length < length) list.push(null)
+}
 
-  let filePath = path.join(PAGES_DIR, `${safePath}.mdx`)
+function trimTrailingNulls(list: any[]): void {
+  while (list.length > 0 && list[list.length - 1] == null) list.pop()
+}
 
-  try {
-    const realPath = await fs.realpath(filePath)
-    if (realPath.startsWith(PAGES_DIR)) return filePath
-  } catch {
-    try {
-      filePath = path.join(PAGES_DIR, safePath, 'index.mdx')
-      const realPath = await fs.realpath(filePath)
-      if (realPath.startsWith(PAGES_DIR)) return filePath
-    } catch {
-      return null
+/**
+ * Apply the same index change to every translated copy of the list(s), so
+ * translations stay attached to their items. Returns the changes made.
+ */
+function mirrorInTranslations(frontmatter: Record<string, any>, action: ArrayAction, body: any): RevisionInput[] {
+  const changes: RevisionInput[] = []
+
+  for (const locale of LOCALES.filter(l => l !== DEFAULT_LOCALE)) {
+    const microtext = frontmatter[microtextKey(locale)]
+    if (!microtext) continue
+
+    const source = getNestedValue(microtext, body.arrayPath)
+    const toArrayPath: string | undefined = action === 'transfer' ? body.toArrayPath : undefined
+    const target = toArrayPath ? getNestedValue(microtext, toArrayPath) : undefined
+    if (!Array.isArray(source) && !Array.isArray(target)) continue
+
+    const list: any[] = Array.isArray(source) ? source : []
+    const targetList: any[] = Array.isArray(target) ? target : []
+    const before = structuredClone(list)
+    const targetBefore = structuredClone(targetList)
+
+    switch (action) {
+      case 'insert':
+        if (body.index < list.length) list.splice(body.index, 0, null)
+        break
+      case 'remove':
+        if (body.index < list.length) list.splice(body.index, 1)
+        break
+      case 'move': {
+        padTo(list, Math.max(body.from, body.to) + 1)
+        const [item] = list.splice(body.from, 1)
+        list.splice(body.to, 0, item)
+        break
+      }
+      case 'duplicate':
+        if (body.index < list.length) list.splice(body.index + 1, 0, structuredClone(list[body.index]))
+        break
+      case 'transfer': {
+        const item = body.index < list.length ? list.splice(body.index, 1)[0] : null
+        if (item != null || body.toIndex < targetList.length) {
+          padTo(targetList, body.toIndex)
+          targetList.splice(body.toIndex, 0, item)
+        }
+        break
+      }
+    }
+
+    trimTrailingNulls(list)
+    trimTrailingNulls(targetList)
+    if (Array.isArray(source)) {
+      changes.push({ fieldId: body.arrayPath, locale, oldValue: before, newValue: list })
+    }
+    if (toArrayPath && (Array.isArray(target) || targetList.length > 0)) {
+      setNestedValue(microtext, toArrayPath, targetList)
+      changes.push({ fieldId: toArrayPath, locale, oldValue: targetBefore, newValue: targetList })
     }
   }
-  return null
+
+  return changes
 }
 
-export const POST: APIRoute = async ({ request }) => {
+export const POST: APIRoute = async ({ request, locals }) => {
   try {
     const body = await request.json()
     const { pageSlug, arrayPath, action, index, template } = body
@@ -87,21 +175,23 @@ export const POST: APIRoute = async ({ request }) => {
       )
     }
 
-    if (!['add', 'remove'].includes(action)) {
+    if (!ACTIONS.includes(action)) {
       return new Response(
-        JSON.stringify({ error: 'action must be "add" or "remove"' }),
+        JSON.stringify({ error: `action must be one of: ${ACTIONS.join(', ')}` }),
         { status: 400, headers: { 'Content-Type': 'application/json' } }
       )
     }
 
-    if (action === 'remove' && index === undefined) {
+    const invalid = validateAction(action, body)
+    if (invalid) {
       return new Response(
-        JSON.stringify({ error: 'index is required for remove action' }),
+        JSON.stringify({ error: invalid }),
         { status: 400, headers: { 'Content-Type': 'application/json' } }
       )
     }
 
-    const filePath = await getFilePath(pageSlug)
+    const slug = normalizeSlug(pageSlug)
+    const filePath = await resolvePagePath(slug)
     if (!filePath) {
       return new Response(
         JSON.stringify({ error: `Page not found: ${pageSlug}` }),
@@ -109,52 +199,176 @@ export const POST: APIRoute = async ({ request }) => {
       )
     }
 
-    // Read and parse
-    const fileContent = await fs.readFile(filePath, 'utf-8')
-    const { data: frontmatter, content: mdxBody } = matter(fileContent)
+    const baseVersion = getBaseVersion(request, body)
 
-    if (!frontmatter.microtext) {
-      frontmatter.microtext = {}
-    }
+    const outcome = await withPageLock(filePath, async () => {
+      const page = await readPage(slug, filePath)
+      const frontmatter = page.frontmatter
 
-    // Get or create the array
-    let arr = getNestedValue(frontmatter.microtext, arrayPath)
-    if (!Array.isArray(arr)) {
-      arr = []
-    }
+      if (!frontmatter.microtext) {
+        frontmatter.microtext = {}
+      }
+
+      assertFresh(page, arrayPath, baseVersion)
+
+      // Get or create the array
+      let arr = getNestedValue(frontmatter.microtext, arrayPath)
+      if (!Array.isArray(arr)) {
+        arr = []
+      }
+      const before = structuredClone(arr)
+
+      // Transfers also touch a second array
+      const toArrayPath: string | undefined = action === 'transfer' ? body.toArrayPath : undefined
+      let target: any[] = []
+      let targetBefore: any[] = []
+      if (toArrayPath) {
+        assertFresh(page, toArrayPath, body.toBaseVersion || null)
+        const existing = getNestedValue(frontmatter.microtext, toArrayPath)
+        target = Array.isArray(existing) ? existing : []
+        targetBefore = structuredClone(target)
+      }
+
+      let result: Record<string, any>
+
+      switch (action as ArrayAction) {
+        case 'add': {
+          // Add new item with template or default
+          const newItem = template || DEFAULT_ITEM
+          arr.push(newItem)
+          result = { action, arrayPath, index: arr.length - 1, item: newItem }
+          break
+        }
+        case 'insert': {
+          if (index < 0 || index > arr.length) return { error: outOfBounds(index, arr.length) }
+          const newItem = template || DEFAULT_ITEM
+          arr.splice(index, 0, newItem)
+          result = { action, arrayPath, index, item: newItem }
+          break
+        }
+        case 'remove': {
+          if (index < 0 || index >= arr.length) return { error: outOfBounds(index, arr.length) }
+          const removed = arr.splice(index, 1)[0]
+          result = { action, arrayPath, index, item: removed }
+          break
+        }
+        case 'move': {
+          const { from, to } = body
+          if (from < 0 || from >= arr.length) return { error: outOfBounds(from, arr.length) }
+          if (to < 0 || to >= arr.length) return { error: outOfBounds(to, arr.length) }
+          const [item] = arr.splice(from, 1)
+          arr.splice(to, 0, item)
+          result = { action, arrayPath, from, to, index: to, item }
+          break
+        }
+        case 'duplicate': {
+          if (index < 0 || index >= arr.length) return { error: outOfBounds(index, arr.length) }
+          const copy = structuredClone(arr[index])
+          arr.splice(index + 1, 0, copy)
+          result = { action, arrayPath, index: index + 1, item: copy }
+          break
+        }
+        case 'transfer': {
+          if (index < 0 || index >= arr.length) return { error: outOfBounds(index, arr.length) }
+          const toIndex = body.toIndex ?? target.length
+          if (toIndex < 0 || toIndex > target.length) return { error: outOfBounds(toIndex, target.length) }
+          const [item] = arr.splice(index, 1)
+          target.splice(toIndex, 0, item)
+          setNestedValue(frontmatter.microtext, toArrayPath!, target)
+          result = {
+            action,
+            arrayPath,
+            index,
+            item,
+            toArrayPath,
+            toIndex,
+            toLength: target.length,
+            toVersion: versionOf(target),
+          }
+          break
+        }
+      }
+
+      // Check list sizes and the item(s) this action added or moved
+      const schema = await loadPageSchema(frontmatter)
+      const violations: Violation[] = []
+      const arraySpec = getFieldSchema(schema, arrayPath) as ArraySchema | undefined
+      if (arraySpec?.type === 'array') {
+        const changed = ['add', 'insert', 'duplicate'].includes(action) ? [result!.index] : []
+        violations.push(...validateArray(arraySpec, arr, arrayPath, changed))
+      }
+      if (toArrayPath) {
+        const targetSpec = getFieldSchema(schema, toArrayPath) as ArraySchema | undefined
+        if (targetSpec?.type === 'array') {
+          violations.push(...validateArray(targetSpec, target, toArrayPath, [result!.toIndex]))
+        }
+      }
+      // New items' link URLs, declared or not
+      if (action === 'add' || action === 'insert') {
+        const itemId = `${arrayPath}.${result!.index}`
+        const reported = new Set(violations.map(v => v.id))
+        violations.push(...validateHrefs(itemId, arr[result!.index]).filter(v => !reported.has(v.id)))
+      }
+      if (violations.length > 0) {
+        throw new SchemaViolationError(violations)
+      }
 
-    let result: { action: string; arrayPath: string; index?: number; item?: any }
-
-    if (action === 'add') {
-      // Add new item with template or default
-      const newItem = template || { title: 'New Item', desc: 'Description' }
-      arr.push(newItem)
-      result = { action: 'add', arrayPath, index: arr.length - 1, item: newItem }
-    } else {
-      // Remove item at index
-      if (index < 0 || index >= arr.length) {
-        return new Response(
-          JSON.stringify({ error: `Index ${index} out of bounds (array length: ${arr.length})` }),
-          { status: 400, headers: { 'Content-Type': 'application/json' } }
-        )
+      // Write back
+      setNestedValue(frontmatter.microtext, arrayPath, arr)
+      const translated = mirrorInTranslations(frontmatter, action, { ...body, toIndex: result!.toIndex })
+      const pageVersion = await writePage(page)
+
+      const changes: RevisionInput[] = [{ fieldId: arrayPath, oldValue: before, newValue: arr }]
+      if (toArrayPath) {
+        changes.push({ fieldId: toArrayPath, oldValue: targetBefore, newValue: target })
       }
-      const removed = arr.splice(index, 1)[0]
-      result = { action: 'remove', arrayPath, index, item: removed }
+      const author = getAuthor(locals.user)
+      await recordRevisions(slug, [...changes, ...translated], { author, source: 'array-op' })
+
+      for (const change of changes) {
+        publish(slug, {
+          type: 'array-changed',
+          arrayPath: change.fieldId,
+          action,
+          version: versionOf(change.newValue),
+          pageVersion,
+          author,
+        })
+      }
+
+      return { result: result!, arr, pageVersion }
+    })
+
+    if ('error' in outcome) {
+      return new Response(
+        JSON.stringify({ error: outcome.error }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
     }
 
-    // Write back
-    setNestedValue(frontmatter.microtext, arrayPath, arr)
-    const updatedFile = matter.stringify(mdxBody, frontmatter)
-    await fs.writeFile(filePath, updatedFile, 'utf-8')
+    const { result, arr, pageVersion } = outcome
 
-    console.log(`[microtext-array] ${action} at ${arrayPath}[${result.index}]`)
+    console.log(`[microtext-array] ${action} at ${arrayPath}[${result.index}]${result.toArrayPath ? ` → ${result.toArrayPath}[${result.toIndex}]` : ''}`)
 
     return new Response(
-      JSON.stringify({ success: true, ...result, newLength: arr.length }),
+      JSON.stringify({
+        success: true,
+        ...result,
+        newLength: arr.length,
+        version: versionOf(arr),
+        pageVersion,
+      }),
       { status: 200, headers: { 'Content-Type': 'application/json' } }
     )
 
   } catch (error) {
+    if (error instanceof VersionConflictError) {
+      return conflictResponse(error)
+    }
+    if (error instanceof SchemaViolationError) {
+      return violationResponse(error.violations)
+    }
+
     console.error('[microtext-array] Error:', error)
     return new Response(
       JSON.stringify({ error: 'Failed to modify array' }),
@@ -166,7 +380,7 @@ export const POST: APIRoute = async ({ request }) => {
 // GET - Get array info
 export const GET: APIRoute = async ({ url }) => {
   try {
-    const pageSlug = url.searchParams.get('pageSlug') || 'index'
+    const slug = normalizeSlug(url.searchParams.get('pageSlug'))
     const arrayPath = url.searchParams.get('arrayPath')
 
     if (!arrayPath) {
@@ -176,7 +390,7 @@ export const GET: APIRoute = async ({ url }) => {
       )
     }
 
-    const filePath = await getFilePath(pageSlug)
+    const filePath = await resolvePagePath(slug)
     if (!filePath) {
       return new Response(
         JSON.stringify({ error: 'Page not found' }),
@@ -184,13 +398,17 @@ export const GET: APIRoute = async ({ url }) => {
       )
     }
 
-    const fileContent = await fs.readFile(filePath, 'utf-8')
-    const { data: frontmatter } = matter(fileContent)
-
-    const arr = getNestedValue(frontmatter.microtext || {}, arrayPath) || []
+    const page = await readPage(slug, filePath)
+    const arr = getNestedValue(page.frontmatter.microtext || {}, arrayPath) || []
 
     return new Response(
-      JSON.stringify({ arrayPath, items: arr, length: arr.length }),
+      JSON.stringify({
+        arrayPath,
+        items: arr,
+        length: arr.length,
+        version: versionOf(arr),
+        pageVersion: page.version,
+      }),
       { status: 200, headers: { 'Content-Type': 'application/json' } }
     )
 
@@ -0,0 +1,256 @@
+/**
+ * API Route: /api/microtext-batch
+ *
+ * POST - Apply many microtext edits atomically
+ *
+ * Request body (one page):
+ *   { pageSlug: string, edits: [{ id: string, value: string, baseVersion?: string }] }
+ *
+ * Request body (several pages):
+ *   { pages: [{ pageSlug: string, edits: [...] }] }
+ *
+ * Either form takes an optional `locale` next to `edits` to write a
+ * translation (see lib/locales.ts).
+ *
+ * Every edit is validated (page exists, path is writable, base version is
+ * fresh, value matches the page schema) before anything is written. If any
+ * edit fails, nothing is written and the response is 422 (schema violation),
+ * 400 (otherwise invalid) or 409 (conflict). Otherwise each file
+ * is written exactly once. Every response carries per-id results.
+ *
+ * Applied edits are recorded in each page's revision log, as
+ * "inline-editor", or "search-replace" if the body says `source:
+ * "search-replace"`.
+ */
+
+import type { APIRoute } from 'astro'
+import fs from 'fs/promises'
+import {
+  VersionConflictError,
+  assertFresh,
+  getBaseVersion,
+  getNestedValue,
+  hashContent,
+  loadPageSchema,
+  normalizeSlug,
+  readPage,
+  resolvePagePath,
+  serializePage,
+  setNestedValue,
+  validatePath,
+  versionOf,
+  withPageLocks,
+  type PageFile,
+} from '../../lib/microtext-file'
+import { validateValue, type Violation } from '../../lib/microtext-schema'
+import { publishSaves } from '../../lib/event-bus'
+import { localeMicrotext, microtextKey, resolveLocale } from '../../lib/locales'
+import { getAuthor, getSource, recordRevisions } from '../../lib/revision-log'
+
+interface BatchEdit {
+  id: string
+  value: string
+  baseVersion?: string
+  /** Set from the page entry */
+  locale?: string
+}
+
+interface BatchPage {
+  pageSlug?: string
+  locale?: string
+  edits: BatchEdit[]
+}
+
+type EditStatus = 'ok' | 'invalid' | 'conflict' | 'not-applied'
+
+interface EditResult {
+  pageSlug: string
+  locale?: string
+  id: string
+  status: EditStatus
+  version?: string
+  previousValue?: unknown
+  currentValue?: unknown
+  currentVersion?: string
+  error?: string
+  violations?: Violation[]
+}
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const body = await request.json()
+    const batches: BatchPage[] = Array.isArray(body.pages)
+      ? body.pages
+      : [{ pageSlug: body.pageSlug, locale: body.locale, edits: body.edits }]
+
+    if (batches.length === 0 || batches.some(b => !Array.isArray(b.edits) || b.edits.length === 0)) {
+      return new Response(
+        JSON.stringify({ error: 'Each page needs a non-empty edits array' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Group edits per file (the same page may appear twice)
+    const byFile = new Map<string, { slug: string; edits: BatchEdit[] }>()
+    const results: EditResult[] = []
+
+    for (const batch of batches) {
+      const slug = normalizeSlug(batch.pageSlug)
+      const filePath = await resolvePagePath(slug)
+      const locale = resolveLocale(batch.locale)
+
+      if (!filePath || !locale) {
+        const error = filePath ? `Unknown locale: ${batch.locale}` : `Page not found: ${slug}`
+        for (const edit of batch.edits) {
+          results.push({ pageSlug: slug, id: edit.id, status: 'invalid', error })
+        }
+        continue
+      }
+
+      const entry = byFile.get(filePath) || { slug, edits: [] }
+      entry.edits.push(...batch.edits.map(edit => ({ ...edit, locale })))
+      byFile.set(filePath, entry)
+    }
+
+    // A single page may also be guarded as a whole with If-Match
+    const pageBase = byFile.size === 1 ? getBaseVersion(request, {}) : null
+
+    const outcome = await withPageLocks([...byFile.keys()], async () => {
+      const pages: { page: PageFile; entries: { edit: BatchEdit; result: EditResult }[] }[] = []
+
+      // Phase 1: validate everything against the files on disk
+      for (const [filePath, { slug, edits }] of byFile) {
+        const page = await readPage(slug, filePath)
+        const schema = await loadPageSchema(page.frontmatter)
+
+        let pageConflict: VersionConflictError | null = null
+        try {
+          assertFresh(page, null, pageBase)
+        } catch (error) {
+          if (!(error instanceof VersionConflictError)) throw error
+          pageConflict = error
+        }
+
+        const entries: { edit: BatchEdit; result: EditResult }[] = []
+
+        for (const edit of edits) {
+          const result: EditResult = { pageSlug: slug, locale: edit.locale, id: edit?.id, status: 'ok' }
+          results.push(result)
+          entries.push({ edit, result })
+
+          const microtext = page.frontmatter[microtextKey(edit.locale)] || {}
+          const pathError = validatePath(microtext, edit?.id)
+          if (pathError || edit.value === undefined) {
+            result.status = 'invalid'
+            result.error = pathError || 'Missing value'
+            continue
+          }
+
+          const violations = validateValue(schema, edit.id, edit.value)
+          if (violations.length > 0) {
+            result.status = 'invalid'
+            result.error = violations.map(v => v.message).join('; ')
+            result.violations = violations
+            continue
+          }
+
+          try {
+            if (pageConflict) throw pageConflict
+            assertFresh(page, edit.id, edit.baseVersion || null, edit.locale)
+          } catch (error) {
+            if (!(error instanceof VersionConflictError)) throw error
+            const currentValue = getNestedValue(microtext, edit.id)
+            result.status = 'conflict'
+            result.error = error.message
+            result.currentValue = currentValue
+            result.currentVersion = versionOf(currentValue)
+          }
+        }
+
+        pages.push({ page, entries })
+      }
+
+      if (results.some(r => r.status !== 'ok')) {
+        for (const r of results) {
+          if (r.status === 'ok') r.status = 'not-applied'
+        }
+        return { applied: false as const }
+      }
+
+      // Phase 2: apply in memory, one serialization per file
+      const writes: { page: PageFile; content: string }[] = []
+      for (const { page, entries } of pages) {
+        for (const { edit, result } of entries) {
+          const microtext = localeMicrotext(page.frontmatter, edit.locale)
+          result.previousValue = getNestedValue(microtext, edit.id)
+          setNestedValue(microtext, edit.id, edit.value)
+          result.version = versionOf(edit.value)
+        }
+        writes.push({ page, content: serializePage(page) })
+      }
+
+      // Phase 3: write, restoring already-written files if one fails
+      const written: PageFile[] = []
+      try {
+        for (const { page, content } of writes) {
+          await fs.writeFile(page.filePath, content, 'utf-8')
+          written.push(page)
+        }
+      } catch (error) {
+        await Promise.all(written.map(page => fs.writeFile(page.filePath, page.raw, 'utf-8')))
+        throw error
+      }
+
+      const pageVersions: Record<string, string> = {}
+      for (const { page, content } of writes) {
+        pageVersions[page.slug] = hashContent(content)
+      }
+
+      const meta = { author: getAuthor(locals.user), source: getSource(body, 'inline-editor', ['search-replace']) }
+      for (const { page, entries } of pages) {
+        await recordRevisions(
+          page.slug,
+          entries.map(({ edit, result }) => ({
+            fieldId: edit.id,
+            locale: edit.locale,
+            oldValue: result.previousValue,
+            newValue: edit.value,
+          })),
+          meta
+        )
+        publishSaves(
+          page.slug,
+          entries.map(({ edit, result }) => ({ id: edit.id, value: edit.value, version: result.version!, locale: edit.locale })),
+          pageVersions[page.slug],
+          meta.author
+        )
+      }
+      return { applied: true as const, pageVersions }
+    })
+
+    if (!outcome.applied) {
+      const status = results.some(r => r.violations)
+        ? 422
+        : results.some(r => r.status === 'invalid') ? 400 : 409
+      return new Response(
+        JSON.stringify({ error: 'Batch rejected; no changes were written', results }),
+        { status, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    console.log(`[microtext-batch] Applied ${results.length} edit(s) across ${byFile.size} page(s)`)
+
+    return new Response(
+      JSON.stringify({ success: true, results, pageVersions: outcome.pageVersions }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('[microtext-batch] Error:', error)
+
+    return new Response(
+      JSON.stringify({ error: 'Failed to apply batch' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * API Route: /api/microtext-history
+ *
+ * GET - List revisions for a page, newest first
+ *
+ * Query params:
+ *   pageSlug - page to read (default: index)
+ *   id       - only revisions of this microtext id (optional)
+ *   locale   - only revisions of this locale (optional, with id: default locale)
+ *   limit    - max revisions to return (default: 50)
+ */
+
+import type { APIRoute } from 'astro'
+import { normalizeSlug } from '../../lib/microtext-file'
+import { listRevisions } from '../../lib/revision-log'
+import { DEFAULT_LOCALE } from '../../lib/locales'
+
+export const GET: APIRoute = async ({ url }) => {
+  try {
+    const slug = normalizeSlug(url.searchParams.get('pageSlug'))
+    const id = url.searchParams.get('id') || undefined
+    const limit = parseInt(url.searchParams.get('limit') || '50', 10)
+    // A field id is only unique within a locale
+    const locale = url.searchParams.get('locale') || (id ? DEFAULT_LOCALE : undefined)
+
+    const revisions = await listRevisions(slug, id, locale)
+
+    return new Response(
+      JSON.stringify({
+        pageSlug: slug,
+        id: id ?? null,
+        revisions: revisions.slice(0, isNaN(limit) ? 50 : limit),
+        total: revisions.length,
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('[microtext-history] Error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Failed to read history' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * API Route: /api/microtext-revert
+ *
+ * POST - Restore microtext from the revision log
+ *
+ * Request body:
+ *   { pageSlug: string, revisionId: string, scope?: 'field' | 'page' }
+ *
+ * Scopes:
+ *   field (default) - set the revision's field back to the value it was
+ *                     given by that revision
+ *   page            - undo every later revision on the page, restoring the
+ *                     whole page to its state right after that revision
+ *
+ * Each revision is restored in its own locale's microtext.
+ *
+ * Restored values are checked against the page's microtext schema as it is
+ * now (see lib/microtext-schema.ts); violations are rejected with 422 and
+ * nothing is reverted.
+ *
+ * The revert itself is recorded as new revisions (source: "revert").
+ */
+
+import type { APIRoute } from 'astro'
+import {
+  SchemaViolationError,
+  getNestedValue,
+  loadPageSchema,
+  normalizeSlug,
+  readPage,
+  resolvePagePath,
+  setNestedValue,
+  unsetNestedValue,
+  validatePath,
+  versionOf,
+  violationResponse,
+  withPageLock,
+  writePage,
+} from '../../lib/microtext-file'
+import { validateValue, type Violation } from '../../lib/microtext-schema'
+import { publishSaves } from '../../lib/event-bus'
+import { DEFAULT_LOCALE, localeMicrotext } from '../../lib/locales'
+import {
+  getAuthor,
+  getUndoSteps,
+  listRevisions,
+  recordRevisions,
+  type Revision,
+} from '../../lib/revision-log'
+
+// Set a value, treating undefined as "the field didn't exist"
+function restoreValue(microtext: Record<string, any>, id: string, value: unknown): void {
+  if (value === undefined) {
+    unsetNestedValue(microtext, id)
+  } else {
+    setNestedValue(microtext, id, structuredClone(value))
+  }
+}
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const body = await request.json()
+    const { revisionId, scope = 'field' } = body
+
+    if (!revisionId) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required field: revisionId' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!['field', 'page'].includes(scope)) {
+      return new Response(
+        JSON.stringify({ error: 'scope must be "field" or "page"' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const slug = normalizeSlug(body.pageSlug)
+    const filePath = await resolvePagePath(slug)
+    if (!filePath) {
+      return new Response(
+        JSON.stringify({ error: `Page not found: ${slug}` }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const outcome = await withPageLock(filePath, async () => {
+      let revision: Revision | undefined
+      let steps: { fieldId: string; locale: string; value: unknown }[]
+
+      if (scope === 'page') {
+        const undo = await getUndoSteps(slug, revisionId)
+        if (!undo) return null
+        revision = undo.revision
+        steps = undo.steps.map(r => ({ fieldId: r.fieldId, locale: r.locale || DEFAULT_LOCALE, value: r.oldValue }))
+      } else {
+        revision = (await listRevisions(slug)).find(r => r.id === revisionId)
+        if (!revision) return null
+        steps = [{ fieldId: revision.fieldId, locale: revision.locale || DEFAULT_LOCALE, value: revision.newValue }]
+      }
+
+      const page = await readPage(slug, filePath)
+      const schema = await loadPageSchema(page.frontmatter)
+
+      // Capture before-values of every touched field, then apply in order
+      const touched = [...new Map(steps.map(step => [`${step.locale}:${step.fieldId}`, step])).values()]
+        .map(({ fieldId, locale }) => ({ fieldId, locale, microtext: localeMicrotext(page.frontmatter, locale) }))
+      const before = touched.map(t => structuredClone(getNestedValue(t.microtext, t.fieldId)))
+
+      for (const step of steps) {
+        const microtext = localeMicrotext(page.frontmatter, step.locale)
+        const pathError = validatePath(microtext, step.fieldId)
+        if (pathError) throw new SchemaViolationError([{ id: step.fieldId, rule: 'path', message: pathError }])
+        restoreValue(microtext, step.fieldId, step.value)
+      }
+
+      // The restored values must meet the schema as it is now, like any
+      // edit; a missing translation falls back, so only its value is checked
+      const violations: Violation[] = touched.flatMap((t) => {
+        const value = getNestedValue(t.microtext, t.fieldId)
+        return t.locale !== DEFAULT_LOCALE && value === undefined ? [] : validateValue(schema, t.fieldId, value)
+      })
+      if (violations.length > 0) throw new SchemaViolationError(violations)
+
+      const pageVersion = await writePage(page)
+
+      const changes = touched.map((t, i) => ({
+        fieldId: t.fieldId,
+        locale: t.locale,
+        oldValue: before[i],
+        newValue: getNestedValue(t.microtext, t.fieldId),
+      }))
+
+      await recordRevisions(slug, changes, {
+        author: getAuthor(locals.user),
+        source: 'revert',
+        revertOf: revision.id,
+      })
+
+      return {
+        restored: changes.map(c => ({ id: c.fieldId, locale: c.locale, value: c.newValue, version: versionOf(c.newValue) })),
+        pageVersion,
+      }
+    })
+
+    if (!outcome) {
+      return new Response(
+        JSON.stringify({ error: `Revision not found: ${revisionId}` }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    publishSaves(slug, outcome.restored, outcome.pageVersion, getAuthor(locals.user))
+
+    console.log(`[microtext-revert] ${slug}: restored ${outcome.restored.length} field(s) to ${revisionId} (${scope})`)
+
+    return new Response(
+      JSON.stringify({ success: true, scope, ...outcome }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    if (error instanceof SchemaViolationError) {
+      return violationResponse(error.violations)
+    }
+
+    console.error('[microtext-revert] Error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Failed to revert' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
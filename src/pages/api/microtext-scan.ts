@@ -0,0 +1,111 @@
+/**
+ * API Route: /api/microtext-scan
+ *
+ * GET - Report missing, orphaned and type-mismatched microtext keys
+ *
+ * Query params:
+ *   pageSlug - scan one page (default: every page)
+ *
+ * POST - Remove orphaned keys
+ *
+ * Request body:
+ *   { pageSlug?: string }
+ *
+ * Pruning re-scans each page under its lock and writes only pages with
+ * orphans. Pages with missing ids are skipped (an orphan may be what a
+ * misspelled id meant) and listed in `skipped`. Removed keys are recorded in the revision log (source: "prune"),
+ * so they can be restored from history. See lib/microtext-scan.ts.
+ */
+
+import type { APIRoute } from 'astro'
+import { normalizeSlug, readPage, resolvePagePath, withPageLock, writePage } from '../../lib/microtext-file'
+import { hasMissing, pruneOrphans, scanPage, scanPages } from '../../lib/microtext-scan'
+import { getAuthor, recordRevisions } from '../../lib/revision-log'
+
+function summarize(scans: { issues: { kind: string }[] }[]) {
+  const count = (kind: string) => scans.reduce((n, scan) => n + scan.issues.filter(i => i.kind === kind).length, 0)
+  return { missing: count('missing'), orphaned: count('orphaned'), typeMismatch: count('type-mismatch') }
+}
+
+export const GET: APIRoute = async ({ url }) => {
+  try {
+    const pageSlug = url.searchParams.get('pageSlug')
+    const pages = await scanPages(pageSlug ? normalizeSlug(pageSlug) : undefined)
+
+    if (pageSlug && pages.length === 0) {
+      return new Response(
+        JSON.stringify({ error: `Page not found: ${pageSlug}` }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({ pages, summary: summarize(pages) }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('[microtext-scan] Error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Failed to scan microtext' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const slugs = body.pageSlug
+      ? [normalizeSlug(body.pageSlug)]
+      : (await scanPages()).map(scan => scan.pageSlug)
+
+    const pruned: { pageSlug: string; id: string; locale: string }[] = []
+    const skipped: string[] = []
+
+    for (const slug of slugs) {
+      const filePath = await resolvePagePath(slug)
+      if (!filePath) {
+        return new Response(
+          JSON.stringify({ error: `Page not found: ${slug}` }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        )
+      }
+
+      await withPageLock(filePath, async () => {
+        const page = await readPage(slug, filePath)
+        const scan = await scanPage(page)
+        if (hasMissing(scan)) {
+          skipped.push(slug)
+          return
+        }
+
+        const removed = pruneOrphans(page, scan)
+        if (removed.length === 0) return
+
+        await writePage(page)
+        await recordRevisions(
+          slug,
+          removed.map(({ id, locale, value }) => ({ fieldId: id, locale, oldValue: value, newValue: undefined })),
+          { author: getAuthor(locals.user), source: 'prune' }
+        )
+        pruned.push(...removed.map(({ id, locale }) => ({ pageSlug: slug, id, locale })))
+      })
+    }
+
+    console.log(`[microtext-scan] Pruned ${pruned.length} orphaned key(s)`)
+
+    const pages = await scanPages(body.pageSlug ? normalizeSlug(body.pageSlug) : undefined)
+    return new Response(
+      JSON.stringify({ success: true, pruned, skipped, pages, summary: summarize(pages) }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('[microtext-scan] Prune error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Failed to prune microtext' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * API Route: /api/microtext-search
+ *
+ * POST - Search microtext across all pages
+ *
+ * Request body:
+ *   { query: string, regex?: boolean, caseSensitive?: boolean, replacement?: string }
+ *
+ * Response:
+ *   { results: [{ pageSlug, locale, id, value, version, matches: [{ start, end }], newValue? }],
+ *     total, truncated }
+ *
+ * Nothing is written here. To apply replacements, send the chosen results
+ * to /api/microtext-batch as { pageSlug, locale, edits: [{ id, value: newValue,
+ * baseVersion: version }] } so fields changed since the search conflict.
+ */
+
+import type { APIRoute } from 'astro'
+import { SearchQueryError, searchPages } from '../../lib/microtext-search'
+
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const body = await request.json()
+    const { query, regex, caseSensitive, replacement } = body
+
+    if (typeof query !== 'string' || (replacement !== undefined && typeof replacement !== 'string')) {
+      return new Response(
+        JSON.stringify({ error: 'query (and replacement, if given) must be strings' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { results, truncated } = await searchPages({
+      query,
+      regex: Boolean(regex),
+      caseSensitive: Boolean(caseSensitive),
+      replacement,
+    })
+
+    return new Response(
+      JSON.stringify({ results, total: results.length, truncated }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    console.error('[microtext-search] Error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Search failed' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * API Route: /api/microtext-upload
+ *
+ * POST - Upload an image for an image field (multipart/form-data, `file`)
+ *
+ * Response:
+ *   { src, width, height, variants: [{ src, width }] }
+ *
+ * The file is stored under public/uploads/ with resized variants (see
+ * lib/media-upload.ts); nothing is written to any page. Save the result,
+ * with alt text, to the field through /api/microtext. The new URLs work
+ * without a rebuild: src/pages/uploads/[...path].ts serves uploads the
+ * build didn't copy.
+ *
+ * Rejected uploads get 413 (too large), 415 (not a supported image) or 400.
+ */
+
+import type { APIRoute } from 'astro'
+import { UploadError, storeUpload } from '../../lib/media-upload'
+
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const form = await request.formData().catch(() => null)
+    const file = form?.get('file')
+
+    if (!(file instanceof File)) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required field: file (multipart/form-data)' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const image = await storeUpload(file)
+
+    return new Response(
+      JSON.stringify(image),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: error.status, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    console.error('[upload] Error:', error)
+
+    return new Response(
+      JSON.stringify({ error: 'Upload failed' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
@@ -4,142 +4,155 @@
  * POST - Update a microtext value in an MDX file's frontmatter
  *
  * Request body:
- *   { pageSlug: string, id: string, value: string }
+ *   { pageSlug: string, id: string, value: string, baseVersion?: string, source?: string, locale?: string }
+ *
+ * `locale` writes the translation (microtext_es etc., see lib/locales.ts);
+ * it defaults to the default locale's `microtext`.
  *
  * Supports nested paths like "features.0.title" for array items
  * The pageSlug maps to src/pages/{pageSlug}.mdx
+ *
+ * Concurrency:
+ *   Send the version the edit was based on as `baseVersion` (field version)
+ *   or an `If-Match` header (field or page version). If the server value has
+ *   changed since, the write is rejected with 409 and the current value.
+ *
+ * Values are checked against the page's microtext schema (see
+ * lib/microtext-schema.ts), and link URLs whether or not it declares them;
+ * violations are rejected with 422.
+ *
+ * Every write is appended to the page's revision log (see /api/microtext-history).
+ * Its source is "inline-editor"; requests signed in with an API token (the
+ * MCP server) may send `source: "mcp"` instead.
+ *
+ * GET - Fetch microtext for a page, with its page version (ETag),
+ *       per-field versions and schema. `?locale=es` returns the translated
+ *       fields only. `?ids=a,b.href` adds `fields` with the current value and
+ *       version of each listed path, including parts that `versions` leaves
+ *       out (link URLs, image sources); the editor checks drafts with it.
  */
 
 import type { APIRoute } from 'astro'
-import fs from 'fs/promises'
-import path from 'path'
-import matter from 'gray-matter'
-
-const PAGES_DIR = path.join(process.cwd(), 'src/pages')
-
-// Helper to set a nested value by dot-notation path
-function setNestedValue(obj: any, pathStr: string, value: any): void {
-  const parts = pathStr.split('.')
-  let current = obj
-
-  for (let i = 0; i < parts.length - 1; i++) {
-    const key = parts[i]
-    const nextKey = parts[i + 1]
-    const nextIsIndex = !isNaN(parseInt(nextKey, 10))
-
-    if (current[key] === undefined) {
-      current[key] = nextIsIndex ? [] : {}
-    }
-    current = current[key]
-  }
-
-  const lastKey = parts[parts.length - 1]
-  const index = parseInt(lastKey, 10)
-  if (!isNaN(index) && Array.isArray(current)) {
-    current[index] = value
-  } else {
-    current[lastKey] = value
-  }
-}
-
-// Helper to get a nested value by dot-notation path
-function getNestedValue(obj: any, pathStr: string): any {
-  return pathStr.split('.').reduce((current, key) => {
-    if (current === undefined || current === null) return undefined
-    const index = parseInt(key, 10)
-    if (!isNaN(index) && Array.isArray(current)) {
-      return current[index]
-    }
-    return current[key]
-  }, obj)
-}
-
-export const POST: APIRoute = async ({ request }) => {
+import {
+  SchemaViolationError,
+  VersionConflictError,
+  assertFresh,
+  conflictResponse,
+  getBaseVersion,
+  getFieldVersions,
+  getNestedValue,
+  loadPageSchema,
+  normalizeSlug,
+  readPage,
+  resolvePagePath,
+  setNestedValue,
+  validatePath,
+  versionOf,
+  violationResponse,
+  withPageLock,
+  writePage,
+} from '../../lib/microtext-file'
+import { validateValue } from '../../lib/microtext-schema'
+import { localeMicrotext, microtextKey, resolveLocale } from '../../lib/locales'
+import { publishSaves } from '../../lib/event-bus'
+import { getAuthor, getSource, recordRevisions } from '../../lib/revision-log'
+
+export const POST: APIRoute = async ({ request, locals }) => {
   try {
     const body = await request.json()
     const { pageSlug, id, value } = body
 
     // Validate required fields
-    if (!id || value === undefined) {
+    if (typeof id !== 'string' || !id || value === undefined) {
       return new Response(
         JSON.stringify({ error: 'Missing required fields: id, value' }),
         { status: 400, headers: { 'Content-Type': 'application/json' } }
       )
     }
 
-    // Handle empty slug as index
-    const slug = !pageSlug || pageSlug === '' ? 'index' : pageSlug
-
-    // Prevent path traversal attacks
-    const safePath = path.normalize(slug).replace(/^(\.\.(\/|\\|$))+/, '')
-
-    // Check for .mdx file
-    let filePath = path.join(PAGES_DIR, `${safePath}.mdx`)
-    let realPath: string
-
-    try {
-      realPath = await fs.realpath(filePath)
-    } catch {
-      // Try without extension (in case it's a directory with index.mdx)
-      try {
-        filePath = path.join(PAGES_DIR, safePath, 'index.mdx')
-        realPath = await fs.realpath(filePath)
-      } catch {
-        return new Response(
-          JSON.stringify({ error: `Page not found: ${slug}` }),
-          { status: 404, headers: { 'Content-Type': 'application/json' } }
-        )
-      }
+    const locale = resolveLocale(body.locale)
+    if (!locale) {
+      return new Response(
+        JSON.stringify({ error: `Unknown locale: ${body.locale}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
     }
 
-    // Verify file is within pages directory
-    if (!realPath.startsWith(PAGES_DIR)) {
+    const slug = normalizeSlug(pageSlug)
+    const filePath = await resolvePagePath(slug)
+    if (!filePath) {
       return new Response(
-        JSON.stringify({ error: 'Invalid path' }),
-        { status: 403, headers: { 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: `Page not found: ${slug}` }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
       )
     }
 
-    // Read the MDX file
-    const fileContent = await fs.readFile(filePath, 'utf-8')
+    const baseVersion = getBaseVersion(request, body)
 
-    // Parse frontmatter
-    const { data: frontmatter, content: mdxBody } = matter(fileContent)
+    const outcome = await withPageLock(filePath, async () => {
+      const page = await readPage(slug, filePath)
 
-    // Ensure microtext object exists
-    if (!frontmatter.microtext) {
-      frontmatter.microtext = {}
-    }
+      // An id that runs through a value ("hero-headline.0") can't be written
+      const pathError = validatePath(page.frontmatter[microtextKey(locale)] || {}, id)
+      if (pathError) return { error: pathError }
 
-    // Get old value (supports nested paths)
-    const oldValue = id.includes('.')
-      ? getNestedValue(frontmatter.microtext, id)
-      : frontmatter.microtext[id]
+      // Reject stale or invalid writes before touching anything
+      assertFresh(page, id, baseVersion, locale)
 
-    // Update the value (supports nested paths like "features.0.title")
-    if (id.includes('.')) {
-      setNestedValue(frontmatter.microtext, id, value)
-    } else {
-      frontmatter.microtext[id] = value
-    }
+      const violations = validateValue(await loadPageSchema(page.frontmatter), id, value)
+      if (violations.length > 0) {
+        throw new SchemaViolationError(violations)
+      }
+
+      // Ensure the locale's microtext object exists
+      const microtext = localeMicrotext(page.frontmatter, locale)
+
+      // Get old value (supports nested paths)
+      const oldValue = getNestedValue(microtext, id)
+
+      // Update the value (supports nested paths like "features.0.title")
+      setNestedValue(microtext, id, value)
 
-    // Reconstruct the file
-    const updatedFile = matter.stringify(mdxBody, frontmatter)
+      const pageVersion = await writePage(page)
 
-    // Write back
-    await fs.writeFile(filePath, updatedFile, 'utf-8')
+      await recordRevisions(slug, [{ fieldId: id, oldValue, newValue: value, locale }], {
+        author: getAuthor(locals.user),
+        // Scripts and the MCP server sign in with a token; only they may say "mcp"
+        source: getSource(body, 'inline-editor', locals.apiToken ? ['mcp'] : []),
+      })
 
-    console.log(`[microtext] Updated ${slug}#${id}: "${oldValue}" → "${value}"`)
+      return { oldValue, pageVersion }
+    })
+
+    if ('error' in outcome) {
+      return new Response(
+        JSON.stringify({ error: outcome.error }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+    const { oldValue, pageVersion } = outcome
+
+    console.log(`[microtext] Updated ${slug}#${id} (${locale}): "${oldValue}" → "${value}"`)
+
+    publishSaves(slug, [{ id, value, version: versionOf(value), locale }], pageVersion, getAuthor(locals.user))
 
     return new Response(
       JSON.stringify({
         success: true,
-        updated: { id, value, previousValue: oldValue },
+        updated: { id, locale, value, previousValue: oldValue, version: versionOf(value) },
+        pageVersion,
       }),
-      { status: 200, headers: { 'Content-Type': 'application/json' } }
+      { status: 200, headers: { 'Content-Type': 'application/json', ETag: `"${pageVersion}"` } }
     )
 
   } catch (error) {
+    if (error instanceof VersionConflictError) {
+      return conflictResponse(error)
+    }
+    if (error instanceof SchemaViolationError) {
+      return violationResponse(error.violations)
+    }
+
     console.error('[microtext] Update error:', error)
 
     return new Response(
@@ -152,28 +165,45 @@ export const POST: APIRoute = async ({ request }) => {
 // GET - Fetch microtext for a page
 export const GET: APIRoute = async ({ url }) => {
   try {
-    const pageSlug = url.searchParams.get('pageSlug') || 'index'
-
-    const safePath = path.normalize(pageSlug).replace(/^(\.\.(\/|\\|$))+/, '')
-    const filePath = path.join(PAGES_DIR, `${safePath}.mdx`)
-
-    const fileContent = await fs.readFile(filePath, 'utf-8')
-    const { data: frontmatter } = matter(fileContent)
-
-    return new Response(
-      JSON.stringify({ microtext: frontmatter.microtext || {} }),
-      { status: 200, headers: { 'Content-Type': 'application/json' } }
-    )
+    const slug = normalizeSlug(url.searchParams.get('pageSlug'))
+    const locale = resolveLocale(url.searchParams.get('locale'))
+    if (!locale) {
+      return new Response(
+        JSON.stringify({ error: `Unknown locale: ${url.searchParams.get('locale')}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
 
-  } catch (error) {
-    const nodeError = error as NodeJS.ErrnoException
-    if (nodeError.code === 'ENOENT') {
+    const filePath = await resolvePagePath(slug)
+    if (!filePath) {
       return new Response(
         JSON.stringify({ error: 'Page not found' }),
         { status: 404, headers: { 'Content-Type': 'application/json' } }
       )
     }
 
+    const page = await readPage(slug, filePath)
+    const microtext = page.frontmatter[microtextKey(locale)] || {}
+
+    const ids = url.searchParams.get('ids')?.split(',').filter(Boolean) || []
+    const fields = Object.fromEntries(ids.map((id) => {
+      const value = getNestedValue(microtext, id)
+      return [id, { value: value ?? null, version: versionOf(value) }]
+    }))
+
+    return new Response(
+      JSON.stringify({
+        locale,
+        microtext,
+        version: page.version,
+        versions: getFieldVersions(microtext),
+        ...(ids.length > 0 && { fields }),
+        schema: await loadPageSchema(page.frontmatter),
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json', ETag: `"${page.version}"` } }
+    )
+
+  } catch (error) {
     return new Response(
       JSON.stringify({ error: 'Failed to read microtext' }),
       { status: 500, headers: { 'Content-Type': 'application/json' } }
@@ -0,0 +1,51 @@
+/**
+ * API Route: /api/presence
+ *
+ * POST - Claim or release the field this session is editing
+ *
+ * Request body:
+ *   { pageSlug: string, sessionId: string, fieldId: string | null }
+ *
+ * Needs an open /api/events stream for the session. The claim is broadcast
+ * to the page; if someone else is already editing the field they're returned
+ * as `heldBy` (the claim still goes through - locks are advisory).
+ */
+
+import type { APIRoute } from 'astro'
+import { setEditing } from '../../lib/event-bus'
+import { normalizeSlug } from '../../lib/microtext-file'
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const body = await request.json()
+    const { sessionId, fieldId = null } = body
+
+    if (typeof sessionId !== 'string' || (fieldId !== null && typeof fieldId !== 'string')) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields: sessionId, fieldId' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    let heldBy
+    try {
+      heldBy = setEditing(normalizeSlug(body.pageSlug), sessionId, locals.user!, fieldId)
+    } catch {
+      return new Response(
+        JSON.stringify({ error: 'No open event stream for this session' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, heldBy }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('[presence] Error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Failed to update presence' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
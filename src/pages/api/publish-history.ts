@@ -0,0 +1,38 @@
+/**
+ * API Route: /api/publish-history
+ *
+ * GET - Past publishes on the current branch, newest first
+ *
+ * Query params:
+ *   limit - max publishes to return (default: 20, at most 100)
+ *
+ * Response:
+ *   { publishes: [{ commit, author, email, time, message, pages: [{ page, file, fields: [{ locale, id }], other? }], files }] }
+ *
+ * A publish is any commit that changed content (src/pages/,
+ * public/uploads/). Roll one back with /api/publish-rollback.
+ */
+
+import type { APIRoute } from 'astro'
+import { listPublishes } from '../../lib/publish-history'
+
+const MAX_LIMIT = 100
+
+export const GET: APIRoute = async ({ url }) => {
+  try {
+    const limit = parseInt(url.searchParams.get('limit') || '20', 10)
+    const publishes = await listPublishes(isNaN(limit) || limit < 1 ? 20 : Math.min(limit, MAX_LIMIT))
+
+    return new Response(
+      JSON.stringify({ publishes }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('[publish-history] Error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Failed to read publish history' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
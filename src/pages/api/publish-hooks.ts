@@ -0,0 +1,92 @@
+/**
+ * API Route: /api/publish-hooks
+ *
+ * GET - Post-publish hook runs (see lib/publish-hooks.ts)
+ *   ?commit=<sha>  { run: HookRun }  (404 if the commit had no run)
+ *   ?limit=20      { hooks: [{ name, target }], runs: HookRun[] }  newest first, at most 100
+ *
+ * A run's status is running, succeeded or failed; each hook's is pending,
+ * running, succeeded, failed or skipped (after an earlier failure), with
+ * the end of its output. A run the server stopped in the middle of reads
+ * as failed.
+ *
+ * POST - Run a publish's hooks again
+ *
+ * Request body:
+ *   { commit: string }
+ *
+ * 409 while they're still running, or when no hooks are configured.
+ */
+
+import type { APIRoute } from 'astro'
+import { PublishHookError, getRun, listHooks, listRuns, retryPostPublish } from '../../lib/publish-hooks'
+import { getAuthor } from '../../lib/revision-log'
+
+const MAX_LIMIT = 100
+
+export const GET: APIRoute = async ({ url }) => {
+  try {
+    const commit = url.searchParams.get('commit')
+    if (commit) {
+      const run = await getRun(commit)
+      if (!run) {
+        return new Response(
+          JSON.stringify({ error: `No hook run for ${commit}` }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        )
+      }
+      return new Response(
+        JSON.stringify({ run }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const limit = parseInt(url.searchParams.get('limit') || '20', 10)
+    const runs = await listRuns(isNaN(limit) || limit < 1 ? 20 : Math.min(limit, MAX_LIMIT))
+
+    return new Response(
+      JSON.stringify({ hooks: listHooks(), runs }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('[publish-hooks] Error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Failed to read hook runs' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    if (typeof body.commit !== 'string') {
+      return new Response(
+        JSON.stringify({ error: 'Missing required field: commit' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const run = await retryPostPublish(body.commit)
+    console.log(`[publish-hooks] ${getAuthor(locals.user)} retried hooks for ${run.commit.slice(0, 7)}`)
+
+    return new Response(
+      JSON.stringify({ success: true, run }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    if (error instanceof PublishHookError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: error.status, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    console.error('[publish-hooks] Error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Failed to run hooks' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
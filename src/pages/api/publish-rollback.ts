@@ -0,0 +1,90 @@
+/**
+ * API Route: /api/publish-rollback
+ *
+ * POST - Roll back a publish, as a new commit
+ *
+ * Request body:
+ *   { commit: string, page?: string }
+ *
+ * Without `page` the publish's content changes are reverted. With it, that
+ * page is restored to how it was at the commit (everything since undone).
+ *
+ * Refused with 409 while the files involved have unpublished changes, or
+ * when later publishes changed the same lines (restore the page instead).
+ * Git failures answer as /api/publish does.
+ *
+ * Rolled-back microtext is recorded in the revision log (source:
+ * "rollback") and announced to open editors. The post-publish hooks run
+ * for the new commit, as for /api/publish (`hooks` in the response).
+ */
+
+import type { APIRoute } from 'astro'
+import { GitError, authorFor, gitErrorResponse } from '../../lib/git'
+import { publishSaves } from '../../lib/event-bus'
+import { versionOf } from '../../lib/microtext-file'
+import { RollbackError, restorePage, revertPublish } from '../../lib/publish-history'
+import { startPostPublish } from '../../lib/publish-hooks'
+import { getAuthor, recordRevisions } from '../../lib/revision-log'
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { commit, page } = body
+
+    if (typeof commit !== 'string' || (page !== undefined && typeof page !== 'string')) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required field: commit (page is optional)' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const author = authorFor(locals.user)
+    const result = page ? await restorePage(commit, page, author) : await revertPublish(commit, author)
+
+    for (const { page: slug, version, fields } of result.pages) {
+      await recordRevisions(
+        slug,
+        fields.map(f => ({ fieldId: f.id, locale: f.locale, oldValue: f.old ?? undefined, newValue: f.new ?? undefined })),
+        { author: getAuthor(locals.user), source: 'rollback' }
+      )
+      // Editors render text; other values show on reload
+      const saved = fields
+        .filter(f => typeof f.new === 'string')
+        .map(f => ({ id: f.id, locale: f.locale, value: f.new, version: versionOf(f.new) }))
+      publishSaves(slug, saved, version, getAuthor(locals.user))
+    }
+
+    console.log(`[publish-rollback] ${page ? `Restored ${page} to` : 'Reverted'} ${commit.slice(0, 7)} as ${result.commit.slice(0, 7)}`)
+
+    const hooks = await startPostPublish(result.commit)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        commit: result.commit,
+        message: result.message.split('\n')[0],
+        pages: result.pages.map(p => ({ page: p.page, fields: p.fields.map(({ locale, id }) => ({ locale, id })) })),
+        hooks,
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    if (error instanceof RollbackError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: error.status, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+    if (error instanceof GitError) {
+      console.error(`[publish-rollback] ${error.code}: ${error.message}`)
+      return gitErrorResponse(error)
+    }
+
+    console.error('[publish-rollback] Error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Rollback failed' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * API Route: /api/publish-schedule
+ *
+ * GET - Scheduled publishes: pending and failed ones by publish time, then
+ * the latest published
+ *   { schedules: Schedule[] }  (see lib/publish-schedule.ts)
+ *
+ * POST - Create or change a schedule
+ *
+ * Request body:
+ *   { action: 'create', publishAt: string, changes: [{ pageSlug, locale?, id, value, baseVersion? }], message?: string }
+ *   { action: 'reschedule', id: string, publishAt: string }
+ *   { action: 'cancel', id: string }
+ *
+ * `publishAt` is an ISO 8601 time; a time already past publishes at once.
+ * Changes are checked against the pages when scheduled (400, or 422 for
+ * schema violations) and again when published. Cancel answers with the
+ * schedule, so its changes can go back to being drafts.
+ */
+
+import type { APIRoute } from 'astro'
+import { cancelSchedule, createSchedule, listSchedules, reschedule, ScheduleError } from '../../lib/publish-schedule'
+import { getAuthor } from '../../lib/revision-log'
+
+export const GET: APIRoute = async () => {
+  try {
+    return new Response(
+      JSON.stringify({ schedules: await listSchedules() }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+  } catch (error) {
+    console.error('[publish-schedule] Error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Failed to read schedules' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { action } = body
+
+    if (action !== 'create' && typeof body.id !== 'string') {
+      return new Response(
+        JSON.stringify({ error: 'Missing required field: id' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    let schedule
+    switch (action) {
+      case 'create':
+        schedule = await createSchedule(body, getAuthor(locals.user))
+        break
+      case 'reschedule':
+        schedule = await reschedule(body.id, body.publishAt)
+        break
+      case 'cancel':
+        schedule = await cancelSchedule(body.id)
+        break
+      default:
+        return new Response(
+          JSON.stringify({ error: 'action must be "create", "reschedule" or "cancel"' }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        )
+    }
+
+    console.log(`[publish-schedule] ${getAuthor(locals.user)}: ${action} ${schedule.id} (${schedule.changes.length} change(s) at ${schedule.publishAt})`)
+
+    return new Response(
+      JSON.stringify({ success: true, schedule }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    if (error instanceof ScheduleError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: error.status, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+
+    console.error('[publish-schedule] Error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Failed to update schedule' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    )
+  }
+}
@@ -1,55 +1,118 @@
 /**
  * API Route: /api/publish
  *
- * POST - Commit all pending content changes to git
+ * POST - Commit pending content changes to git
  *
- * This batches all microtext edits into a single commit.
+ * Request body (all optional):
+ *   {
+ *     message?: string,
+ *     pages?: string[],                                   // publish these pages whole
+ *     fields?: [{ page: string, locale?: string, id: string }]  // and/or just these fields
+ *   }
+ *
+ * Without `pages` or `fields` this batches all microtext edits, and images
+ * uploaded for them (public/uploads/), into a single commit. With them,
+ * only the selection is committed, with the uploads it refers to; the rest
+ * stays unpublished. Selecting something with no unpublished change is a 400.
+ *
+ * The commit is authored as the signed-in user (see lib/git.ts). Git
+ * failures answer { error, code, detail? }:
+ *   409 lock-held, detached-head - try again, or fix the checkout
+ *   422 hook-failed              - `detail` has the hook's output
+ *   500 identity-unknown, failed
+ * Nothing to commit is not an error: { success: true, message: 'No changes to publish' }
+ *
+ * After the commit, the post-publish hooks (push, build, webhook; see
+ * lib/publish-hooks.ts) start in the background. The response's `hooks` is
+ * their run as started, or null when none are configured; follow it with
+ * GET /api/publish-hooks?commit=<commit>.
+ *
+ * GET - Unpublished changes, per file and per microtext field:
+ *   { unpublishedChanges: number, files: FileChange[], fields: FieldChange[] }
+ * (see lib/publish-changes.ts)
  */
 
 import type { APIRoute } from 'astro'
-import { exec } from 'child_process'
-import { promisify } from 'util'
+import { GitError, authorFor, gitErrorResponse } from '../../lib/git'
+import {
+  PublishSelectionError,
+  getUnpublishedChanges,
+  publishChanges,
+  type PublishSelection,
+} from '../../lib/publish-changes'
+import { startPostPublish } from '../../lib/publish-hooks'
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+function isFieldList(value: unknown): value is NonNullable<PublishSelection['fields']> {
+  return Array.isArray(value) && value.every(item =>
+    typeof item?.page === 'string' && typeof item?.id === 'string'
+      && (item.locale === undefined || typeof item.locale === 'string')
+  )
+}
 
-const execAsync = promisify(exec)
+const noChanges = () => new Response(
+  JSON.stringify({ success: true, message: 'No changes to publish' }),
+  { status: 200, headers: { 'Content-Type': 'application/json' } }
+)
 
-export const POST: APIRoute = async ({ request }) => {
+export const POST: APIRoute = async ({ request, locals }) => {
   try {
     const body = await request.json().catch(() => ({}))
-    const message = body.message || `Content update ${new Date().toISOString()}`
+    const message = typeof body.message === 'string' && body.message.trim()
+      ? body.message.trim()
+      : `Content update ${new Date().toISOString()}`
 
-    const cwd = process.cwd()
-
-    // Check if there are any changes to commit
-    const { stdout: status } = await execAsync('git status --porcelain src/pages/', { cwd })
-
-    if (!status.trim()) {
+    if ((body.pages !== undefined && !isStringArray(body.pages)) || (body.fields !== undefined && !isFieldList(body.fields))) {
       return new Response(
-        JSON.stringify({ success: true, message: 'No changes to publish' }),
-        { status: 200, headers: { 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: 'pages must be a list of page slugs, fields a list of { page, locale?, id }' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
       )
     }
 
-    // Stage all content changes
-    await execAsync('git add src/pages/', { cwd })
+    const author = authorFor(locals.user)
+    let outcome
+    try {
+      outcome = await publishChanges({ pages: body.pages, fields: body.fields }, message, author)
+    } catch (error) {
+      if (error instanceof PublishSelectionError) {
+        return new Response(
+          JSON.stringify({ error: error.message }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        )
+      }
+      throw error
+    }
+    if (!outcome) return noChanges()
 
-    // Commit with message
-    await execAsync(`git commit -m "${message.replace(/"/g, '\\"')}"`, { cwd })
+    const { branch, commit } = outcome
+    const files = outcome.files.length
 
-    // Count files changed
-    const files = status.trim().split('\n').length
+    console.log(`[publish] ${author?.name ?? 'git default'} committed ${files} file(s) to ${branch} as ${commit.slice(0, 7)}: ${message}`)
 
-    console.log(`[publish] Committed ${files} file(s): ${message}`)
+    const hooks = await startPostPublish(commit)
 
     return new Response(
       JSON.stringify({
         success: true,
         message: `Published ${files} change(s)`,
-        filesChanged: files
+        filesChanged: files,
+        commit,
+        author: author?.name ?? null,
+        hooks,
       }),
       { status: 200, headers: { 'Content-Type': 'application/json' } }
     )
 
   } catch (error) {
+    if (error instanceof GitError) {
+      if (error.code === 'nothing-to-commit') return noChanges()
+      console.error(`[publish] ${error.code}: ${error.message}`)
+      return gitErrorResponse(error)
+    }
+
     console.error('[publish] Error:', error)
 
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
@@ -61,16 +124,13 @@ export const POST: APIRoute = async ({ request }) => {
   }
 }
 
-// GET - Check if there are unpublished changes
+// GET - List unpublished changes
 export const GET: APIRoute = async () => {
   try {
-    const cwd = process.cwd()
-    const { stdout: status } = await execAsync('git status --porcelain src/pages/', { cwd })
-
-    const changes = status.trim() ? status.trim().split('\n').length : 0
+    const { files, fields } = await getUnpublishedChanges()
 
     return new Response(
-      JSON.stringify({ unpublishedChanges: changes }),
+      JSON.stringify({ unpublishedChanges: files.length, files, fields }),
       { status: 200, headers: { 'Content-Type': 'application/json' } }
     )
   } catch (error) {
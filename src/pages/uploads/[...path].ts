@@ -0,0 +1,29 @@
+/**
+ * Route: /uploads/*
+ *
+ * GET - An uploaded image (see lib/media-upload.ts)
+ *
+ * The built server serves public/ as it was at build time, so images
+ * uploaded since would 404 until the next build; requests for them fall
+ * through to this route, which reads them from public/uploads/. Names carry
+ * a content hash, so they are cached for good.
+ */
+
+import type { APIRoute } from 'astro'
+import { readUpload } from '../../lib/media-upload'
+
+export const GET: APIRoute = async ({ params }) => {
+  const upload = await readUpload(params.path || '')
+  if (!upload) {
+    return new Response('Not found', { status: 404 })
+  }
+
+  return new Response(new Uint8Array(upload.body), {
+    status: 200,
+    headers: {
+      'Content-Type': upload.type,
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      'X-Content-Type-Options': 'nosniff',
+    },
+  })
+}